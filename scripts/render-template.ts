@@ -0,0 +1,69 @@
+// Renders a design from the command line with the same renderer as batch jobs:
+//
+//   npm run render -- design.json out.png --text title="Jane Doe" --image photo=jane.jpg --scale 3
+//
+// The format comes from the output file's extension. Texts are keyed by element
+// id (or `id#run`), photos by placeholder id, as in RenderOptions.
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { RenderFormat, TemplateRenderError, renderTemplate } from '@/lib/renderTemplate';
+import { TemplateSchemaError } from '@/lib/templateSchema';
+import { nodeRenderBackend } from '@/lib/nodeRenderBackend';
+
+const FORMATS: Record<string, RenderFormat> = { '.png': 'png', '.jpg': 'jpeg', '.jpeg': 'jpeg', '.webp': 'webp' };
+
+// `key=value` pairs; values may contain further `=`
+const parsePairs = (pairs: string[] = []) =>
+  Object.fromEntries(
+    pairs.map((pair) => {
+      const split = pair.indexOf('=');
+      if (split < 1) throw new Error(`Expected key=value, got "${pair}"`);
+      return [pair.slice(0, split), pair.slice(split + 1)];
+    })
+  );
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      text: { type: 'string', multiple: true },
+      image: { type: 'string', multiple: true },
+      scale: { type: 'string' },
+      quality: { type: 'string' },
+      transparent: { type: 'boolean' },
+    },
+  });
+  const [input, output] = positionals;
+  const format = output && FORMATS[extname(output).toLowerCase()];
+  if (!input || !format) {
+    throw new Error('Usage: npm run render -- <design.json> <out.png|jpg|webp> [--text id=value] [--image id=file] [--scale n] [--quality 0-1] [--transparent]');
+  }
+
+  const template = JSON.parse(await readFile(input, 'utf8'));
+  const imagePaths = parsePairs(values.image);
+  const images = Object.fromEntries(
+    await Promise.all(Object.entries(imagePaths).map(async ([id, path]) => [id, new Uint8Array(await readFile(path))]))
+  );
+
+  const data = await renderTemplate(
+    template,
+    {
+      images,
+      texts: parsePairs(values.text),
+      format,
+      ...(values.scale ? { pixelRatio: Number(values.scale) } : {}),
+      ...(values.quality ? { quality: Number(values.quality) } : {}),
+      transparent: values.transparent,
+    },
+    nodeRenderBackend
+  );
+  await writeFile(output, data);
+  console.log(`Wrote ${output}`);
+};
+
+main().catch((err) => {
+  // Expected failures get their message only; anything else keeps its stack
+  console.error(err instanceof TemplateRenderError || err instanceof TemplateSchemaError ? err.message : err);
+  process.exit(1);
+});
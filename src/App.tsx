@@ -24,6 +24,9 @@ const App = () => {
             
             {/* Create New Designs */}
             <Route path="/create" element={<Index />} />
+
+            {/* Edit a published design in place; republishing keeps the same slug */}
+            <Route path="/create/:slug" element={<Index />} />
             
             {/* View & Customize Published Designs */}
             {/* This is where the magic happens: /dp/abc-123 loads the Generator */}
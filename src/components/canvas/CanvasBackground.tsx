@@ -0,0 +1,41 @@
+import React from 'react';
+import { Rect, Image as KonvaImage } from 'react-konva';
+import useImage from 'use-image';
+import { Gradient } from '@/types/editor';
+import { getCoverRect, getImageSize } from '@/lib/shapes';
+import { getKonvaFill } from '@/lib/gradients';
+
+interface CanvasBackgroundProps {
+  width: number;
+  height: number;
+  color: string;
+  // Replaces the colour when set
+  gradient?: Gradient | null;
+  image?: string | null;
+  // Name of the background rect; the editor uses it to detect clicks on empty canvas
+  name?: string;
+}
+
+// Background colour or gradient with an optional photo covering the whole canvas
+export const CanvasBackground: React.FC<CanvasBackgroundProps> = ({ width, height, color, gradient, image, name }) => {
+  // Storage URLs are cross-origin; without CORS the canvas can't be exported
+  const [bgImage] = useImage(image || '', 'anonymous');
+  const cover = bgImage ? getCoverRect({ width, height }, getImageSize(bgImage)) : null;
+
+  return (
+    <>
+      <Rect name={name} x={0} y={0} width={width} height={height} {...getKonvaFill(color || '#ffffff', gradient ?? undefined, { x: 0, y: 0, width, height })} />
+      {bgImage && cover && (
+        <KonvaImage
+          name="background-image"
+          image={bgImage}
+          x={cover.x}
+          y={cover.y}
+          width={cover.width}
+          height={cover.height}
+          listening={false}
+        />
+      )}
+    </>
+  );
+};
@@ -0,0 +1,202 @@
+import React from 'react';
+import { Group, Rect, Circle, Ellipse, Ring, Line, Shape, Image as KonvaImage, KonvaNodeEvents } from 'react-konva';
+import Konva from 'konva';
+import { CanvasElement, GroupElement } from '@/types/editor';
+import {
+  ShapeOutline,
+  ImageTransform,
+  IDENTITY_IMAGE_TRANSFORM,
+  getShapeOutline,
+  getOutlineBounds,
+  getStrokeOutline,
+  getStrokeLineWidth,
+  getPlaceholderImageRect,
+  getImageSize,
+  getFillRule,
+  traceOutline,
+  traceStrokeClip,
+  needsStrokeClip,
+} from '@/lib/shapes';
+import { getKonvaFill } from '@/lib/gradients';
+import { browserMeasureText, drawTextLayout, layoutText } from '@/lib/textLayout';
+import { drawLine, getLineSize } from '@/lib/lines';
+
+// The visual part of one element, drawn around its centre. The editor, the
+// generator and the published view wrap this in their own positioned Group.
+
+type OutlineShapeProps = Omit<Konva.ShapeConfig, 'x' | 'y' | 'points' | 'radius'> & { outline: ShapeOutline };
+
+const OutlineShape: React.FC<OutlineShapeProps> = ({ outline, ...style }) => {
+  switch (outline.kind) {
+    case 'rect':
+      return (
+        <Rect
+          x={outline.x}
+          y={outline.y}
+          width={outline.width}
+          height={outline.height}
+          cornerRadius={outline.cornerRadius}
+          {...style}
+        />
+      );
+    case 'circle':
+      return <Circle x={0} y={0} radius={outline.radius} {...style} />;
+    case 'ellipse':
+      return <Ellipse x={0} y={0} radiusX={outline.radiusX} radiusY={outline.radiusY} {...style} />;
+    case 'ring':
+      return <Ring x={0} y={0} innerRadius={outline.innerRadius} outerRadius={outline.radius} {...style} />;
+    case 'polygon':
+      return <Line points={outline.points} closed lineJoin="miter" {...style} />;
+    case 'path': {
+      // Sized to the path so Konva knows its area, e.g. when caching it for effects
+      const bounds = getOutlineBounds(outline);
+      return (
+        <Shape
+          x={bounds.x}
+          y={bounds.y}
+          width={bounds.width}
+          height={bounds.height}
+          sceneFunc={(ctx, shape) => {
+            ctx.translate(-bounds.x, -bounds.y);
+            traceOutline(ctx, outline);
+            ctx.fillStrokeShape(shape);
+          }}
+          lineJoin="miter"
+          fillRule={outline.fillRule}
+          {...style}
+        />
+      );
+    }
+  }
+};
+
+interface ElementContentProps {
+  element: Exclude<CanvasElement, GroupElement>;
+  // Photo shown inside a placeholder (or an image element's own picture)
+  image?: HTMLImageElement | HTMLCanvasElement;
+  // Pan/zoom of the photo inside the shape; the generator crops photos up front and leaves this out
+  imageTransform?: ImageTransform;
+  imageRef?: React.Ref<Konva.Image>;
+  imageProps?: Partial<Konva.ImageConfig> & KonvaNodeEvents;
+  listening?: boolean;
+}
+
+export const ElementContent: React.FC<ElementContentProps> = ({
+  element,
+  image,
+  imageTransform = IDENTITY_IMAGE_TRANSFORM,
+  imageRef,
+  imageProps,
+  listening = false,
+}) => {
+  if (element.type === 'text') {
+    // Laid out and painted by the shared text code so every renderer matches. The
+    // shape's box is the text block, which is what the transformer and hit area use.
+    const layout = layoutText(element, browserMeasureText);
+    return (
+      <Shape
+        x={0}
+        y={0}
+        width={element.width}
+        height={layout.height}
+        offsetX={element.width / 2}
+        offsetY={layout.height / 2}
+        sceneFunc={(ctx) => {
+          ctx.translate(element.width / 2, layout.height / 2);
+          drawTextLayout(ctx._context, element, layout);
+        }}
+        hitFunc={(ctx, shape) => {
+          ctx.beginPath();
+          ctx.rect(0, 0, element.width, layout.height);
+          ctx.closePath();
+          ctx.fillStrokeShape(shape);
+        }}
+        listening={listening}
+      />
+    );
+  }
+
+  if (element.type === 'line') {
+    // Round and square caps reach half the thickness past each end
+    const size = getLineSize(element);
+    const width = size.width + element.strokeWidth;
+    return (
+      <Shape
+        x={0}
+        y={0}
+        width={width}
+        height={size.height}
+        offsetX={width / 2}
+        offsetY={size.height / 2}
+        sceneFunc={(ctx) => {
+          ctx.translate(width / 2, size.height / 2);
+          drawLine(ctx._context, element);
+        }}
+        hitFunc={(ctx, shape) => {
+          // Thin lines get a taller hit area so they're easy to click
+          const hitHeight = Math.max(size.height, 16);
+          ctx.beginPath();
+          ctx.rect(0, (size.height - hitHeight) / 2, width, hitHeight);
+          ctx.closePath();
+          ctx.fillStrokeShape(shape);
+        }}
+        listening={listening}
+      />
+    );
+  }
+
+  const outline = getShapeOutline(element);
+  // Konva Rects measure gradients from their top-left corner, other shapes from the centre
+  const fill =
+    element.type === 'image'
+      ? {}
+      : getKonvaFill(element.fill, element.fillGradient, getOutlineBounds(outline), outline.kind === 'rect' ? { x: outline.x, y: outline.y } : undefined);
+  const imageRect = image ? getPlaceholderImageRect(element, getImageSize(image), imageTransform) : null;
+
+  return (
+    <>
+      {/* Fill and photo, clipped to the shape */}
+      <Group
+        clipFunc={(ctx) => {
+          traceOutline(ctx, outline);
+          return [getFillRule(outline)];
+        }}
+      >
+        <OutlineShape outline={outline} {...fill} listening={listening} />
+        {image && imageRect && (
+          <KonvaImage
+            ref={imageRef}
+            image={image}
+            x={imageRect.x}
+            y={imageRect.y}
+            width={imageRect.width}
+            height={imageRect.height}
+            listening={false}
+            {...imageProps}
+          />
+        )}
+      </Group>
+
+      {/* Strokes sit on top, offset (or for paths, clipped) so each lands inside, on or outside the edge */}
+      {element.strokes?.map((stroke, i) => {
+        if (stroke.width <= 0) return null;
+        const strokeOutline = getStrokeOutline(element, stroke);
+        const shape = (
+          <OutlineShape
+            outline={strokeOutline}
+            stroke={stroke.color}
+            strokeWidth={getStrokeLineWidth(strokeOutline, stroke)}
+            listening={false}
+          />
+        );
+        return needsStrokeClip(strokeOutline, stroke) ? (
+          <Group key={`stroke-${i}`} clipFunc={(ctx) => [traceStrokeClip(ctx, strokeOutline, stroke)]}>
+            {shape}
+          </Group>
+        ) : (
+          <React.Fragment key={`stroke-${i}`}>{shape}</React.Fragment>
+        );
+      })}
+    </>
+  );
+};
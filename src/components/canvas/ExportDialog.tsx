@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react';
+import { Download, Loader2, Lock } from 'lucide-react';
+import { ExportFormat, ExportSettings } from '@/types/editor';
+import {
+  EXPORT_FORMATS,
+  EXPORT_SCALES,
+  MAX_EXPORT_WIDTH,
+  formatFileSize,
+  getExportSize,
+} from '@/lib/imageExport';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  design: { width: number; height: number };
+  settings: ExportSettings;
+  // Creators can lock the settings so attendees always get this preset
+  canLock?: boolean;
+  estimateSize: (settings: ExportSettings) => Promise<number | null>;
+  // Resolves to false if the download failed, which keeps the dialog open
+  onExport: (settings: ExportSettings) => Promise<boolean>;
+  // Keep the settings without downloading
+  onSave?: (settings: ExportSettings) => void;
+}
+
+// Wait for the settings to stop changing before rendering a sample
+const ESTIMATE_DELAY = 300;
+
+const FORMATS = Object.keys(EXPORT_FORMATS) as ExportFormat[];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  open,
+  onOpenChange,
+  design,
+  settings,
+  canLock,
+  estimateSize,
+  onExport,
+  onSave,
+}) => {
+  const [draft, setDraft] = useState(settings);
+  const [estimate, setEstimate] = useState<number | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const format = EXPORT_FORMATS[draft.format];
+  const size = getExportSize(draft, design);
+
+  // Every opening starts from the remembered settings
+  useEffect(() => {
+    if (open) setDraft(settings);
+  }, [open, settings]);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setEstimate(null);
+    const timer = setTimeout(async () => {
+      const bytes = await estimateSize(draft);
+      if (!cancelled) setEstimate(bytes);
+    }, ESTIMATE_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, draft, estimateSize]);
+
+  const update = (changes: Partial<ExportSettings>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    const ok = await onExport(draft);
+    setIsExporting(false);
+    if (ok) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isExporting && onOpenChange(next)}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Download image</DialogTitle>
+          <DialogDescription>
+            {design.width}×{design.height} design
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <span className="label-subtle">Format</span>
+            <div className="grid grid-cols-3 gap-2 mt-1">
+              {FORMATS.map((value) => (
+                <Button
+                  key={value}
+                  variant={draft.format === value ? 'secondary' : 'outline'}
+                  size="sm"
+                  onClick={() => update({ format: value })}
+                >
+                  {EXPORT_FORMATS[value].label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between">
+              <span className="label-subtle">Size</span>
+              <span className="text-xs text-slate-500">{size.width}×{size.height} px</span>
+            </div>
+            <div className="grid grid-cols-5 gap-2 mt-1">
+              {EXPORT_SCALES.map((scale) => (
+                <Button
+                  key={scale}
+                  variant={!draft.width && draft.scale === scale ? 'secondary' : 'outline'}
+                  size="sm"
+                  onClick={() => update({ scale, width: undefined })}
+                >
+                  {scale}x
+                </Button>
+              ))}
+              <Button
+                variant={draft.width ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => update({ width: size.width })}
+              >
+                px
+              </Button>
+            </div>
+            {draft.width !== undefined && (
+              <div className="flex items-center gap-2 mt-2">
+                <input
+                  type="number"
+                  className="input-minimal w-24"
+                  min={1}
+                  max={MAX_EXPORT_WIDTH}
+                  value={draft.width}
+                  onChange={(e) => {
+                    const width = Math.round(Number(e.target.value));
+                    if (width > 0) update({ width: Math.min(width, MAX_EXPORT_WIDTH) });
+                  }}
+                />
+                <span className="text-xs text-slate-500">px wide; the height keeps the design's proportions</span>
+              </div>
+            )}
+          </div>
+
+          {format.hasQuality && (
+            <div>
+              <div className="flex items-center justify-between">
+                <span className="label-subtle">Quality</span>
+                <span className="text-xs text-slate-500">{Math.round(draft.quality * 100)}%</span>
+              </div>
+              <input
+                type="range"
+                className="w-full h-1.5 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer mt-2"
+                min={10}
+                max={100}
+                value={Math.round(draft.quality * 100)}
+                onChange={(e) => update({ quality: Number(e.target.value) / 100 })}
+              />
+            </div>
+          )}
+
+          <label className={cn('flex items-center gap-2 text-xs', format.hasAlpha ? 'cursor-pointer' : 'opacity-50')}>
+            <input
+              type="checkbox"
+              className="w-4 h-4 rounded border-slate-300 text-primary focus:ring-primary"
+              checked={draft.transparent && format.hasAlpha}
+              disabled={!format.hasAlpha}
+              onChange={(e) => update({ transparent: e.target.checked })}
+            />
+            Transparent background{!format.hasAlpha && ' (not in JPEG)'}
+          </label>
+
+          {canLock && (
+            <label className="flex items-center gap-2 text-xs cursor-pointer">
+              <input
+                type="checkbox"
+                className="w-4 h-4 rounded border-slate-300 text-primary focus:ring-primary"
+                checked={!!draft.locked}
+                onChange={(e) => update({ locked: e.target.checked })}
+              />
+              <Lock className="w-3 h-3 text-slate-400" />
+              Attendees always download these settings
+            </label>
+          )}
+
+          <div className="flex items-center justify-between gap-3 pt-2">
+            <span className="text-xs text-slate-500">
+              {estimate !== null ? `About ${formatFileSize(estimate)}` : 'Estimating size…'}
+            </span>
+            <div className="flex gap-2">
+              {onSave && (
+                <Button
+                  variant="ghost"
+                  disabled={isExporting}
+                  onClick={() => {
+                    onSave(draft);
+                    onOpenChange(false);
+                  }}
+                >
+                  Save
+                </Button>
+              )}
+              <Button className="gap-2" disabled={isExporting} onClick={handleExport}>
+                {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                Download
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,27 @@
+import React, { useRef } from 'react';
+import { Group } from 'react-konva';
+import Konva from 'konva';
+import useImage from 'use-image';
+import { CanvasElement } from '@/types/editor';
+import { useElementEffects } from '@/hooks/useElementEffects';
+import { ElementContent } from '@/components/canvas/ElementContent';
+
+// A finished, non-interactive element as the Generator downloads it. Draws through
+// the same ElementContent as the editor so the download matches the design.
+export const RenderShape: React.FC<{ element: CanvasElement; userImages: Record<string, string> }> = ({ element, userImages }) => {
+  const src = element.type === 'image' ? element.src : element.isPlaceholder ? userImages[element.id] : undefined;
+  const [image] = useImage(src || '', 'anonymous');
+  const groupRef = useRef<Konva.Group>(null);
+  useElementEffects(groupRef, element, image);
+
+  return (
+    <Group ref={groupRef} x={element.x} y={element.y} rotation={element.rotation} opacity={element.opacity ?? 1} listening={false}>
+      {element.type === 'group' ? (
+        // Children are stored relative to the group, so the Group supplies the offset
+        element.children.map((child) => <RenderShape key={child.id} element={child} userImages={userImages} />)
+      ) : (
+        <ElementContent element={element} image={src ? image : undefined} />
+      )}
+    </Group>
+  );
+};
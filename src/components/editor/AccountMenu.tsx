@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import type { User } from '@supabase/supabase-js';
+import { LogIn, LogOut, FileImage, Trash2, Loader2, Mail } from 'lucide-react';
+import { toast } from 'sonner';
+import { listMyTemplates, deleteTemplate } from '@/lib/templates';
+import { TemplateSummary } from '@/types/editor';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+interface AccountMenuProps {
+  user: User | null;
+  isSignInOpen: boolean;
+  onSignInOpenChange: (open: boolean) => void;
+  onSignIn: (email: string) => Promise<boolean>;
+  onSignOut: () => void;
+}
+
+export const AccountMenu: React.FC<AccountMenuProps> = ({
+  user,
+  isSignInOpen,
+  onSignInOpenChange,
+  onSignIn,
+  onSignOut,
+}) => {
+  const [email, setEmail] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [linkSent, setLinkSent] = useState(false);
+  const [templates, setTemplates] = useState<TemplateSummary[] | null>(null);
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email) return;
+    setIsSending(true);
+    const ok = await onSignIn(email);
+    setIsSending(false);
+    if (ok) setLinkSent(true);
+    else toast.error('Could not send sign-in link.');
+  };
+
+  // Refresh the list every time the menu opens so new publishes show up
+  const handleMenuOpenChange = (open: boolean) => {
+    if (!open) return;
+    setTemplates(null);
+    listMyTemplates().then(setTemplates);
+  };
+
+  const handleDelete = async (slug: string) => {
+    if (!window.confirm('Delete this template? Its share link will stop working.')) return;
+    if (await deleteTemplate(slug)) {
+      setTemplates((prev) => prev?.filter((t) => t.slug !== slug) ?? null);
+      toast.success('Template deleted');
+    } else {
+      toast.error('Could not delete template.');
+    }
+  };
+
+  return (
+    <>
+      {user ? (
+        <DropdownMenu onOpenChange={handleMenuOpenChange}>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-10 gap-2 rounded-sm">
+              <div className="w-6 h-6 rounded-full bg-primary/10 text-primary flex items-center justify-center text-[10px] font-bold uppercase">
+                {user.email?.[0] ?? '?'}
+              </div>
+              <span className="hidden lg:inline text-xs max-w-[140px] truncate">{user.email}</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-72">
+            <DropdownMenuLabel className="text-xs text-slate-500">My templates</DropdownMenuLabel>
+            {templates === null ? (
+              <div className="flex justify-center py-3"><Loader2 className="w-4 h-4 animate-spin text-slate-400" /></div>
+            ) : templates.length === 0 ? (
+              <p className="px-2 py-3 text-xs text-slate-500">Nothing published yet.</p>
+            ) : (
+              <div className="max-h-64 overflow-y-auto">
+                {templates.map((t) => (
+                  <DropdownMenuItem key={t.slug} asChild>
+                    <Link to={`/create/${t.slug}`} className="flex items-center gap-2">
+                      <FileImage className="w-3.5 h-3.5 shrink-0 text-slate-400" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-xs font-medium truncate">{t.name}</p>
+                        <p className="text-[10px] text-slate-500">/dp/{t.slug} · {new Date(t.updatedAt).toLocaleDateString()}</p>
+                      </div>
+                      <button
+                        onClick={(e) => {
+                          e.preventDefault();
+                          e.stopPropagation();
+                          handleDelete(t.slug);
+                        }}
+                        className="p-1 text-slate-400 hover:text-red-500 transition-colors"
+                        title="Delete template"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </Link>
+                  </DropdownMenuItem>
+                ))}
+              </div>
+            )}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={onSignOut} className="gap-2 text-xs">
+              <LogOut className="w-3.5 h-3.5" /> Sign out
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ) : (
+        <Button variant="ghost" size="sm" className="h-10 gap-2 rounded-sm" onClick={() => onSignInOpenChange(true)}>
+          <LogIn className="w-3.5 h-3.5" /> <span className="hidden md:inline">Sign in</span>
+        </Button>
+      )}
+
+      <Dialog
+        open={isSignInOpen && !user}
+        onOpenChange={(open) => {
+          onSignInOpenChange(open);
+          if (!open) setLinkSent(false);
+        }}
+      >
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Sign in to publish</DialogTitle>
+            <DialogDescription>
+              Published campaigns belong to your account, so only you can update or delete them.
+            </DialogDescription>
+          </DialogHeader>
+          {linkSent ? (
+            <div className="flex flex-col items-center text-center gap-2 py-4">
+              <Mail className="w-8 h-8 text-primary" />
+              <p className="text-sm">Check <strong>{email}</strong> for a sign-in link.</p>
+            </div>
+          ) : (
+            <form onSubmit={handleSignIn} className="flex flex-col gap-3">
+              <Input
+                type="email"
+                required
+                placeholder="you@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+              <Button type="submit" disabled={isSending}>
+                {isSending ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Email me a sign-in link'}
+              </Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
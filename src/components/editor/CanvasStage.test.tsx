@@ -0,0 +1,56 @@
+import { act } from 'react';
+import Konva from 'konva';
+import { describe, expect, it, vi } from 'vitest';
+import { GroupElement, TemplateData } from '@/types/editor';
+import { CURRENT_SCHEMA_VERSION } from '@/lib/templateSchema';
+import { mountEditor } from '@/test/render';
+
+const base = { rotation: 0, isPlaceholder: false };
+
+const GROUP: GroupElement = {
+  ...base,
+  id: 'frame',
+  type: 'group',
+  x: 200,
+  y: 150,
+  children: [
+    { ...base, id: 'photo', type: 'rect', x: -60, y: 0, width: 100, height: 80, cornerRadius: 0, fill: '#ef4444' },
+    { ...base, id: 'ring', type: 'ring', x: 60, y: 0, radius: 40, innerRadius: 30, fill: '#3b82f6' },
+  ],
+};
+
+const TEMPLATE: TemplateData = {
+  id: 'editor',
+  slug: 'editor',
+  name: 'Editor',
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  width: 400,
+  height: 300,
+  backgroundColor: '#ffffff',
+  elements: [GROUP],
+};
+
+describe('CanvasStage', () => {
+  it('transforms a selected group as a whole', () => {
+    const onUpdate = vi.fn();
+    const { stage, unmount } = mountEditor(TEMPLATE, { selectedIds: [GROUP.id], onUpdate });
+    const transformer = stage.findOne('Transformer') as Konva.Transformer;
+    const [node] = transformer.nodes();
+    expect(transformer.nodes()).toHaveLength(1);
+    expect(node.id()).toBe(GROUP.id);
+
+    node.scale({ x: 2, y: 1.5 });
+    act(() => {
+      transformer.fire('transformend');
+    });
+    unmount();
+
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+    const [id, updates] = onUpdate.mock.calls[0];
+    expect(id).toBe(GROUP.id);
+    expect(updates.children).toMatchObject([
+      { id: 'photo', x: -120, y: 0, width: 200, height: 120 },
+      { id: 'ring', x: 120, y: 0, radius: 70, innerRadius: 52.5 },
+    ]);
+  });
+});
@@ -1,42 +1,126 @@
-import React, { useRef, useEffect, useCallback } from 'react';
-import { Stage, Layer, Rect, Transformer, Image as KonvaImage } from 'react-konva';
+import React, { useRef, useEffect, useCallback, useState } from 'react';
+import { Stage, Layer, Rect, Line, Transformer } from 'react-konva';
 import Konva from 'konva';
-import useImage from 'use-image';
-import { CanvasElement } from '@/types/editor';
+import { CanvasElement, Gradient, TextElement } from '@/types/editor';
+import { findElement, flattenElements, scaleElement } from '@/lib/elements';
+import { Box, GuideLine, SpacingHint, GRID_SIZE, SNAP_THRESHOLD, snapBox, snapResize, unionBoxes } from '@/lib/snapping';
 import { ShapeRenderer } from './ShapeRenderer';
+import { RichTextEditor } from './RichTextEditor';
+import { DrawnPath, PenTool } from './PenTool';
+import { CanvasBackground } from '@/components/canvas/CanvasBackground';
 
 interface CanvasStageProps {
   elements: CanvasElement[];
-  selectedId: string | null;
-  onSelect: (id: string | null) => void;
+  selectedIds: string[];
+  onSelect: (id: string | null, additive?: boolean) => void;
+  onSelectMany?: (ids: string[]) => void;
   onUpdate: (id: string, updates: Partial<CanvasElement>) => void;
+  onUpdateMany?: (changes: Record<string, Partial<CanvasElement>>) => void;
   canvasSize: { width: number; height: number };
   backgroundColor: string;
+  backgroundGradient?: Gradient | null;
   backgroundImage?: string | null;
   stageRef: React.RefObject<Konva.Stage>;
   userImage?: string;
   isGeneratorMode?: boolean;
+  snapToGrid?: boolean;
+  // Families offered by the on-canvas text editor
+  fontOptions?: string[];
+  // Pen tool: clicks on the canvas draw a path instead of selecting
+  isPenActive?: boolean;
+  onPathDrawn?: (path: DrawnPath) => void;
+  onPenExit?: () => void;
+}
+
+interface MarqueeBox {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+const normalizeBox = (box: MarqueeBox) => ({
+  x: Math.min(box.x1, box.x2),
+  y: Math.min(box.y1, box.y2),
+  width: Math.abs(box.x2 - box.x1),
+  height: Math.abs(box.y2 - box.y1),
+});
+
+const isEmptyTarget = (target: Konva.Node) => target === target.getStage() || target.name() === 'background';
+
+// The invisible sizing rect ShapeRenderer puts first in a shape's own group. Only
+// direct children count: a group element's descendants have targets of their own.
+const getTransformerTarget = (node: Konva.Node): Konva.Node | undefined =>
+  node.getType() === 'Group'
+    ? (node as Konva.Group).getChildren((child) => child.name() === 'transformer-target')[0]
+    : undefined;
+
+// Element geometry used for snapping: the transformer target when a shape has one,
+// so strokes and overflowing placeholder photos don't shift the edges.
+// Group elements have no target, so their box covers all their children.
+const getSnapBox = (node: Konva.Node): Box =>
+  (getTransformerTarget(node) || node).getClientRect({ relativeTo: node.getLayer() });
+
+const GUIDE_COLOR = '#ec4899';
+
+const ALL_ANCHORS = ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'top-center', 'bottom-center', 'middle-left', 'middle-right'];
+const LINE_ANCHORS = ['middle-left', 'middle-right'];
+
+interface SnapLines {
+  guides: GuideLine[];
+  spacings: SpacingHint[];
+  // One screen pixel in canvas units, so guides stay hairlines at any zoom
+  pixel: number;
+}
+
+const NO_SNAP_LINES: SnapLines = { guides: [], spacings: [], pixel: 1 };
+
+// Text being edited in place, and where its node sat on the canvas when editing began
+interface TextEditSession {
+  id: string;
+  position: { x: number; y: number; rotation: number };
+  pixelSize: number;
 }
 
 export const CanvasStage: React.FC<CanvasStageProps> = ({
   elements,
-  selectedId,
+  selectedIds,
   onSelect,
+  onSelectMany,
   onUpdate,
+  onUpdateMany,
   canvasSize,
   backgroundColor,
+  backgroundGradient,
   backgroundImage,
   stageRef,
   userImage,
   isGeneratorMode = false,
+  snapToGrid = false,
+  fontOptions,
+  isPenActive = false,
+  onPathDrawn,
+  onPenExit,
 }) => {
   const transformerRef = useRef<Konva.Transformer>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [scale, setScale] = React.useState(1);
   const [lockAspectRatio, setLockAspectRatio] = React.useState(false);
 
-  // Load background image
-  const [bgImage] = useImage(backgroundImage || '', 'anonymous');
+  // Marquee selection box (in canvas coordinates) while dragging on empty canvas
+  const [marquee, setMarquee] = useState<MarqueeBox | null>(null);
+  const marqueeAdditiveRef = useRef(false);
+  const justSelectedRef = useRef(false);
+
+  // Start positions of every selected node while one of them is dragged
+  const dragStartRef = useRef<Record<string, { x: number; y: number }> | null>(null);
+
+  // Smart guides: boxes of the elements not being moved, and the lines to draw
+  const snapTargetsRef = useRef<Box[]>([]);
+  const altKeyRef = useRef(false);
+  const [snapLines, setSnapLines] = useState<SnapLines>(NO_SNAP_LINES);
+
+  const [textEdit, setTextEdit] = useState<TextEditSession | null>(null);
 
   // Calculate scale to fit canvas inside container
   useEffect(() => {
@@ -57,155 +141,410 @@ export const CanvasStage: React.FC<CanvasStageProps> = ({
     return () => window.removeEventListener('resize', updateScale);
   }, [canvasSize]);
 
-  // Keep transformer attached to selected node
+  // Keep transformer attached to every selected node
   useEffect(() => {
     if (transformerRef.current && stageRef.current) {
       const stage = stageRef.current;
-      const selectedNode = stage.findOne(`#${selectedId}`);
-
-      if (selectedNode && !isGeneratorMode) {
-        let targetNode = selectedNode;
-
-        // FIX 1: Cast selectedNode to Konva.Group to access .find()
-        if (selectedNode.getType() === 'Group') {
-          const groupNode = selectedNode as Konva.Group;
-          const rectChild = groupNode.find((node: Konva.Node) => node.name() === 'transformer-target');
-          if (rectChild && rectChild.length > 0) {
-            targetNode = rectChild[0];
-          }
-        }
-        
-        transformerRef.current.nodes([targetNode]);
-        
-        const element = elements.find(el => el.id === selectedId);
-        if (element) {
-          const shouldLock = element.type === 'circle' || element.type === 'polygon';
-          setLockAspectRatio(shouldLock);
-          transformerRef.current.keepRatio(shouldLock);
-        }
-        
-        transformerRef.current.getLayer()?.batchDraw();
-      } else {
-        transformerRef.current.nodes([]);
-        setLockAspectRatio(false);
-      }
+      const targetNodes = isGeneratorMode
+        ? []
+        : selectedIds
+            .filter((id) => id !== textEdit?.id)
+            .map((id) => {
+              const selectedNode = stage.findOne(`#${id}`);
+              if (!selectedNode) return null;
+              // Group elements have no target, so the transformer scales the whole group
+              return getTransformerTarget(selectedNode) || selectedNode;
+            })
+            .filter((node): node is Konva.Node => !!node);
+
+      transformerRef.current.nodes(targetNodes);
+
+      // Circles, rings, polygons and stars only scale uniformly, so lock the ratio if any are selected
+      const shouldLock = flattenElements(elements).some(
+        (el) => selectedIds.includes(el.id) && ['circle', 'ring', 'polygon', 'star'].includes(el.type)
+      );
+      setLockAspectRatio(targetNodes.length > 0 && shouldLock);
+      transformerRef.current.keepRatio(targetNodes.length > 0 && shouldLock);
+      transformerRef.current.getLayer()?.batchDraw();
     }
-  }, [selectedId, isGeneratorMode, stageRef, elements]);
+  }, [selectedIds, isGeneratorMode, stageRef, elements, textEdit]);
 
   const handleStageClick = useCallback(
     (e: Konva.KonvaEventObject<MouseEvent>) => {
-      if (e.target === e.target.getStage() || e.target.name() === 'background') {
-        onSelect(null);
+      // A marquee drag ends with a click on the empty stage; keep what it selected
+      if (justSelectedRef.current) {
+        justSelectedRef.current = false;
+        return;
+      }
+      if (isEmptyTarget(e.target)) {
+        onSelect(null, e.evt.shiftKey);
       }
     },
     [onSelect]
   );
 
-  const handleTransformEnd = useCallback(
-    (e: Konva.KonvaEventObject<Event>) => {
-      const node = e.target as any;
-      
-      let groupNode = node;
-      let elementId = node.id();
-      
-      if (node.name() === 'transformer-target') {
-        groupNode = node.getParent();
-        if (groupNode) {
-          elementId = groupNode.id();
-        }
+  // --- MARQUEE SELECTION ---
+  const handleStageMouseDown = useCallback(
+    (e: Konva.KonvaEventObject<MouseEvent>) => {
+      justSelectedRef.current = false;
+      if (isGeneratorMode || e.evt.button !== 0 || !isEmptyTarget(e.target)) return;
+      const pos = e.target.getStage()?.getPointerPosition();
+      if (!pos) return;
+      marqueeAdditiveRef.current = e.evt.shiftKey;
+      setMarquee({ x1: pos.x, y1: pos.y, x2: pos.x, y2: pos.y });
+    },
+    [isGeneratorMode]
+  );
+
+  const handleStageMouseMove = useCallback(
+    (e: Konva.KonvaEventObject<MouseEvent>) => {
+      if (!marquee) return;
+      const pos = e.target.getStage()?.getPointerPosition();
+      if (!pos) return;
+      setMarquee((prev) => (prev ? { ...prev, x2: pos.x, y2: pos.y } : prev));
+    },
+    [marquee]
+  );
+
+  const handleStageMouseUp = useCallback(() => {
+    if (!marquee) return;
+    setMarquee(null);
+
+    const box = normalizeBox(marquee);
+    // Treat a tiny box as a plain click on the background
+    if (box.width < 4 && box.height < 4) return;
+
+    const stage = stageRef.current;
+    if (!stage) return;
+    const hits = elements
+      .filter((el) => {
+        const node = stage.findOne(`#${el.id}`);
+        return node && Konva.Util.haveIntersection(box, node.getClientRect());
+      })
+      .map((el) => el.id);
+
+    justSelectedRef.current = true;
+    const next = marqueeAdditiveRef.current ? [...selectedIds, ...hits.filter((id) => !selectedIds.includes(id))] : hits;
+    onSelectMany?.(next);
+  }, [marquee, elements, selectedIds, stageRef, onSelectMany]);
+
+  // Finish the marquee even if the pointer is released outside the stage
+  useEffect(() => {
+    if (!marquee) return;
+    window.addEventListener('mouseup', handleStageMouseUp);
+    return () => window.removeEventListener('mouseup', handleStageMouseUp);
+  }, [marquee, handleStageMouseUp]);
+
+  // --- SNAPPING ---
+  // Holding Alt turns snapping off; the transformer's boundBoxFunc has no event, so track it here
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      altKeyRef.current = e.altKey;
+    };
+    const handleBlur = () => {
+      altKeyRef.current = false;
+    };
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener('keyup', handleKey);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('keyup', handleKey);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  // Canvas units per screen pixel, including the editor's zoom
+  const getPixelSize = useCallback(() => {
+    const stage = stageRef.current;
+    const rendered = stage?.container().getBoundingClientRect().width;
+    return rendered ? canvasSize.width / rendered : 1;
+  }, [stageRef, canvasSize.width]);
+
+  const collectSnapTargets = useCallback(
+    (excludeIds: string[]) => {
+      const stage = stageRef.current;
+      snapTargetsRef.current = stage
+        ? elements
+            .filter((el) => !excludeIds.includes(el.id))
+            .map((el) => stage.findOne(`#${el.id}`))
+            .filter((node): node is Konva.Node => !!node && node.isVisible())
+            .map(getSnapBox)
+        : [];
+    },
+    [elements, stageRef]
+  );
+
+  const clearSnapLines = useCallback(() => setSnapLines(NO_SNAP_LINES), []);
+
+  // --- GROUP DRAG ---
+  // Dragging one element of a multi-selection carries the rest along with it
+  const handleDragStart = useCallback(
+    (e: Konva.KonvaEventObject<DragEvent>) => {
+      const stage = stageRef.current;
+      const id = e.target.id();
+      collectSnapTargets(selectedIds.includes(id) ? selectedIds : [id]);
+      if (!stage || selectedIds.length < 2 || !selectedIds.includes(id)) {
+        dragStartRef.current = null;
+        return;
+      }
+      const starts: Record<string, { x: number; y: number }> = {};
+      selectedIds.forEach((sid) => {
+        const node = stage.findOne(`#${sid}`);
+        if (node) starts[sid] = node.position();
+      });
+      dragStartRef.current = starts;
+    },
+    [selectedIds, stageRef, collectSnapTargets]
+  );
+
+  const handleDragMove = useCallback(
+    (e: Konva.KonvaEventObject<DragEvent>) => {
+      const node = e.target;
+      const starts = dragStartRef.current;
+      const stage = stageRef.current;
+      const origin = starts?.[node.id()];
+      if (!stage || isGeneratorMode || node.getParent() !== node.getLayer()) return;
+
+      const moveSelection = () => {
+        if (!starts || !origin) return;
+        const dx = node.x() - origin.x;
+        const dy = node.y() - origin.y;
+        Object.entries(starts).forEach(([sid, start]) => {
+          if (sid === node.id()) return;
+          stage.findOne(`#${sid}`)?.position({ x: start.x + dx, y: start.y + dy });
+        });
+      };
+      moveSelection();
+
+      if (e.evt.altKey) {
+        clearSnapLines();
+        return;
       }
-      
-      const element = elements.find((el) => el.id === elementId);
-      if (!element) return;
+
+      // Snap the bounds of everything being moved, then carry the selection along
+      const movingIds = starts && origin ? Object.keys(starts) : [node.id()];
+      const moving = unionBoxes(
+        movingIds
+          .map((id) => stage.findOne(`#${id}`))
+          .filter((n): n is Konva.Node => !!n)
+          .map(getSnapBox)
+      );
+      if (!moving) return;
+
+      const pixel = getPixelSize();
+      const result = snapBox(moving, snapTargetsRef.current, canvasSize, {
+        threshold: SNAP_THRESHOLD * pixel,
+        gridSize: snapToGrid ? GRID_SIZE : undefined,
+      });
+      node.position({ x: node.x() + result.dx, y: node.y() + result.dy });
+      moveSelection();
+      setSnapLines({ guides: result.guides, spacings: result.spacings, pixel });
+    },
+    [stageRef, isGeneratorMode, canvasSize, snapToGrid, getPixelSize, clearSnapLines]
+  );
+
+  // ShapeRenderer reports the final position of the dragged element; fold the
+  // rest of the selection into the same update so it is one history entry.
+  const handleElementChange = useCallback(
+    (id: string, updates: Partial<CanvasElement>) => {
+      const starts = dragStartRef.current;
+      const stage = stageRef.current;
+      if (!starts || !starts[id] || !stage || !onUpdateMany || updates.x === undefined || updates.y === undefined) {
+        onUpdate(id, updates);
+        return;
+      }
+      dragStartRef.current = null;
+
+      const changes: Record<string, Partial<CanvasElement>> = {};
+      Object.keys(starts).forEach((sid) => {
+        const node = stage.findOne(`#${sid}`);
+        if (node) changes[sid] = { x: node.x(), y: node.y() };
+      });
+      onUpdateMany(changes);
+    },
+    [onUpdate, onUpdateMany, stageRef]
+  );
+
+  // Work out the new geometry of one transformed node and reset its scale
+  const computeTransformUpdates = useCallback(
+    (node: Konva.Node): { id: string; updates: Record<string, unknown> } | null => {
+      const isTarget = node.name() === 'transformer-target';
+      const groupNode = isTarget ? node.getParent() : node;
+      if (!groupNode) return null;
+
+      const elementId = groupNode.id();
+      // Group children can be selected from the Layers tree, so look through the whole tree
+      const element = findElement(elements, elementId);
+      if (!element) return null;
 
       const scaleX = node.scaleX();
       const scaleY = node.scaleY();
-      
-      const groupX = groupNode.x();
-      const groupY = groupNode.y();
-      const groupRotation = groupNode.rotation();
-      
+
+      // The transformer moves and rotates the inner target rect rather than its group,
+      // so fold the target's own transform back into the group's centre and rotation.
+      let center = groupNode.position();
+      let rotation = groupNode.rotation();
+      if (isTarget) {
+        const toLayer = groupNode.getTransform().copy().multiply(node.getTransform());
+        center = toLayer.point({ x: node.width() / 2, y: node.height() / 2 });
+        rotation += node.rotation();
+      }
+
       const updates: Record<string, unknown> = {
-        x: Math.round(groupX),
-        y: Math.round(groupY),
-        rotation: Math.round(groupRotation),
+        x: Math.round(center.x),
+        y: Math.round(center.y),
+        rotation: Math.round(rotation),
       };
 
-      if (element.type === 'rect' || element.type === 'image') {
-        const originalWidth = (element as any).width || 100;
-        const originalHeight = (element as any).height || 100;
-        
-        const newW = Math.max(20, Math.round(originalWidth * scaleX));
-        const newH = Math.max(20, Math.round(originalHeight * scaleY));
-        
-        updates.width = newW;
-        updates.height = newH;
+      if (element.type === 'rect' || element.type === 'image' || element.type === 'path') {
+        updates.width = Math.max(20, Math.round(element.width * scaleX));
+        updates.height = Math.max(20, Math.round(element.height * scaleY));
       } else if (element.type === 'circle' || element.type === 'polygon') {
         const scaleAvg = (scaleX + scaleY) / 2;
-        const originalRadius = (element as any).radius || 50;
-        updates.radius = Math.max(10, Math.round(originalRadius * scaleAvg));
+        updates.radius = Math.max(10, Math.round((element.radius || 50) * scaleAvg));
+      } else if (element.type === 'ring' || element.type === 'star') {
+        // The inner radius keeps its proportion to the outer one
+        const radius = Math.max(10, Math.round(element.radius * ((scaleX + scaleY) / 2)));
+        updates.radius = radius;
+        updates.innerRadius = Math.round((element.innerRadius * radius) / element.radius);
+      } else if (element.type === 'ellipse') {
+        updates.radiusX = Math.max(5, Math.round(element.radiusX * scaleX));
+        updates.radiusY = Math.max(5, Math.round(element.radiusY * scaleY));
+      } else if (element.type === 'line') {
+        // Only the length changes; thickness is set in the properties panel
+        updates.length = Math.max(10, Math.round(element.length * scaleX));
       } else if (element.type === 'text') {
-        const originalWidth = (element as any).width || 200;
-        updates.width = Math.max(50, Math.round(originalWidth * scaleX));
+        updates.width = Math.max(50, Math.round((element.width || 200) * scaleX));
+      } else if (element.type === 'group') {
+        updates.children = element.children.map((child) => scaleElement(child, scaleX, scaleY));
       }
 
       node.scaleX(1);
       node.scaleY(1);
-      
+
+      if (isTarget) {
+        node.rotation(0);
+        groupNode.position({ x: updates.x as number, y: updates.y as number });
+        groupNode.rotation(updates.rotation as number);
+      }
+
       // FIX 2: Changed 'Rect' to 'rect' (lowercase)
-      if (element.type === 'rect' || element.type === 'image') {
+      if (element.type === 'rect' || element.type === 'image' || element.type === 'path') {
         const newW = updates.width as number;
         const newH = updates.height as number;
         node.width(newW);
         node.height(newH);
         node.x(-newW / 2);
         node.y(-newH / 2);
-      } else if (element.type === 'circle' || element.type === 'polygon') {
+      } else if (element.type === 'circle' || element.type === 'polygon' || element.type === 'ring' || element.type === 'star') {
         const diameter = (updates.radius as number) * 2;
         node.width(diameter);
         node.height(diameter);
         node.x(-diameter / 2);
         node.y(-diameter / 2);
+      } else if (element.type === 'ellipse') {
+        const newW = (updates.radiusX as number) * 2;
+        const newH = (updates.radiusY as number) * 2;
+        node.width(newW);
+        node.height(newH);
+        node.x(-newW / 2);
+        node.y(-newH / 2);
+      } else if (element.type === 'line') {
+        const newW = updates.length as number;
+        node.width(newW);
+        node.x(-newW / 2);
       }
 
-      onUpdate(elementId, updates as Partial<CanvasElement>);
+      return { id: elementId, updates };
     },
-    [elements, onUpdate]
+    [elements]
   );
 
-  const computeBgDrawRect = useCallback(() => {
-    if (!bgImage) return null;
+  const handleTransformStart = useCallback(() => {
+    collectSnapTargets(selectedIds);
+  }, [collectSnapTargets, selectedIds]);
 
-    const imgW = (bgImage as HTMLImageElement).naturalWidth || (bgImage as any).width || 0;
-    const imgH = (bgImage as HTMLImageElement).naturalHeight || (bgImage as any).height || 0;
-    if (!imgW || !imgH) return null;
-
-    const canvasW = canvasSize.width;
-    const canvasH = canvasSize.height;
+  // Snap the edges being resized; rotated boxes and ratio-locked shapes are left alone
+  const snapTransformBox = useCallback(
+    (oldBox: Box & { rotation: number }, newBox: Box & { rotation: number }) => {
+      if (altKeyRef.current || lockAspectRatio || Math.abs(newBox.rotation) > 0.001) {
+        if (snapLines.guides.length > 0) clearSnapLines();
+        return newBox;
+      }
+      const pixel = getPixelSize();
+      const { box, guides } = snapResize(oldBox, newBox, snapTargetsRef.current, canvasSize, {
+        threshold: SNAP_THRESHOLD * pixel,
+        gridSize: snapToGrid ? GRID_SIZE : undefined,
+      });
+      setSnapLines({ guides, spacings: [], pixel });
+      return { ...newBox, ...box };
+    },
+    [lockAspectRatio, snapLines.guides.length, clearSnapLines, getPixelSize, canvasSize, snapToGrid]
+  );
 
-    const imgRatio = imgW / imgH;
-    const canvasRatio = canvasW / canvasH;
+  const handleTransformEnd = useCallback(() => {
+    const transformer = transformerRef.current;
+    if (!transformer) return;
+    clearSnapLines();
 
-    let drawW = canvasW;
-    let drawH = canvasH;
+    const changes: Record<string, Partial<CanvasElement>> = {};
+    transformer.nodes().forEach((node) => {
+      const result = computeTransformUpdates(node);
+      if (result) changes[result.id] = result.updates as Partial<CanvasElement>;
+    });
 
-    if (imgRatio > canvasRatio) {
-      const scale = Math.min(1, canvasW / imgW);
-      drawW = Math.round(imgW * scale);
-      drawH = Math.round(imgH * scale);
-    } else {
-      const scale = Math.min(1, canvasH / imgH);
-      drawW = Math.round(imgW * scale);
-      drawH = Math.round(imgH * scale);
+    const ids = Object.keys(changes);
+    if (ids.length === 1 || !onUpdateMany) {
+      ids.forEach((id) => onUpdate(id, changes[id]));
+    } else if (ids.length > 1) {
+      onUpdateMany(changes);
     }
+  }, [computeTransformUpdates, onUpdate, onUpdateMany, clearSnapLines]);
 
-    const offsetX = Math.round((canvasW - drawW) / 2);
-    const offsetY = Math.round((canvasH - drawH) / 2);
+  // --- TEXT EDITING ---
+  // Double-clicking text opens the rich text editor over it; the text may be inside a group
+  const handleDblClick = useCallback(
+    (e: Konva.KonvaEventObject<MouseEvent>) => {
+      if (isGeneratorMode) return;
+      for (let node: Konva.Node | null = e.target; node && node !== node.getLayer(); node = node.getParent()) {
+        const element = node.id() ? findElement(elements, node.id()) : undefined;
+        if (element?.type !== 'text') continue;
+        const { x, y, rotation } = node.getAbsoluteTransform().decompose();
+        setTextEdit({ id: element.id, position: { x, y, rotation }, pixelSize: getPixelSize() });
+        return;
+      }
+    },
+    [isGeneratorMode, elements, getPixelSize]
+  );
 
-    return { drawW, drawH, offsetX, offsetY, naturalW: imgW, naturalH: imgH };
-  }, [bgImage, canvasSize]);
+  // The canvas copy is hidden while the editor shows the same text
+  useEffect(() => {
+    const node = textEdit && stageRef.current?.findOne(`#${textEdit.id}`);
+    if (!node) return;
+    node.hide();
+    return () => {
+      node.show();
+    };
+  }, [textEdit, stageRef]);
+
+  const handleTextCommit = useCallback(
+    (updates: Pick<TextElement, 'text' | 'runs'>) => {
+      const element = textEdit && findElement(elements, textEdit.id);
+      setTextEdit(null);
+      if (element?.type !== 'text') return;
+      // Closing the editor without changes shouldn't add a history entry
+      if (element.text === updates.text && JSON.stringify(element.runs) === JSON.stringify(updates.runs)) return;
+      onUpdate(element.id, updates);
+    },
+    [textEdit, elements, onUpdate]
+  );
 
-  const bgRect = computeBgDrawRect();
+  const editingText = textEdit ? findElement(elements, textEdit.id) : undefined;
+  // Lines are resized along their length only
+  const onlyLinesSelected =
+    selectedIds.length > 0 && selectedIds.every((id) => findElement(elements, id)?.type === 'line');
+  const marqueeBox = marquee ? normalizeBox(marquee) : null;
 
   return (
     <div ref={containerRef} className="canvas-container flex-1 relative">
@@ -214,10 +553,11 @@ export const CanvasStage: React.FC<CanvasStageProps> = ({
       </div>
 
       <div
-        className="shadow-elevated rounded-lg overflow-hidden bg-transparent"
+        className="relative shadow-elevated rounded-lg overflow-hidden bg-transparent"
         style={{
           transform: `scale(${scale})`,
           transformOrigin: 'center center',
+          cursor: isPenActive ? 'crosshair' : undefined,
         }}
       >
         <Stage
@@ -226,45 +566,88 @@ export const CanvasStage: React.FC<CanvasStageProps> = ({
           height={canvasSize.height}
           onClick={handleStageClick}
           onTap={handleStageClick}
+          onMouseDown={handleStageMouseDown}
+          onMouseMove={handleStageMouseMove}
         >
-          <Layer>
-            <Rect
+          <Layer
+            onDragStart={handleDragStart}
+            onDragMove={handleDragMove}
+            onDragEnd={clearSnapLines}
+            onDblClick={handleDblClick}
+          >
+            <CanvasBackground
               name="background"
-              x={0}
-              y={0}
               width={canvasSize.width}
               height={canvasSize.height}
-              fill={backgroundColor || '#ffffff'}
+              color={backgroundColor}
+              gradient={backgroundGradient}
+              image={backgroundImage}
             />
 
-            {bgImage && bgRect && (
-              <KonvaImage
-                name="background-image"
-                image={bgImage}
-                x={bgRect.offsetX}
-                y={bgRect.offsetY}
-                width={bgRect.drawW}
-                height={bgRect.drawH}
-                listening={false}
-                opacity={1}
-              />
-            )}
-
             {elements.map((element) => (
               <ShapeRenderer
                 key={element.id}
                 element={element}
-                isSelected={selectedId === element.id}
-                onSelect={() => onSelect(element.id)}
-                onChange={(updates) => onUpdate(element.id, updates)}
+                isSelected={selectedIds.includes(element.id)}
+                onSelect={(e) => onSelect(element.id, e.evt.shiftKey)}
+                onChange={(updates) => handleElementChange(element.id, updates)}
                 userImage={userImage}
                 isGeneratorMode={isGeneratorMode}
               />
             ))}
 
+            {marqueeBox && (
+              <Rect
+                name="marquee"
+                x={marqueeBox.x}
+                y={marqueeBox.y}
+                width={marqueeBox.width}
+                height={marqueeBox.height}
+                fill="rgba(99, 102, 241, 0.1)"
+                stroke="#6366f1"
+                strokeWidth={1}
+                dash={[4, 4]}
+                listening={false}
+              />
+            )}
+
+            {snapLines.guides.map((guide, i) => (
+              <Line
+                key={`guide-${i}`}
+                points={
+                  guide.orientation === 'vertical'
+                    ? [guide.position, guide.start, guide.position, guide.end]
+                    : [guide.start, guide.position, guide.end, guide.position]
+                }
+                stroke={GUIDE_COLOR}
+                strokeWidth={snapLines.pixel}
+                listening={false}
+              />
+            ))}
+
+            {/* Equal-spacing hints: a bar with end ticks across each matching gap */}
+            {snapLines.spacings.flatMap((hint, i) =>
+              hint.segments.map(({ from, to, at }, j) => {
+                const tick = 4 * snapLines.pixel;
+                const points = hint.orientation === 'vertical'
+                  ? [from, at - tick, from, at + tick, from, at, to, at, to, at - tick, to, at + tick]
+                  : [at - tick, from, at + tick, from, at, from, at, to, at - tick, to, at + tick, to];
+                return (
+                  <Line
+                    key={`spacing-${i}-${j}`}
+                    points={points}
+                    stroke={GUIDE_COLOR}
+                    strokeWidth={snapLines.pixel}
+                    listening={false}
+                  />
+                );
+              })
+            )}
+
             {!isGeneratorMode && (
               <Transformer
                 ref={transformerRef}
+                onTransformStart={handleTransformStart}
                 onTransformEnd={handleTransformEnd}
                 anchorSize={40}
                 anchorCornerRadius={4}
@@ -275,10 +658,12 @@ export const CanvasStage: React.FC<CanvasStageProps> = ({
                 borderStrokeWidth={2}
                 borderDash={[4, 4]}
                 rotateAnchorOffset={40}
-                enabledAnchors={['top-left', 'top-right', 'bottom-left', 'bottom-right', 'top-center', 'bottom-center', 'middle-left', 'middle-right']}
+                enabledAnchors={onlyLinesSelected ? LINE_ANCHORS : ALL_ANCHORS}
                 keepRatio={lockAspectRatio}
                 boundBoxFunc={(oldBox, newBox) => {
-                  if (newBox.width < 20 || newBox.height < 20) return oldBox;
+                  // Thin lines start below the minimum, so only stop boxes from shrinking past it
+                  if ((newBox.width < 20 && newBox.width < oldBox.width) || (newBox.height < 20 && newBox.height < oldBox.height)) return oldBox;
+                  newBox = snapTransformBox(oldBox, newBox);
                   
                   if (lockAspectRatio) {
                     const aspectRatio = oldBox.width / oldBox.height;
@@ -301,7 +686,28 @@ export const CanvasStage: React.FC<CanvasStageProps> = ({
               />
             )}
           </Layer>
+
+          {isPenActive && onPathDrawn && onPenExit && (
+            <PenTool
+              width={canvasSize.width}
+              height={canvasSize.height}
+              pixelSize={getPixelSize()}
+              onComplete={onPathDrawn}
+              onCancel={onPenExit}
+            />
+          )}
         </Stage>
+
+        {textEdit && editingText?.type === 'text' && (
+          <RichTextEditor
+            key={textEdit.id}
+            element={editingText}
+            position={textEdit.position}
+            pixelSize={textEdit.pixelSize}
+            onCommit={handleTextCommit}
+            fontOptions={fontOptions}
+          />
+        )}
       </div>
     </div>
   );
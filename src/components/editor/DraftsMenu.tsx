@@ -0,0 +1,113 @@
+import React from 'react';
+import { History, FilePlus, Pencil, Trash2, Check } from 'lucide-react';
+import { toast } from 'sonner';
+import { DraftSummary } from '@/types/editor';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+interface DraftsMenuProps {
+  drafts: DraftSummary[];
+  draftId: string | null;
+  draftName: string;
+  lastSavedAt: string | null;
+  onOpenChange: (open: boolean) => void;
+  onOpenDraft: (id: string) => void;
+  onNewDraft: () => void;
+  onRename: (name: string) => void;
+  onDelete: (id: string) => Promise<boolean>;
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+export const DraftsMenu: React.FC<DraftsMenuProps> = ({
+  drafts,
+  draftId,
+  draftName,
+  lastSavedAt,
+  onOpenChange,
+  onOpenDraft,
+  onNewDraft,
+  onRename,
+  onDelete,
+}) => {
+  const handleRename = () => {
+    const name = window.prompt('Draft name', draftName);
+    if (name && name.trim()) onRename(name.trim());
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Delete this draft?')) return;
+    if (await onDelete(id)) toast.success('Draft deleted');
+    else toast.error('Could not delete draft.');
+  };
+
+  return (
+    <DropdownMenu onOpenChange={onOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-10 gap-2 rounded-sm">
+          <History className="w-3.5 h-3.5" />
+          <span className="hidden md:inline text-xs">
+            {lastSavedAt ? `Saved ${new Date(lastSavedAt).toLocaleTimeString(undefined, { timeStyle: 'short' })}` : 'Drafts'}
+          </span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72">
+        <DropdownMenuLabel className="text-xs text-slate-500">
+          {draftId ? `Autosaving to "${draftName}"` : 'Changes autosave on this device'}
+        </DropdownMenuLabel>
+        <DropdownMenuItem onClick={onNewDraft} className="gap-2 text-xs">
+          <FilePlus className="w-3.5 h-3.5" /> New blank draft
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={handleRename} className="gap-2 text-xs">
+          <Pencil className="w-3.5 h-3.5" /> Rename current draft
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        {drafts.length === 0 ? (
+          <p className="px-2 py-3 text-xs text-slate-500">No drafts yet.</p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto">
+            {drafts.map((d) => (
+              <DropdownMenuItem
+                key={d.id}
+                onClick={() => d.id !== draftId && onOpenDraft(d.id)}
+                className={cn('flex items-center gap-2', d.id === draftId && 'bg-primary/5')}
+              >
+                {d.id === draftId ? (
+                  <Check className="w-3.5 h-3.5 shrink-0 text-primary" />
+                ) : (
+                  <div className="w-3.5 h-3.5 shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-medium truncate">{d.name}</p>
+                  <p className="text-[10px] text-slate-500">
+                    {d.slug ? `/dp/${d.slug} · ` : ''}{formatTime(d.updatedAt)}
+                  </p>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    handleDelete(d.id);
+                  }}
+                  className="p-1 text-slate-400 hover:text-red-500 transition-colors"
+                  title="Delete draft"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -1,20 +1,43 @@
 import React, { useRef, useCallback, useState, useEffect, useMemo } from 'react';
 import Konva from 'konva';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate, useParams } from 'react-router-dom';
 import { useCanvas } from '@/hooks/useCanvas';
+import { useAuth } from '@/hooks/useAuth';
+import { useDrafts } from '@/hooks/useDrafts';
 import { CanvasStage } from './CanvasStage';
 import { FloatingToolbar } from './FloatingToolbar';
-import { PropertiesPanel } from './PropertiesPanel';
+import { PropertiesPanel, SelectionPanel } from './PropertiesPanel';
+import { GradientEditor } from './GradientEditor';
+import { AccountMenu } from './AccountMenu';
+import { DraftsMenu } from './DraftsMenu';
+import { DrawnPath } from './PenTool';
 import { toast } from 'sonner';
 import { 
   ImagePlus, Copy, Layers, Settings, 
   ZoomIn, ZoomOut, Grid, Eye, Download, Check, 
-  Undo, Redo, Maximize, Trash2
+  Undo, Redo, Maximize, Trash2, ChevronRight, Group as GroupIcon, Loader2, Upload, X
 } from 'lucide-react';
-import { publishTemplate } from '@/lib/templates';
+import { publishTemplate, updateTemplate, getTemplateBySlug } from '@/lib/templates';
+import { TemplateSchemaError } from '@/lib/templateSchema';
+import { SvgImportError, importSvg } from '@/lib/svgImport';
+import { VectorExportOptions, browserVectorBackend, exportVector, getPrintSizeInches } from '@/lib/vectorExport';
+import { TemplateRenderError } from '@/lib/renderTemplate';
+import { downloadBlob } from '@/lib/download';
+import { DEFAULT_EXPORT_SETTINGS, estimateExportSize, exportStage, getExportFileName } from '@/lib/imageExport';
+import { ExportDialog } from '@/components/canvas/ExportDialog';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { cn } from '@/lib/utils';
+import { GRID_SIZE } from '@/lib/snapping';
+import { FONT_FILE_ACCEPT, getFontOptions, readFontFile, registerFont } from '@/lib/fonts';
+import { toCssGradient } from '@/lib/gradients';
 // IMPORTS: Ensure all sub-types are imported from your types file
 import { 
   CanvasElement, 
@@ -22,7 +45,14 @@ import {
   ImageElement, 
   RectElement, 
   CircleElement, 
+  EllipseElement,
+  RingElement,
   PolygonElement, 
+  StarElement,
+  PathElement,
+  GroupElement,
+  PrintSize,
+  ExportSettings,
   TemplateData 
 } from '@/types/editor';
 
@@ -31,14 +61,95 @@ type SidebarTab = 'properties' | 'layers';
 // --- TYPE GUARDS ---
 const isTextElement = (el: CanvasElement): el is TextElement => el.type === 'text';
 const isImageElement = (el: CanvasElement): el is ImageElement => el.type === 'image';
-const isShapeElement = (el: CanvasElement): el is (RectElement | CircleElement | PolygonElement) => 
-  ['rect', 'circle', 'polygon'].includes(el.type);
+const isShapeElement = (el: CanvasElement): el is (RectElement | CircleElement | EllipseElement | RingElement | PolygonElement | StarElement | PathElement) => 
+  ['rect', 'circle', 'ellipse', 'ring', 'polygon', 'star', 'path'].includes(el.type);
+const isGroupElement = (el: CanvasElement): el is GroupElement => el.type === 'group';
+
+// --- LAYERS TREE ROW ---
+interface LayerRowProps {
+  element: CanvasElement;
+  depth: number;
+  selectedIds: string[];
+  expandedIds: string[];
+  onToggleExpand: (id: string) => void;
+  onSelect: (id: string, additive: boolean) => void;
+  onDelete: (id: string) => void;
+}
+
+const LayerRow: React.FC<LayerRowProps> = ({ element: el, depth, selectedIds, expandedIds, onToggleExpand, onSelect, onDelete }) => {
+  const isExpanded = expandedIds.includes(el.id);
+
+  return (
+    <>
+      <div
+        onClick={(e) => onSelect(el.id, e.shiftKey)}
+        style={{ marginLeft: depth * 16 }}
+        className={cn(
+          "flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-all",
+          selectedIds.includes(el.id) ? "bg-primary/5 border-primary/20 dark:bg-primary/10" : "bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 hover:bg-slate-50 dark:hover:bg-slate-800"
+        )}
+      >
+        {isGroupElement(el) && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleExpand(el.id);
+            }}
+            className="-mr-2 p-0.5 text-slate-400 hover:text-slate-900 dark:hover:text-white transition-colors"
+          >
+            <ChevronRight className={cn("w-3.5 h-3.5 transition-transform", isExpanded && "rotate-90")} />
+          </button>
+        )}
+
+        <div className="w-8 h-8 rounded-lg bg-slate-100 dark:bg-slate-800 flex items-center justify-center text-slate-600 dark:text-slate-400">
+          {isTextElement(el) && "T"}
+          {isImageElement(el) && <ImagePlus className="w-3 h-3" />}
+          {isShapeElement(el) && <div className="w-3 h-3 bg-current rounded-sm" />}
+          {el.type === 'line' && <div className="w-3 h-0.5 bg-current rounded-full" />}
+          {isGroupElement(el) && <GroupIcon className="w-3.5 h-3.5" />}
+        </div>
+
+        <span className="text-xs font-medium flex-1 truncate text-slate-900 dark:text-white">
+          {isTextElement(el) ? (el.text || "Text Layer") : isImageElement(el) ? "Image" : isGroupElement(el) ? `Group (${el.children.length})` : "Layer"}
+        </span>
+
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onDelete(el.id);
+          }}
+          className="p-1 hover:text-red-500 transition-colors"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {isGroupElement(el) && isExpanded && [...el.children].reverse().map((child) => (
+        <LayerRow
+          key={child.id}
+          element={child}
+          depth={depth + 1}
+          selectedIds={selectedIds}
+          expandedIds={expandedIds}
+          onToggleExpand={onToggleExpand}
+          onSelect={onSelect}
+          onDelete={onDelete}
+        />
+      ))}
+    </>
+  );
+};
 
 export const Editor: React.FC = () => {
+  // Present when editing an already published template (/create/:slug)
+  const { slug } = useParams<{ slug: string }>();
+  const navigate = useNavigate();
   const stageRef = useRef<Konva.Stage>(null);
   const viewportRef = useRef<HTMLDivElement>(null);
   const bgImageInputRef = useRef<HTMLInputElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
+  const svgInputRef = useRef<HTMLInputElement>(null);
 
   // --- CAMERA STATE ---
   const [camera, setCamera] = useState({ x: 0, y: 0, z: 1 });
@@ -54,32 +165,149 @@ export const Editor: React.FC = () => {
   const [activeTab, setActiveTab] = useState<SidebarTab>('properties');
   const [showGrid, setShowGrid] = useState(true);
   const [isPreview, setIsPreview] = useState(false);
+  const [expandedLayerIds, setExpandedLayerIds] = useState<string[]>([]);
+  const [isLoadingTemplate, setIsLoadingTemplate] = useState(false);
+  // The published template being edited; publishing updates it instead of inserting a new row
+  const [editingTemplate, setEditingTemplate] = useState<Pick<TemplateData, 'slug' | 'name' | 'ownerId'> | null>(null);
+  const [isSignInOpen, setIsSignInOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImageExportOpen, setIsImageExportOpen] = useState(false);
+
+  const { user, signInWithEmail, signOut } = useAuth();
+  // Someone else's template can be opened, but publishing it creates a copy
+  const canUpdateTemplate = !!editingTemplate && !!user && editingTemplate.ownerId === user.id;
 
   const {
     elements,
     selectedId,
-    setSelectedId,
+    selectedIds,
+    setSelectedIds,
+    selectElement,
     canvasSize,
     setCanvasSize,
     backgroundColor,
     setBackgroundColor,
+    backgroundGradient,
+    setBackgroundGradient,
     backgroundImage,
     setBackgroundImage,
+    fonts,
+    addFont,
+    removeFont,
+    printSize,
+    setPrintSize,
+    exportSettings,
+    setExportSettings,
     addElement,
+    addArtwork,
     updateElement,
-    deleteElement,
-    duplicateElement,
-    moveElement,
+    updateElements,
+    deleteElements,
+    duplicateElements,
+    moveElements,
+    groupElements,
+    ungroupElements,
+    alignElements,
+    distributeElements,
     getSelectedElement,
+    getSelectedElements,
     clearSelection,
     exportTemplate,
+    importTemplate,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
   } = useCanvas();
 
+  const {
+    draftId,
+    draftName,
+    drafts,
+    lastSavedAt,
+    refreshDrafts,
+    getLastSessionDraft,
+    openDraft,
+    startNewDraft,
+    renameDraft,
+    deleteDraft,
+  } = useDrafts({ exportTemplate, hasEdits: canUndo || canRedo, slug: editingTemplate?.slug ?? null });
+  const restoreCheckedRef = useRef(false);
+
   const selectedElement = getSelectedElement();
+  const selectedElements = getSelectedElements();
+
+  // Apply the same updates to every selected element
+  const updateSelection = useCallback((updates: Partial<CanvasElement>) => {
+    updateElements(Object.fromEntries(selectedIds.map((id) => [id, updates])));
+  }, [selectedIds, updateElements]);
+
+  // --- PEN TOOL ---
+  const [isPenActive, setIsPenActive] = useState(false);
+
+  const togglePen = useCallback(() => {
+    setIsPenActive((active) => !active);
+    clearSelection();
+  }, [clearSelection]);
+
+  // Closed paths are filled like the other shapes; open ones are drawn as a line
+  const handlePathDrawn = useCallback((path: DrawnPath) => {
+    const { closed, ...geometry } = path;
+    addElement('path', {
+      ...geometry,
+      fill: closed ? '#e5e7eb' : '',
+      strokes: closed ? undefined : [{ color: '#1f2937', width: 4, position: 'center' }],
+    });
+    setIsPenActive(false);
+  }, [addElement]);
+
+  // --- FONTS ---
+  const fontOptions = useMemo(() => getFontOptions(fonts), [fonts]);
+  // Text is measured while rendering, so lay it out again whenever a font arrives
+  const [, setFontLoads] = useState(0);
+
+  useEffect(() => {
+    fonts.forEach(registerFont);
+  }, [fonts]);
+
+  useEffect(() => {
+    const handleLoadingDone = () => setFontLoads((n) => n + 1);
+    document.fonts.addEventListener('loadingdone', handleLoadingDone);
+    return () => document.fonts.removeEventListener('loadingdone', handleLoadingDone);
+  }, []);
+
+  const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    for (const file of files) {
+      const font = await readFontFile(file);
+      if (font) addFont(font);
+      else toast.error(`${file.name} isn't a TTF, OTF or WOFF2 font that can be loaded.`);
+    }
+  };
+
+  const handleSvgImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { element, width, height, rasterized } = await importSvg(await file.text());
+      addArtwork(element, { width, height });
+      if (rasterized > 0) toast(`${file.name} imported. ${rasterized} part${rasterized === 1 ? " uses" : "s use"} effects the editor can't edit, so ${rasterized === 1 ? 'it was' : 'they were'} added as an image.`);
+      else toast.success(`${file.name} imported.`);
+    } catch (err) {
+      console.error(err);
+      toast.error(err instanceof SvgImportError ? err.message : `Could not import ${file.name}.`);
+    }
+  };
 
   // Memoize reversed elements for Layers panel performance
   const reversedElements = useMemo(() => [...elements].reverse(), [elements]);
 
+  const toggleLayerExpanded = useCallback((id: string) => {
+    setExpandedLayerIds((prev) => (prev.includes(id) ? prev.filter((i) => i !== id) : [...prev, id]));
+  }, []);
+
   // --- BOUNDARY LOGIC ---
   const clampCamera = (x: number, y: number, z: number) => {
     if (!viewportRef.current) return { x, y };
@@ -190,16 +418,25 @@ export const Editor: React.FC = () => {
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (['INPUT', 'TEXTAREA', 'SELECT'].includes(document.activeElement?.tagName || '')) return;
+      // The on-canvas text editor is a contentEditable
+      if ((document.activeElement as HTMLElement | null)?.isContentEditable) return;
 
       if (e.code === 'Space' && !isSpacePressed) {
           setIsSpacePressed(true); 
           e.preventDefault(); 
       }
       
-      if (e.key === 'Delete' || e.key === 'Backspace') selectedId && deleteElement(selectedId);
+      // The pen tool handles its own Escape, Enter and Backspace
+      if (isPenActive && ['Escape', 'Enter', 'Backspace', 'Delete'].includes(e.key)) return;
+      if (e.key === 'Delete' || e.key === 'Backspace') deleteElements(selectedIds);
       if (e.key === 'Escape') { clearSelection(); setIsPreview(false); setPublishedUrl(null); }
-      if ((e.metaKey || e.ctrlKey) && e.key === 'd') { e.preventDefault(); selectedId && duplicateElement(selectedId); }
+      if (e.key.toLowerCase() === 'p' && !e.metaKey && !e.ctrlKey && !e.altKey) togglePen();
+      if ((e.metaKey || e.ctrlKey) && e.key === 'd') { e.preventDefault(); duplicateElements(selectedIds); }
+      if ((e.metaKey || e.ctrlKey) && e.key === 'a') { e.preventDefault(); setSelectedIds(elements.map((el) => el.id)); }
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'g') { e.preventDefault(); if (e.shiftKey) ungroupElements(selectedIds); else groupElements(selectedIds); }
       if ((e.metaKey || e.ctrlKey) && e.key === '0') { e.preventDefault(); fitToScreen(); }
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'z') { e.preventDefault(); if (e.shiftKey) redo(); else undo(); }
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'y') { e.preventDefault(); redo(); }
     };
 
     const handleKeyUp = (e: KeyboardEvent) => {
@@ -215,27 +452,142 @@ export const Editor: React.FC = () => {
         window.removeEventListener('keydown', handleKeyDown);
         window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [selectedId, deleteElement, duplicateElement, clearSelection, fitToScreen, isSpacePressed]);
+  }, [selectedIds, elements, deleteElements, duplicateElements, groupElements, ungroupElements, setSelectedIds, clearSelection, fitToScreen, isSpacePressed, undo, redo, isPenActive, togglePen]);
 
   useEffect(() => {
     if (selectedId) setActiveTab('properties');
   }, [selectedId]);
 
+  // --- LOAD PUBLISHED TEMPLATE ---
+  useEffect(() => {
+    // Already showing this template (e.g. we just published it and updated the URL)
+    if (!slug || slug === editingTemplate?.slug) return;
+
+    let cancelled = false;
+    setIsLoadingTemplate(true);
+    getTemplateBySlug(slug)
+      .then((data) => {
+        if (cancelled) return;
+        setIsLoadingTemplate(false);
+        if (!data) {
+          toast.error('Template not found.');
+          return;
+        }
+        importTemplate(data);
+        setEditingTemplate({ slug: data.slug, name: data.name, ownerId: data.ownerId });
+        setTimeout(() => fitToScreen(), 50);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setIsLoadingTemplate(false);
+        toast.error(err instanceof TemplateSchemaError ? err.message : 'Could not load template.');
+      });
+
+    return () => { cancelled = true; };
+  }, [slug, editingTemplate, importTemplate, fitToScreen]);
+
+  // --- DRAFTS ---
+  const handleOpenDraft = useCallback(async (id: string) => {
+    const draft = await openDraft(id);
+    if (!draft) {
+      toast.error('Could not open draft.');
+      return;
+    }
+    importTemplate(draft.template);
+
+    // Switch the editor to the published template the draft belongs to, without reloading it
+    if (draft.slug !== (editingTemplate?.slug ?? null)) {
+      const published = draft.slug ? await getTemplateBySlug(draft.slug).catch(() => null) : null;
+      setEditingTemplate(published ? { slug: published.slug, name: published.name, ownerId: published.ownerId } : null);
+      navigate(published ? `/create/${published.slug}` : '/create', { replace: true });
+    }
+    setTimeout(() => fitToScreen(), 50);
+  }, [openDraft, importTemplate, editingTemplate, navigate, fitToScreen]);
+
+  const handleNewDraft = useCallback(() => {
+    importTemplate({ elements: [], width: 1080, height: 1080, backgroundColor: '#ffffff', backgroundImage: null });
+    startNewDraft();
+    setEditingTemplate(null);
+    navigate('/create', { replace: true });
+    setTimeout(() => fitToScreen(), 50);
+  }, [importTemplate, startNewDraft, navigate, fitToScreen]);
+
+  // Offer the previous session's draft once the requested template has loaded
+  useEffect(() => {
+    if (restoreCheckedRef.current || isLoadingTemplate) return;
+    if (slug && editingTemplate?.slug !== slug) return;
+    restoreCheckedRef.current = true;
+
+    getLastSessionDraft().then((draft) => {
+      if (!draft || (draft.template.elements.length === 0 && !draft.template.backgroundImage)) return;
+      toast('Restore your last session?', {
+        description: `${draft.name} · saved ${new Date(draft.updatedAt).toLocaleString()}`,
+        duration: 15000,
+        action: { label: 'Restore', onClick: () => handleOpenDraft(draft.id) },
+      });
+    });
+  }, [slug, editingTemplate, isLoadingTemplate, getLastSessionDraft, handleOpenDraft]);
+
   // --- ACTIONS ---
-  const handleDownload = () => {
-    if (!stageRef.current) return;
-    const uri = stageRef.current.toDataURL({ pixelRatio: 2 });
-    const link = document.createElement('a');
-    link.download = 'design.png';
-    link.href = uri;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    toast.success("Image exported");
+  // The settings are saved with the template, and the Generator starts from them
+  const handleImageExport = async (settings: ExportSettings) => {
+    if (!stageRef.current) return false;
+    try {
+      downloadBlob(await exportStage(stageRef.current, settings), getExportFileName('design', settings));
+      setExportSettings(settings);
+      toast.success("Image exported");
+      return true;
+    } catch (err) {
+      console.error(err);
+      toast.error('Could not export the image.');
+      return false;
+    }
+  };
+
+  const estimateImageExportSize = useCallback(
+    (settings: ExportSettings) => (stageRef.current ? estimateExportSize(stageRef.current, settings) : Promise.resolve(null)),
+    []
+  );
+
+  const handleVectorExport = async (options: Pick<VectorExportOptions, 'format' | 'text'>) => {
+    setIsExporting(true);
+    try {
+      const result = await exportVector({ id: '', slug: '', ...exportTemplate() }, options, browserVectorBackend);
+      downloadBlob(new Blob([result.data], { type: result.mimeType }), `design.${options.format}`);
+      if (result.rasterizedText > 0) {
+        toast.warning('Exported with some text as images', {
+          description: 'Upload the TrueType (.ttf) files of your fonts to keep all text as vectors.',
+        });
+      } else {
+        toast.success(`${options.format.toUpperCase()} exported`);
+      }
+    } catch (err) {
+      console.error(err);
+      toast.error(err instanceof TemplateRenderError ? err.message : 'Could not export the design.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const defaultPrintInches = getPrintSizeInches(canvasSize);
+  const defaultPrintSize = { width: Math.round(defaultPrintInches.width * 25.4), height: Math.round(defaultPrintInches.height * 25.4) };
+
+  const handlePrintSizeChange = (updates: Partial<PrintSize>) => {
+    // Starts from the size the export would use without one
+    const current = printSize ?? { width: defaultPrintSize.width, height: defaultPrintSize.height, unit: 'mm' as const };
+    if (updates.unit && updates.unit !== current.unit) {
+      // Switching units keeps the physical size
+      const factor = updates.unit === 'in' ? 1 / 25.4 : 25.4;
+      const convert = (value: number) => Math.round(value * factor * 100) / 100;
+      setPrintSize({ width: convert(current.width), height: convert(current.height), unit: updates.unit });
+      return;
+    }
+    setPrintSize({ ...current, ...updates });
   };
 
   const handlePublish = useCallback(async () => {
     if (elements.length === 0) { toast.error('Canvas is empty.'); return; }
+    if (!user) { setIsSignInOpen(true); return; }
     setIsPublishing(true);
     try {
       const baseTemplate = exportTemplate();
@@ -243,18 +595,28 @@ export const Editor: React.FC = () => {
       // Ensure ID and Slug are present
       const finalTemplate: TemplateData = {
         id: crypto.randomUUID(),
-        slug: `design-${Date.now()}`,
+        slug: canUpdateTemplate ? editingTemplate.slug : `design-${Date.now()}`,
         ...baseTemplate,
+        name: editingTemplate?.name ?? baseTemplate.name,
       };
 
-      const result = await publishTemplate(finalTemplate);
+      const result = canUpdateTemplate
+        ? await updateTemplate(editingTemplate.slug, finalTemplate)
+        : await publishTemplate(finalTemplate);
       if (result) {
         setPublishedUrl(`${window.location.origin}/dp/${result.slug}`);
-        toast.success('Campaign published!');
+        toast.success(canUpdateTemplate ? 'Campaign updated!' : 'Campaign published!');
+        if (!canUpdateTemplate) {
+          // Further publishes from this session update the same campaign
+          setEditingTemplate({ slug: result.slug, name: finalTemplate.name, ownerId: user.id });
+          navigate(`/create/${result.slug}`, { replace: true });
+        }
+      } else {
+        toast.error(canUpdateTemplate ? 'Failed to update.' : 'Failed to publish.');
       }
     } catch { toast.error('Failed to publish.'); } 
     finally { setIsPublishing(false); }
-  }, [elements, exportTemplate]);
+  }, [elements, exportTemplate, editingTemplate, canUpdateTemplate, user, navigate]);
 
   // THIS IS THE FUNCTION THAT WAS MISSING
   const handleBgUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -285,27 +647,56 @@ export const Editor: React.FC = () => {
             <div className="w-8 h-8 rounded bg-primary flex items-center justify-center text-primary-foreground text-sm font-bold">DP</div>
             <div>
               <h1 className="text-sm font-bold leading-none text-slate-900 dark:text-white">Editor</h1>
-              <span className="text-[10px] text-slate-500 dark:text-slate-400">Design mode</span>
+              <span className="text-[10px] text-slate-500 dark:text-slate-400">{canUpdateTemplate ? `Editing /dp/${editingTemplate.slug}` : editingTemplate ? 'Copy of a shared template' : 'Design mode'}</span>
             </div>
           </Link>
           <div className="h-6 w-px bg-slate-200 dark:bg-white/10 mx-2" />
           <div className="flex items-center gap-1">
-             <Button variant="ghost" size="icon" className="h-8 w-8 hover:bg-slate-100 dark:hover:bg-slate-800"><Undo className="w-4 h-4" /></Button>
-             <Button variant="ghost" size="icon" className="h-8 w-8 hover:bg-slate-100 dark:hover:bg-slate-800"><Redo className="w-4 h-4" /></Button>
-             <Button variant={showGrid ? "secondary" : "ghost"} size="icon" className="h-8 w-8" onClick={() => setShowGrid(!showGrid)}>
+             <Button variant="ghost" size="icon" className="h-8 w-8 hover:bg-slate-100 dark:hover:bg-slate-800" onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)"><Undo className="w-4 h-4" /></Button>
+             <Button variant="ghost" size="icon" className="h-8 w-8 hover:bg-slate-100 dark:hover:bg-slate-800" onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)"><Redo className="w-4 h-4" /></Button>
+             <Button variant={showGrid ? "secondary" : "ghost"} size="icon" className="h-8 w-8" onClick={() => setShowGrid(!showGrid)} title="Show grid & snap to it">
                 <Grid className="w-4 h-4" />
              </Button>
           </div>
         </div>
         <div className="flex items-center gap-2">
-          <Button variant="outline" size="sm" className="hidden md:flex gap-2 h-10 rounded-sm border-slate-200 dark:border-slate-800" onClick={handleDownload}>
-            <Download className="w-3.5 h-3.5" /> Export
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={isExporting} className="hidden md:flex gap-2 h-10 rounded-sm border-slate-200 dark:border-slate-800">
+                {isExporting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Download className="w-3.5 h-3.5" />} Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-56">
+              <DropdownMenuItem onClick={() => setIsImageExportOpen(true)} className="text-xs">Image (PNG, JPEG, WebP)…</DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => handleVectorExport({ format: 'svg', text: 'embed' })} className="text-xs">SVG with editable text</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleVectorExport({ format: 'svg', text: 'outline' })} className="text-xs">SVG with outlined text</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleVectorExport({ format: 'pdf' })} className="text-xs">PDF for print</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
           <Button variant={isPreview ? "secondary" : "ghost"} size="sm" className="h-10 gap-2 rounded-sm" onClick={() => setIsPreview(!isPreview)}>
             <Eye className="w-3.5 h-3.5" /> <span className="hidden md:inline">Preview</span>
           </Button>
+          <DraftsMenu
+            drafts={drafts}
+            draftId={draftId}
+            draftName={draftName}
+            lastSavedAt={lastSavedAt}
+            onOpenChange={(open) => open && refreshDrafts()}
+            onOpenDraft={handleOpenDraft}
+            onNewDraft={handleNewDraft}
+            onRename={renameDraft}
+            onDelete={deleteDraft}
+          />
+          <AccountMenu
+            user={user}
+            isSignInOpen={isSignInOpen}
+            onSignInOpenChange={setIsSignInOpen}
+            onSignIn={signInWithEmail}
+            onSignOut={signOut}
+          />
           <Button onClick={handlePublish} disabled={isPublishing} size="sm" className="h-10 px-4 gap-2 rounded-sm shadow-lg shadow-primary/20">
-            <Check className="w-3.5 h-3.5" /> {isPublishing ? 'Publishing...' : 'Publish'}
+            <Check className="w-3.5 h-3.5" /> {isPublishing ? 'Publishing...' : canUpdateTemplate ? 'Update' : 'Publish'}
           </Button>
         </div>
       </header>
@@ -339,17 +730,7 @@ export const Editor: React.FC = () => {
                     willChange: 'transform',
                 }}
             >
-                {/* 1. Background Grid */}
-                <div 
-                   className="absolute pointer-events-none opacity-20 dark:opacity-20"
-                   style={{
-                       left: -10000, top: -10000, right: -10000, bottom: -10000, 
-                       backgroundImage: 'radial-gradient(#64748b 1px, transparent 1px)',
-                       backgroundSize: '40px 40px'
-                   }} 
-                />
-
-                {/* 2. The Void Click Area */}
+                {/* 1. The Void Click Area */}
                 <div 
                     id="infinite-void-click-area"
                     style={{
@@ -359,7 +740,7 @@ export const Editor: React.FC = () => {
                     }}
                 />
 
-                {/* 3. The Physical Artboard */}
+                {/* 2. The Physical Artboard */}
                 <div 
                     className="relative shadow-2xl ring-1 ring-black/5 bg-white transition-shadow"
                     style={{ 
@@ -369,6 +750,7 @@ export const Editor: React.FC = () => {
                         left: 0,
                         top: 0,
                         backgroundColor: backgroundColor,
+                        backgroundImage: backgroundGradient ? toCssGradient(backgroundGradient) : undefined,
                         zIndex: 10
                     }}
                     onMouseDown={(e) => !isSpacePressed && e.stopPropagation()} 
@@ -381,22 +763,52 @@ export const Editor: React.FC = () => {
 
                     <CanvasStage
                         elements={elements}
-                        selectedId={selectedId}
-                        onSelect={setSelectedId}
+                        selectedIds={selectedIds}
+                        onSelect={selectElement}
+                        onSelectMany={setSelectedIds}
                         onUpdate={updateElement}
+                        onUpdateMany={updateElements}
                         canvasSize={canvasSize}
                         backgroundColor={backgroundColor}
+                        backgroundGradient={backgroundGradient}
                         backgroundImage={backgroundImage}
                         stageRef={stageRef}
+                        snapToGrid={showGrid}
+                        fontOptions={fontOptions}
+                        isPenActive={isPenActive}
+                        onPathDrawn={handlePathDrawn}
+                        onPenExit={() => setIsPenActive(false)}
                     />
                 </div>
+
+                {/* 3. Grid (elements snap to it while it is shown). It sits over the artboard so
+                    it's visible where the snapping happens; the dots land on multiples of GRID_SIZE. */}
+                {showGrid && (
+                    <div 
+                       className="absolute pointer-events-none opacity-20 dark:opacity-20"
+                       style={{
+                           left: -10000, top: -10000, right: -10000, bottom: -10000, 
+                           backgroundImage: 'radial-gradient(#64748b 1px, transparent 1px)',
+                           backgroundSize: `${GRID_SIZE}px ${GRID_SIZE}px`,
+                           // -10000 is a whole number of cells; the dot sits in the middle of each cell
+                           backgroundPosition: `${-GRID_SIZE / 2}px ${-GRID_SIZE / 2}px`,
+                           zIndex: 20
+                       }} 
+                    />
+                )}
             </div>
 
+            {isLoadingTemplate && (
+                <div className="absolute inset-0 z-50 flex items-center justify-center bg-slate-50/80 dark:bg-black/60">
+                    <Loader2 className="w-8 h-8 animate-spin text-primary" />
+                </div>
+            )}
+
             {/* HUD / Info Overlay */}
             {!isPreview && (
                 <>
                     <div className="absolute top-4 left-4 pointer-events-none text-[12px] text-slate-500 dark:text-slate-400 z-40 bg-white/70 dark:bg-black/70 p-2 rounded-sm backdrop-blur-sm border border-slate-100 dark:border-white/10 shadow-xl">
-                        {Math.round(camera.z * 100)}% | Scroll to Pan | Ctrl+Scroll to Zoom
+                        {Math.round(camera.z * 100)}% | Scroll to Pan | Ctrl+Scroll to Zoom | Hold Alt to disable snapping
                     </div>
 
                     <div className="absolute bottom-8 right-6 flex items-center gap-1 bg-white/95 dark:bg-slate-900/95 backdrop-blur-md border border-slate-200 dark:border-white/10 p-2 rounded-lg shadow-xl z-50">
@@ -416,12 +828,21 @@ export const Editor: React.FC = () => {
                     <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-40">
                         <FloatingToolbar
                             onAddElement={addElement}
+                            onTogglePen={togglePen}
+                            isPenActive={isPenActive}
                             onPublish={handlePublish}
-                            onDelete={() => selectedId && deleteElement(selectedId)}
-                            onDuplicate={() => selectedId && duplicateElement(selectedId)}
-                            onMoveUp={() => selectedId && moveElement(selectedId, 'up')}
-                            onMoveDown={() => selectedId && moveElement(selectedId, 'down')}
-                            hasSelection={!!selectedId}
+                            onDelete={() => deleteElements(selectedIds)}
+                            onDuplicate={() => duplicateElements(selectedIds)}
+                            onMoveUp={() => moveElements(selectedIds, 'up')}
+                            onMoveDown={() => moveElements(selectedIds, 'down')}
+                            onGroup={() => groupElements(selectedIds)}
+                            onUngroup={() => ungroupElements(selectedIds)}
+                            onAlign={(mode, relativeTo) => alignElements(selectedIds, mode, relativeTo)}
+                            onDistribute={(axis) => distributeElements(selectedIds, axis)}
+                            hasSelection={selectedIds.length > 0}
+                            selectionCount={elements.filter((el) => selectedIds.includes(el.id)).length}
+                            canGroup={elements.filter((el) => selectedIds.includes(el.id)).length > 1}
+                            canUngroup={elements.some((el) => isGroupElement(el) && selectedIds.includes(el.id))}
                             isPublishing={isPublishing}
                         />
                     </div>
@@ -448,14 +869,16 @@ export const Editor: React.FC = () => {
                             <div className="space-y-6">
                                 <div className="space-y-3">
                                     <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Background</label>
-                                    <div className="grid grid-cols-5 gap-2">
-                                        {['#ffffff', '#000000', '#ef4444', '#3b82f6', '#22c55e', '#a855f7'].map(c => (
-                                            <button key={c} onClick={() => setBackgroundColor(c)} className={cn("w-full aspect-square rounded-full border-2 transition-all", backgroundColor === c ? "ring-2 ring-primary ring-offset-2" : "border-slate-200 dark:border-slate-800")} style={{ backgroundColor: c }} />
-                                        ))}
-                                        <div className="relative w-full aspect-square rounded-full border-2 border-slate-200 dark:border-slate-800 bg-gradient-to-br from-slate-100 to-slate-400 overflow-hidden">
-                                            <input type="color" className="absolute inset-0 opacity-0 cursor-pointer" onChange={e => setBackgroundColor(e.target.value)} />
+                                    <GradientEditor label="Fill" color={backgroundColor} gradient={backgroundGradient} onChange={(gradient) => setBackgroundGradient(gradient ?? null)}>
+                                        <div className="grid grid-cols-5 gap-2">
+                                            {['#ffffff', '#000000', '#ef4444', '#3b82f6', '#22c55e', '#a855f7'].map(c => (
+                                                <button key={c} onClick={() => setBackgroundColor(c)} className={cn("w-full aspect-square rounded-full border-2 transition-all", backgroundColor === c ? "ring-2 ring-primary ring-offset-2" : "border-slate-200 dark:border-slate-800")} style={{ backgroundColor: c }} />
+                                            ))}
+                                            <div className="relative w-full aspect-square rounded-full border-2 border-slate-200 dark:border-slate-800 bg-gradient-to-br from-slate-100 to-slate-400 overflow-hidden">
+                                                <input type="color" className="absolute inset-0 opacity-0 cursor-pointer" onChange={e => setBackgroundColor(e.target.value)} />
+                                            </div>
                                         </div>
-                                    </div>
+                                    </GradientEditor>
                                 </div>
                                 <div className="space-y-3">
                                     <div className="flex justify-between items-center">
@@ -470,43 +893,103 @@ export const Editor: React.FC = () => {
                                         )}
                                     </div>
                                 </div>
+                                <div className="space-y-3">
+                                    <div className="flex justify-between items-center">
+                                        <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Fonts</label>
+                                        <button onClick={() => fontInputRef.current?.click()} className="flex items-center gap-1 text-[10px] text-primary hover:underline">
+                                            <Upload className="w-3 h-3" /> Upload
+                                        </button>
+                                    </div>
+                                    {fonts.length === 0 ? (
+                                        <p className="text-xs text-slate-500 dark:text-slate-400">Upload TTF, OTF or WOFF2 files to use your own typefaces. They're published with the template.</p>
+                                    ) : (
+                                        <ul className="space-y-1">
+                                            {fonts.map((font) => (
+                                                <li key={`${font.family}-${font.weight}-${font.style}`} className="flex items-center justify-between gap-2 px-2 py-1.5 rounded-md bg-slate-50 dark:bg-slate-900 text-xs">
+                                                    <span className="truncate" style={{ fontFamily: font.family, fontWeight: font.weight, fontStyle: font.style }}>
+                                                        {font.family}
+                                                        <span className="ml-1 text-slate-400 font-sans font-normal not-italic">{font.weight}{font.style === 'italic' ? ' italic' : ''}</span>
+                                                    </span>
+                                                    <button onClick={() => removeFont(font)} className="text-slate-400 hover:text-red-500" title="Remove font">
+                                                        <X className="w-3 h-3" />
+                                                    </button>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+                                <div className="space-y-3">
+                                    <div className="flex justify-between items-center">
+                                        <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Artwork</label>
+                                        <button onClick={() => svgInputRef.current?.click()} className="flex items-center gap-1 text-[10px] text-primary hover:underline">
+                                            <Upload className="w-3 h-3" /> Import SVG
+                                        </button>
+                                    </div>
+                                    <p className="text-xs text-slate-500 dark:text-slate-400">SVG shapes and text become editable elements. Parts using filters, masks or patterns are added as images.</p>
+                                </div>
+                                <div className="space-y-3">
+                                    <div className="flex justify-between items-center">
+                                        <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Print Size</label>
+                                        {printSize && <button onClick={() => setPrintSize(null)} className="text-[10px] text-red-500 hover:underline">Reset</button>}
+                                    </div>
+                                    <div className="grid grid-cols-3 gap-2">
+                                        <div>
+                                            <span className="label-subtle">Width</span>
+                                            <input
+                                                type="number"
+                                                className="input-minimal w-full mt-1"
+                                                min={1}
+                                                placeholder={String(defaultPrintSize.width)}
+                                                value={printSize?.width ?? ''}
+                                                onChange={(e) => Number(e.target.value) > 0 && handlePrintSizeChange({ width: Number(e.target.value) })}
+                                            />
+                                        </div>
+                                        <div>
+                                            <span className="label-subtle">Height</span>
+                                            <input
+                                                type="number"
+                                                className="input-minimal w-full mt-1"
+                                                min={1}
+                                                placeholder={String(defaultPrintSize.height)}
+                                                value={printSize?.height ?? ''}
+                                                onChange={(e) => Number(e.target.value) > 0 && handlePrintSizeChange({ height: Number(e.target.value) })}
+                                            />
+                                        </div>
+                                        <div>
+                                            <span className="label-subtle">Unit</span>
+                                            <select
+                                                className="select-minimal w-full mt-1"
+                                                value={printSize?.unit ?? 'mm'}
+                                                onChange={(e) => handlePrintSizeChange({ unit: e.target.value as PrintSize['unit'] })}
+                                            >
+                                                <option value="mm">mm</option>
+                                                <option value="in">in</option>
+                                            </select>
+                                        </div>
+                                    </div>
+                                    <p className="text-xs text-slate-500 dark:text-slate-400">Page size of PDF and SVG exports. Without one, 96 pixels print as an inch.</p>
+                                </div>
                             </div>
+                        ) : selectedIds.length > 1 ? (
+                            <SelectionPanel elements={selectedElements} onUpdate={updateSelection} onClose={clearSelection} />
                         ) : (
-                            <PropertiesPanel element={selectedElement!} onUpdate={(updates) => selectedId && updateElement(selectedId, updates)} onClose={clearSelection} />
+                            <PropertiesPanel element={selectedElement!} onUpdate={(updates) => selectedId && updateElement(selectedId, updates)} onClose={clearSelection} fontOptions={fontOptions} />
                         )}
                     </>
                 ) : (
                     <div className="space-y-2">
                         {reversedElements.length === 0 && <p className="text-center text-xs text-slate-500 dark:text-slate-400 py-8">No layers.</p>}
                         {reversedElements.map((el) => (
-                          <div
+                          <LayerRow
                             key={el.id}
-                            onClick={() => setSelectedId(el.id)}
-                            className={cn(
-                              "flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-all",
-                              selectedId === el.id ? "bg-primary/5 border-primary/20 dark:bg-primary/10" : "bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 hover:bg-slate-50 dark:hover:bg-slate-800"
-                            )}
-                          >
-                            <div className="w-8 h-8 rounded-lg bg-slate-100 dark:bg-slate-800 flex items-center justify-center text-slate-600 dark:text-slate-400">
-                              {isTextElement(el) && "T"}
-                              {isImageElement(el) && <ImagePlus className="w-3 h-3" />}
-                              {isShapeElement(el) && <div className="w-3 h-3 bg-current rounded-sm" />}
-                            </div>
-
-                            <span className="text-xs font-medium flex-1 truncate text-slate-900 dark:text-white">
-                              {isTextElement(el) ? (el.text || "Text Layer") : isImageElement(el) ? "Image" : "Layer"}
-                            </span>
-
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                deleteElement(el.id);
-                              }}
-                              className="p-1 hover:text-red-500 transition-colors"
-                            >
-                              <Trash2 className="w-3.5 h-3.5" />
-                            </button>
-                          </div>
+                            element={el}
+                            depth={0}
+                            selectedIds={selectedIds}
+                            expandedIds={expandedLayerIds}
+                            onToggleExpand={toggleLayerExpanded}
+                            onSelect={selectElement}
+                            onDelete={(id) => deleteElements([id])}
+                          />
                         ))}
                     </div>
                 )}
@@ -515,8 +998,24 @@ export const Editor: React.FC = () => {
         )}
       </div>
 
+      <ExportDialog
+        open={isImageExportOpen}
+        onOpenChange={setIsImageExportOpen}
+        design={canvasSize}
+        settings={exportSettings ?? DEFAULT_EXPORT_SETTINGS}
+        canLock
+        estimateSize={estimateImageExportSize}
+        onExport={handleImageExport}
+        onSave={(settings) => {
+          setExportSettings(settings);
+          toast.success('Export settings saved with the template');
+        }}
+      />
+
       <input ref={bgImageInputRef} type="file" accept="image/*" className="hidden" onChange={handleBgUpload} />
       <input ref={fileInputRef} type="file" accept="image/*" className="hidden" />
+      <input ref={fontInputRef} type="file" accept={FONT_FILE_ACCEPT} multiple className="hidden" onChange={handleFontUpload} />
+      <input ref={svgInputRef} type="file" accept=".svg,image/svg+xml" className="hidden" onChange={handleSvgImport} />
 
       {/* Published Modal */}
       <AnimatePresence>
@@ -1,47 +1,88 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Square, 
   Circle, 
   Hexagon, 
+  Star,
+  Donut,
+  Minus,
+  MoveRight,
+  Shapes,
+  PenTool,
   Type, 
   Share2,
   Trash2,
   Copy,
   ChevronUp,
   ChevronDown,
+  Group,
+  Ungroup,
+  AlignStartVertical,
+  AlignCenterVertical,
+  AlignEndVertical,
+  AlignStartHorizontal,
+  AlignCenterHorizontal,
+  AlignEndHorizontal,
+  AlignHorizontalDistributeCenter,
+  AlignVerticalDistributeCenter,
 } from 'lucide-react';
-import { ShapeType } from '@/types/editor';
+import { AlignMode, AlignRelativeTo, CanvasElement, DistributeAxis, ShapeType } from '@/types/editor';
 import { cn } from '@/lib/utils';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 
 interface FloatingToolbarProps {
-  onAddElement: (type: ShapeType) => void;
+  onAddElement: (type: ShapeType, props?: Partial<CanvasElement>) => void;
+  // Pen tool for drawing freeform paths on the canvas
+  onTogglePen?: () => void;
+  isPenActive?: boolean;
   onPublish: () => void;
   onDelete?: () => void;
   onDuplicate?: () => void;
   onMoveUp?: () => void;
   onMoveDown?: () => void;
+  onGroup?: () => void;
+  onUngroup?: () => void;
+  onAlign?: (mode: AlignMode, relativeTo: AlignRelativeTo) => void;
+  onDistribute?: (axis: DistributeAxis) => void;
   hasSelection: boolean;
+  // Number of top-level elements selected (align/distribute ignore nested children)
+  selectionCount?: number;
+  canGroup?: boolean;
+  canUngroup?: boolean;
   isPublishing?: boolean;
 }
 
 interface ToolButtonProps {
   icon: React.ReactNode;
   label: string;
-  onClick: () => void;
+  onClick?: () => void;
   disabled?: boolean;
   className?: string;
 }
 
-const ToolButton: React.FC<ToolButtonProps> = ({ 
+// Forwards its ref and extra props so it can act as a dropdown trigger
+const ToolButton = React.forwardRef<HTMLButtonElement, ToolButtonProps>(({ 
   icon, 
   label, 
   onClick, 
   disabled = false,
   className,
-}) => {
+  ...props
+}, ref) => {
   return (
     <motion.button
+      ref={ref}
+      {...props}
       whileHover={{ scale: 1.1 }}
       whileTap={{ scale: 0.9 }}
         className={cn(
@@ -57,7 +98,26 @@ const ToolButton: React.FC<ToolButtonProps> = ({
       {icon}
     </motion.button>
   );
-};
+});
+ToolButton.displayName = 'ToolButton';
+
+const ALIGN_OPTIONS: { mode: AlignMode; label: string; icon: React.ReactNode }[] = [
+  { mode: 'left', label: 'Align left', icon: <AlignStartVertical size={16} /> },
+  { mode: 'center', label: 'Align center', icon: <AlignCenterVertical size={16} /> },
+  { mode: 'right', label: 'Align right', icon: <AlignEndVertical size={16} /> },
+  { mode: 'top', label: 'Align top', icon: <AlignStartHorizontal size={16} /> },
+  { mode: 'middle', label: 'Align middle', icon: <AlignCenterHorizontal size={16} /> },
+  { mode: 'bottom', label: 'Align bottom', icon: <AlignEndHorizontal size={16} /> },
+];
+
+// Shapes offered from the toolbar's "More shapes" menu
+const MORE_SHAPES: { label: string; icon: React.ReactNode; type: ShapeType; props?: Partial<CanvasElement> }[] = [
+  { label: 'Ellipse', icon: <Circle size={16} className="scale-y-75" />, type: 'ellipse' },
+  { label: 'Ring', icon: <Donut size={16} />, type: 'ring' },
+  { label: 'Star', icon: <Star size={16} />, type: 'star' },
+  { label: 'Line', icon: <Minus size={16} />, type: 'line' },
+  { label: 'Arrow', icon: <MoveRight size={16} />, type: 'line', props: { endHead: 'arrow' } },
+];
 
 const Divider = () => (
   <div className="w-px h-8 bg-slate-200 dark:bg-white/10 mx-1.5" />
@@ -65,14 +125,27 @@ const Divider = () => (
 
 export const FloatingToolbar: React.FC<FloatingToolbarProps> = ({
   onAddElement,
+  onTogglePen,
+  isPenActive = false,
   onPublish,
   onDelete,
   onDuplicate,
   onMoveUp,
   onMoveDown,
+  onGroup,
+  onUngroup,
+  onAlign,
+  onDistribute,
   hasSelection,
+  selectionCount = 0,
+  canGroup = false,
+  canUngroup = false,
   isPublishing = false,
 }) => {
+  const [alignTo, setAlignTo] = useState<AlignRelativeTo>('selection');
+  // One element has no selection bounds of its own to align within
+  const effectiveAlignTo: AlignRelativeTo = selectionCount < 2 ? 'canvas' : alignTo;
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20, scale: 0.95 }}
@@ -98,6 +171,24 @@ export const FloatingToolbar: React.FC<FloatingToolbarProps> = ({
           label="Add Polygon"
           onClick={() => onAddElement('polygon')}
         />
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <ToolButton icon={<Shapes size={22} strokeWidth={2} />} label="More shapes" />
+          </DropdownMenuTrigger>
+          <DropdownMenuContent side="top" align="center" className="w-40">
+            {MORE_SHAPES.map(({ label, icon, type, props }) => (
+              <DropdownMenuItem key={label} className="gap-2 text-xs" onClick={() => onAddElement(type, props)}>
+                {icon} {label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <ToolButton
+          icon={<PenTool size={22} strokeWidth={2} />}
+          label="Pen (P)"
+          onClick={() => onTogglePen?.()}
+          className={cn(isPenActive && 'bg-slate-100 text-slate-900 dark:bg-slate-800 dark:text-slate-100')}
+        />
         <ToolButton
           icon={<Type size={22} strokeWidth={2} />}
           label="Add Text"
@@ -127,6 +218,59 @@ export const FloatingToolbar: React.FC<FloatingToolbarProps> = ({
           onClick={() => onMoveDown?.()}
           disabled={!hasSelection}
         />
+        <ToolButton
+          icon={<Group size={22} strokeWidth={2} />}
+          label="Group (Ctrl+G)"
+          onClick={() => onGroup?.()}
+          disabled={!canGroup}
+        />
+        <ToolButton
+          icon={<Ungroup size={22} strokeWidth={2} />}
+          label="Ungroup (Ctrl+Shift+G)"
+          onClick={() => onUngroup?.()}
+          disabled={!canUngroup}
+        />
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <ToolButton
+              icon={<AlignCenterVertical size={22} strokeWidth={2} />}
+              label="Align & distribute"
+              disabled={selectionCount === 0}
+            />
+          </DropdownMenuTrigger>
+          <DropdownMenuContent side="top" align="center" className="w-52">
+            <DropdownMenuLabel className="text-xs text-slate-500">Align to</DropdownMenuLabel>
+            <DropdownMenuRadioGroup value={effectiveAlignTo} onValueChange={(value) => setAlignTo(value as AlignRelativeTo)}>
+              <DropdownMenuRadioItem value="selection" disabled={selectionCount < 2} className="text-xs">
+                Selection
+              </DropdownMenuRadioItem>
+              <DropdownMenuRadioItem value="canvas" className="text-xs">
+                Canvas
+              </DropdownMenuRadioItem>
+            </DropdownMenuRadioGroup>
+            <DropdownMenuSeparator />
+            {ALIGN_OPTIONS.map(({ mode, label, icon }) => (
+              <DropdownMenuItem key={mode} className="gap-2 text-xs" onClick={() => onAlign?.(mode, effectiveAlignTo)}>
+                {icon} {label}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              className="gap-2 text-xs"
+              disabled={selectionCount < 3}
+              onClick={() => onDistribute?.('horizontal')}
+            >
+              <AlignHorizontalDistributeCenter size={16} /> Distribute horizontally
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              className="gap-2 text-xs"
+              disabled={selectionCount < 3}
+              onClick={() => onDistribute?.('vertical')}
+            >
+              <AlignVerticalDistributeCenter size={16} /> Distribute vertically
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
 
       <Divider />
@@ -0,0 +1,139 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { Gradient, GradientStop, GradientType } from '@/types/editor';
+import { cn } from '@/lib/utils';
+import { createGradient, toCssGradient } from '@/lib/gradients';
+
+const MODES: { value: GradientType | 'solid'; label: string }[] = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'linear', label: 'Linear' },
+  { value: 'radial', label: 'Radial' },
+];
+
+interface GradientEditorProps {
+  label: string;
+  // Current solid colour, used as the first stop when switching to a gradient
+  color: string;
+  gradient?: Gradient | null;
+  // undefined switches back to the solid colour
+  onChange: (gradient: Gradient | undefined) => void;
+  // Solid colour controls, shown while no gradient is set
+  children?: React.ReactNode;
+}
+
+// Solid / linear / radial switch with stop and angle controls for gradient fills
+export const GradientEditor: React.FC<GradientEditorProps> = ({ label, color, gradient, onChange, children }) => {
+  const mode = gradient?.type ?? 'solid';
+
+  const setMode = (next: GradientType | 'solid') => {
+    if (next === mode) return;
+    if (next === 'solid') onChange(undefined);
+    else onChange(gradient ? { ...gradient, type: next } : createGradient(next, color));
+  };
+
+  const updateStop = (index: number, patch: Partial<GradientStop>) =>
+    gradient && onChange({ ...gradient, stops: gradient.stops.map((stop, i) => (i === index ? { ...stop, ...patch } : stop)) });
+
+  const removeStop = (index: number) =>
+    gradient && onChange({ ...gradient, stops: gradient.stops.filter((_, i) => i !== index) });
+
+  // New stops go in the middle of the widest gap, in the colour of the stop before it
+  const addStop = () => {
+    if (!gradient) return;
+    const sorted = [...gradient.stops].sort((a, b) => a.offset - b.offset);
+    let gapStart = 0;
+    for (let i = 1; i < sorted.length - 1; i++) {
+      if (sorted[i + 1].offset - sorted[i].offset > sorted[gapStart + 1].offset - sorted[gapStart].offset) gapStart = i;
+    }
+    const from = sorted[gapStart];
+    const to = sorted[gapStart + 1];
+    const offset = Math.round(((from.offset + to.offset) / 2) * 100) / 100;
+    onChange({ ...gradient, stops: [...gradient.stops, { offset, color: from.color }] });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="label-subtle">{label}</span>
+        <div className="flex rounded-md bg-slate-100 dark:bg-slate-800 p-0.5">
+          {MODES.map(({ value, label: modeLabel }) => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              className={cn(
+                'px-2 py-0.5 rounded text-[10px] font-medium transition-colors',
+                mode === value
+                  ? 'bg-white dark:bg-slate-950 text-slate-900 dark:text-white shadow-sm'
+                  : 'text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'
+              )}
+            >
+              {modeLabel}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!gradient ? (
+        children
+      ) : (
+        <div className="space-y-3">
+          <div
+            className="h-8 rounded-md border border-slate-200 dark:border-slate-700"
+            style={{ backgroundImage: toCssGradient(gradient) }}
+          />
+
+          {gradient.stops.map((stop, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <div className="relative w-6 h-6 shrink-0 rounded-md overflow-hidden border border-slate-200 dark:border-slate-700">
+                <input
+                  type="color"
+                  value={stop.color}
+                  onChange={(e) => updateStop(i, { color: e.target.value })}
+                  className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-[150%] h-[150%] p-0 m-0 cursor-pointer border-none"
+                />
+              </div>
+              <input
+                type="range"
+                className="flex-1 h-1.5 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer"
+                min={0}
+                max={100}
+                value={Math.round(stop.offset * 100)}
+                onChange={(e) => updateStop(i, { offset: Number(e.target.value) / 100 })}
+              />
+              <span className="w-8 text-right text-xs text-slate-500">{Math.round(stop.offset * 100)}%</span>
+              <button
+                onClick={() => removeStop(i)}
+                disabled={gradient.stops.length <= 2}
+                className="p-1 rounded text-slate-400 hover:text-red-500 disabled:opacity-30 disabled:hover:text-slate-400"
+                title="Remove stop"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+
+          <button onClick={addStop} className="flex items-center gap-1 text-[10px] text-primary hover:underline">
+            <Plus className="w-3 h-3" /> Add stop
+          </button>
+
+          {gradient.type === 'linear' && (
+            <div>
+              <div className="flex items-center justify-between">
+                <span className="label-subtle">Angle</span>
+                <span className="text-xs text-slate-500">{gradient.angle}°</span>
+              </div>
+              <input
+                type="range"
+                className="w-full h-1.5 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer mt-2"
+                min={0}
+                max={360}
+                value={gradient.angle}
+                onChange={(e) => onChange({ ...gradient, angle: Number(e.target.value) })}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
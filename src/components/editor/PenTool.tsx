@@ -0,0 +1,207 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Layer, Rect, Circle, Line, Shape } from 'react-konva';
+import Konva from 'konva';
+import { PathCommand, fitPath, getPathBounds, serializePath } from '@/lib/paths';
+import { traceOutline } from '@/lib/shapes';
+
+// Geometry of a finished path, ready to become a PathElement
+export interface DrawnPath {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  data: string;
+  closed: boolean;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// A clicked point; dragging while placing it pulls out symmetric curve handles.
+// `handle` is the outgoing handle relative to the anchor, the incoming one mirrors it.
+interface Anchor extends Point {
+  handle?: Point;
+}
+
+interface PenToolProps {
+  width: number;
+  height: number;
+  // Canvas units per screen pixel, so anchors keep their on-screen size at any zoom
+  pixelSize: number;
+  onComplete: (path: DrawnPath) => void;
+  onCancel: () => void;
+}
+
+const COLOR = '#6366f1';
+// On-screen distance within which a click lands on an existing anchor
+const HIT_RADIUS = 8;
+
+const buildCommands = (anchors: Anchor[], closed: boolean): PathCommand[] => {
+  const segment = (from: Anchor, to: Anchor): PathCommand =>
+    from.handle || to.handle
+      ? {
+          type: 'C',
+          x1: from.x + (from.handle?.x ?? 0),
+          y1: from.y + (from.handle?.y ?? 0),
+          x2: to.x - (to.handle?.x ?? 0),
+          y2: to.y - (to.handle?.y ?? 0),
+          x: to.x,
+          y: to.y,
+        }
+      : { type: 'L', x: to.x, y: to.y };
+
+  const commands: PathCommand[] = [{ type: 'M', x: anchors[0].x, y: anchors[0].y }];
+  for (let i = 1; i < anchors.length; i++) commands.push(segment(anchors[i - 1], anchors[i]));
+  if (closed) commands.push(segment(anchors[anchors.length - 1], anchors[0]), { type: 'Z' });
+  return commands;
+};
+
+// Click to add corner points, drag to add curves. Clicking the first point closes
+// the path; clicking the last point again, double-clicking or Enter leaves it
+// open. Escape drops the path being drawn, or leaves the tool when there is none.
+export const PenTool: React.FC<PenToolProps> = ({ width, height, pixelSize, onComplete, onCancel }) => {
+  const [anchors, setAnchors] = useState<Anchor[]>([]);
+  const [pointer, setPointer] = useState<Point | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const anchorsRef = useRef(anchors);
+  anchorsRef.current = anchors;
+
+  const finish = useCallback(
+    (closed: boolean) => {
+      const points = anchorsRef.current;
+      setAnchors([]);
+      setDragging(false);
+      if (points.length < 2) return;
+
+      const commands = buildCommands(points, closed);
+      const bounds = getPathBounds(commands);
+      if (bounds.width < 1 && bounds.height < 1) return;
+
+      // Stored relative to its own box, with the element centred on it
+      const size = { width: Math.max(1, bounds.width), height: Math.max(1, bounds.height) };
+      onComplete({
+        x: Math.round(bounds.x + bounds.width / 2),
+        y: Math.round(bounds.y + bounds.height / 2),
+        ...size,
+        data: serializePath(fitPath(commands, { x: 0, y: 0, ...size })),
+        closed,
+      });
+    },
+    [onComplete]
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        finish(false);
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        if (anchorsRef.current.length > 0) setAnchors([]);
+        else onCancel();
+      } else if (e.key === 'Backspace' && anchorsRef.current.length > 0) {
+        e.preventDefault();
+        setAnchors((prev) => prev.slice(0, -1));
+      }
+    };
+    // A handle drag can end outside the canvas
+    const handleMouseUp = () => setDragging(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [finish, onCancel]);
+
+  const getPoint = (e: Konva.KonvaEventObject<MouseEvent>) => e.target.getStage()?.getPointerPosition() ?? null;
+
+  const isNear = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y) <= HIT_RADIUS * pixelSize;
+
+  const handleMouseDown = (e: Konva.KonvaEventObject<MouseEvent>) => {
+    if (e.evt.button !== 0) return;
+    e.cancelBubble = true;
+    const point = getPoint(e);
+    if (!point) return;
+
+    const first = anchors[0];
+    const last = anchors[anchors.length - 1];
+    if (anchors.length >= 3 && isNear(point, first)) return finish(true);
+    // Also catches the second click of a double-click
+    if (last && isNear(point, last)) return finish(false);
+
+    setAnchors((prev) => [...prev, { x: point.x, y: point.y }]);
+    setDragging(true);
+  };
+
+  const handleMouseMove = (e: Konva.KonvaEventObject<MouseEvent>) => {
+    const point = getPoint(e);
+    if (!point) return;
+    setPointer(point);
+    if (!dragging) return;
+    setAnchors((prev) => {
+      const last = prev[prev.length - 1];
+      if (!last) return prev;
+      const handle = { x: point.x - last.x, y: point.y - last.y };
+      // A slight wobble while clicking shouldn't turn a corner into a curve
+      const next = Math.hypot(handle.x, handle.y) > 2 * pixelSize ? { ...last, handle } : { x: last.x, y: last.y };
+      return [...prev.slice(0, -1), next];
+    });
+  };
+
+  const last = anchors[anchors.length - 1];
+  const closing = !!pointer && anchors.length >= 3 && isNear(pointer, anchors[0]);
+  // The next segment follows the pointer until it's clicked
+  const preview = last && pointer && !dragging ? [...anchors, { x: pointer.x, y: pointer.y }] : anchors;
+
+  return (
+    <Layer>
+      {/* Catches every pointer event while the tool is active */}
+      <Rect
+        width={width}
+        height={height}
+        fill="transparent"
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setPointer(null)}
+      />
+
+      {preview.length >= 2 && (
+        <Shape
+          sceneFunc={(ctx, shape) => {
+            traceOutline(ctx, { kind: 'path', commands: buildCommands(preview, false) });
+            ctx.strokeShape(shape);
+          }}
+          stroke={COLOR}
+          strokeWidth={1.5 * pixelSize}
+          listening={false}
+        />
+      )}
+
+      {last?.handle && (
+        <Line
+          points={[last.x - last.handle.x, last.y - last.handle.y, last.x + last.handle.x, last.y + last.handle.y]}
+          stroke={COLOR}
+          strokeWidth={pixelSize}
+          dash={[4 * pixelSize, 3 * pixelSize]}
+          listening={false}
+        />
+      )}
+
+      {anchors.map((anchor, i) => (
+        <Circle
+          key={i}
+          x={anchor.x}
+          y={anchor.y}
+          radius={(i === 0 && closing ? 6 : 4) * pixelSize}
+          fill={i === anchors.length - 1 ? COLOR : '#ffffff'}
+          stroke={COLOR}
+          strokeWidth={1.5 * pixelSize}
+          listening={false}
+        />
+      ))}
+    </Layer>
+  );
+};
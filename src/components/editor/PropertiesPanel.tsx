@@ -3,17 +3,15 @@ import { motion, AnimatePresence } from "framer-motion";
 import { 
   X, ChevronDown, ImageIcon, 
   AlignLeft, AlignCenter, AlignRight, 
-  Bold, Italic, Type 
+  Bold, Italic, Type, Layers, PenTool
 } from "lucide-react";
-import { CanvasElement } from "@/types/editor";
+import { BlendMode, CanvasElement, FieldPreset, FieldSettings, LineCap, LineHead, Shadow, TextOverflowMode, TextTransform } from "@/types/editor";
 import { cn } from "@/lib/utils";
-
-/* ---------------------- FONT LIST ---------------------- */
-const GOOGLE_FONTS = [
-  "Inter", "Roboto", "Oswald", "Lobster", "Montserrat",
-  "Poppins", "Playfair Display", "Raleway", "Open Sans",
-  "Lato", "Source Sans 3", "Bebas Neue", "Dancing Script", "Pacifico"
-];
+import { FIELD_PRESETS, isFieldRequired, isValidPattern } from "@/lib/fields";
+import { getMinFontSize } from "@/lib/textLayout";
+import { GOOGLE_FONTS } from "@/lib/fonts";
+import { isShapeElement } from "@/lib/shapes";
+import { GradientEditor } from "./GradientEditor";
 
 /* ---------------------- COLLAPSIBLE SECTION ---------------------- */
 const Section: React.FC<{ title: string; children: React.ReactNode }> = ({
@@ -86,8 +84,8 @@ const Slider = ({ label, value, min, max, step = 1, onChange }: any) => (
 
 const ColorInput = ({ label, value, onChange }: any) => (
   <div>
-    <span className="label-subtle">{label}</span>
-    <div className="flex gap-2 mt-1 items-center">
+    {label && <span className="label-subtle">{label}</span>}
+    <div className={cn("flex gap-2 items-center", label && "mt-1")}>
       <div className="relative w-8 h-8 rounded-md overflow-hidden border border-slate-200 dark:border-slate-700">
         <input
             type="color"
@@ -106,8 +104,196 @@ const ColorInput = ({ label, value, onChange }: any) => (
   </div>
 );
 
+// Checkbox that adds a drop shadow, then its colour, blur and offset
+const ShadowControls: React.FC<{ label: string; shadow?: Shadow; onChange: (shadow: Shadow | undefined) => void }> = ({
+  label,
+  shadow,
+  onChange,
+}) => (
+  <>
+    <label className="flex items-center gap-2 text-xs cursor-pointer">
+      <input
+        type="checkbox"
+        checked={!!shadow}
+        onChange={(e) => onChange(e.target.checked ? { color: "rgba(0,0,0,0.5)", blur: 6, offsetX: 2, offsetY: 2 } : undefined)}
+      />
+      {label}
+    </label>
+    {shadow && (
+      <>
+        <ColorInput
+          label="Shadow Color"
+          value={shadow.color}
+          onChange={(color: string) => onChange({ ...shadow, color })}
+        />
+        <Slider
+          label="Blur"
+          min={0}
+          max={50}
+          value={shadow.blur}
+          onChange={(blur: number) => onChange({ ...shadow, blur })}
+        />
+        <div className="grid grid-cols-2 gap-3">
+          <NumberInput
+            label="Offset X"
+            min={-100}
+            value={shadow.offsetX}
+            onChange={(offsetX: number) => onChange({ ...shadow, offsetX })}
+          />
+          <NumberInput
+            label="Offset Y"
+            min={-100}
+            value={shadow.offsetY}
+            onChange={(offsetY: number) => onChange({ ...shadow, offsetY })}
+          />
+        </div>
+      </>
+    )}
+  </>
+);
+
+const BLEND_MODES: { value: BlendMode; label: string }[] = [
+  { value: "normal", label: "Normal" },
+  { value: "multiply", label: "Multiply" },
+  { value: "screen", label: "Screen" },
+  { value: "overlay", label: "Overlay" },
+  { value: "darken", label: "Darken" },
+  { value: "lighten", label: "Lighten" },
+  { value: "color-dodge", label: "Color Dodge" },
+  { value: "color-burn", label: "Color Burn" },
+  { value: "hard-light", label: "Hard Light" },
+  { value: "soft-light", label: "Soft Light" },
+  { value: "difference", label: "Difference" },
+  { value: "exclusion", label: "Exclusion" },
+  { value: "hue", label: "Hue" },
+  { value: "saturation", label: "Saturation" },
+  { value: "color", label: "Color" },
+  { value: "luminosity", label: "Luminosity" },
+];
+
+const LINE_CAPS: { value: LineCap; label: string }[] = [
+  { value: "butt", label: "Flat" },
+  { value: "round", label: "Round" },
+  { value: "square", label: "Square" },
+];
+
+const LINE_HEADS: { value: LineHead; label: string }[] = [
+  { value: "none", label: "None" },
+  { value: "arrow", label: "Arrow" },
+  { value: "triangle", label: "Triangle" },
+  { value: "circle", label: "Circle" },
+];
+
+/* ---------------------- GENERATOR FIELD ---------------------- */
+// Label, help and validation for the field attendees fill in on the Generator
+const FieldSettingsControls = ({ element, onUpdate }: { element: CanvasElement, onUpdate: (attrs: Partial<CanvasElement>) => void }) => {
+  const field = element.field ?? {};
+  const isText = element.type === "text";
+  const editable = field.editable !== false;
+  const [usesPattern, setUsesPattern] = useState(!!field.pattern);
+  const validation = field.preset ?? (usesPattern ? "custom" : "none");
+
+  const updateField = (changes: Partial<FieldSettings>) => onUpdate({ field: { ...field, ...changes } });
+
+  return (
+    <div className="space-y-3">
+      {isText && (
+        <label className="flex items-center gap-2 text-xs cursor-pointer">
+          <input
+            type="checkbox"
+            className="w-4 h-4 rounded border-slate-300 text-primary focus:ring-primary"
+            checked={editable}
+            onChange={(e) => updateField({ editable: e.target.checked })}
+          />
+          Attendees can edit this text
+        </label>
+      )}
+
+      {(!isText || editable) && (
+        <>
+          <div>
+            <span className="label-subtle">Label</span>
+            <input
+              type="text"
+              className="input-minimal w-full mt-1"
+              value={field.label ?? ""}
+              placeholder={isText ? "e.g. Your name" : "e.g. Your photo"}
+              onChange={(e) => updateField({ label: e.target.value || undefined })}
+            />
+          </div>
+          <div>
+            <span className="label-subtle">Help Text</span>
+            <input
+              type="text"
+              className="input-minimal w-full mt-1"
+              value={field.helpText ?? ""}
+              onChange={(e) => updateField({ helpText: e.target.value || undefined })}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-xs cursor-pointer">
+            <input
+              type="checkbox"
+              className="w-4 h-4 rounded border-slate-300 text-primary focus:ring-primary"
+              checked={isFieldRequired(element)}
+              onChange={(e) => updateField({ required: e.target.checked })}
+            />
+            Required
+          </label>
+
+          {isText && (
+            <>
+              <NumberInput
+                label="Max Length (0 = no limit)"
+                value={field.maxLength ?? 0}
+                onChange={(maxLength: number) => updateField({ maxLength: maxLength > 0 ? Math.round(maxLength) : undefined })}
+              />
+              <div>
+                <span className="label-subtle">Validation</span>
+                <select
+                  className="select-minimal w-full mt-1"
+                  value={validation}
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    setUsesPattern(value === "custom");
+                    updateField({
+                      preset: value in FIELD_PRESETS ? (value as FieldPreset) : undefined,
+                      pattern: value === "custom" ? field.pattern : undefined,
+                    });
+                  }}
+                >
+                  <option value="none">None</option>
+                  {(Object.keys(FIELD_PRESETS) as FieldPreset[]).map((preset) => (
+                    <option key={preset} value={preset}>{FIELD_PRESETS[preset].label}</option>
+                  ))}
+                  <option value="custom">Custom pattern</option>
+                </select>
+              </div>
+              {validation === "custom" && (
+                <div>
+                  <span className="label-subtle">Regular Expression</span>
+                  <input
+                    type="text"
+                    className={cn("input-minimal w-full mt-1 font-mono", field.pattern && !isValidPattern(field.pattern) && "border-red-400")}
+                    value={field.pattern ?? ""}
+                    placeholder="e.g. [A-Z]{3}-\d{4}"
+                    onChange={(e) => updateField({ pattern: e.target.value || undefined })}
+                  />
+                  {field.pattern && !isValidPattern(field.pattern) && (
+                    <p className="text-xs text-red-500 mt-1">This pattern is invalid and will be ignored.</p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
 /* ---------------------- MAIN PANEL ---------------------- */
-export const PropertiesPanel = ({ element, onUpdate, onClose }: { element: CanvasElement, onUpdate: (attrs: Partial<CanvasElement>) => void, onClose: () => void }) => {
+// fontOptions lists the template's uploaded fonts as well as the built-in ones
+export const PropertiesPanel = ({ element, onUpdate, onClose, fontOptions = GOOGLE_FONTS }: { element: CanvasElement, onUpdate: (attrs: Partial<CanvasElement>) => void, onClose: () => void, fontOptions?: string[] }) => {
   if (!element) return null;
 
   return (
@@ -123,7 +309,7 @@ export const PropertiesPanel = ({ element, onUpdate, onClose }: { element: Canva
         <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200 dark:border-white/10 bg-slate-50/50 dark:bg-slate-900/50">
           <div className="flex items-center gap-2">
             <span className="p-1 rounded bg-slate-200 dark:bg-slate-800">
-                {element.type === 'text' ? <Type size={14}/> : <ImageIcon size={14}/>}
+                {element.type === 'text' ? <Type size={14}/> : element.type === 'group' ? <Layers size={14}/> : element.type === 'path' ? <PenTool size={14}/> : <ImageIcon size={14}/>}
             </span>
             <h3 className="text-sm font-semibold capitalize text-slate-900 dark:text-white">{element.type}</h3>
           </div>
@@ -163,6 +349,16 @@ export const PropertiesPanel = ({ element, onUpdate, onClose }: { element: Canva
             </Section>
           )}
 
+          {/* SIZE - PATH */}
+          {element.type === "path" && (
+            <Section title="Size">
+              <div className="grid grid-cols-2 gap-3">
+                <NumberInput label="Width" min={1} value={Math.round(element.width)} onChange={(width: number) => onUpdate({ width })} />
+                <NumberInput label="Height" min={1} value={Math.round(element.height)} onChange={(height: number) => onUpdate({ height })} />
+              </div>
+            </Section>
+          )}
+
           {/* SIZE - CIRCLE */}
           {element.type === "circle" && (
             <Section title="Size">
@@ -178,15 +374,116 @@ export const PropertiesPanel = ({ element, onUpdate, onClose }: { element: Canva
             </Section>
           )}
 
+          {/* SIZE - ELLIPSE */}
+          {element.type === "ellipse" && (
+            <Section title="Size">
+              <Slider label="Radius X" min={5} max={500} value={element.radiusX} onChange={(radiusX: number) => onUpdate({ radiusX })} />
+              <Slider label="Radius Y" min={5} max={500} value={element.radiusY} onChange={(radiusY: number) => onUpdate({ radiusY })} />
+            </Section>
+          )}
+
+          {/* RING */}
+          {element.type === "ring" && (
+            <Section title="Ring">
+              <Slider
+                label="Outer Radius"
+                min={10}
+                max={400}
+                value={element.radius}
+                onChange={(radius: number) => onUpdate({ radius, innerRadius: Math.min(element.innerRadius, radius - 1) })}
+              />
+              <Slider
+                label="Inner Radius"
+                min={0}
+                max={element.radius - 1}
+                value={element.innerRadius}
+                onChange={(innerRadius: number) => onUpdate({ innerRadius })}
+              />
+            </Section>
+          )}
+
+          {/* STAR */}
+          {element.type === "star" && (
+            <Section title="Star">
+              <Slider label="Points" min={3} max={20} value={element.numPoints} onChange={(numPoints: number) => onUpdate({ numPoints })} />
+              <Slider
+                label="Outer Radius"
+                min={10}
+                max={400}
+                value={element.radius}
+                onChange={(radius: number) => onUpdate({ radius, innerRadius: Math.min(element.innerRadius, radius) })}
+              />
+              <Slider
+                label="Inner Radius"
+                min={1}
+                max={element.radius}
+                value={element.innerRadius}
+                onChange={(innerRadius: number) => onUpdate({ innerRadius })}
+              />
+            </Section>
+          )}
+
+          {/* LINE */}
+          {element.type === "line" && (
+            <Section title="Line">
+              <NumberInput label="Length" min={10} value={Math.round(element.length)} onChange={(length: number) => onUpdate({ length })} />
+              <Slider label="Thickness" min={1} max={50} value={element.strokeWidth} onChange={(strokeWidth: number) => onUpdate({ strokeWidth })} />
+              <ColorInput label="Color" value={element.stroke} onChange={(stroke: string) => onUpdate({ stroke })} />
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <span className="label-subtle">Cap</span>
+                  <select
+                    className="select-minimal w-full mt-1"
+                    value={element.lineCap}
+                    onChange={(e) => onUpdate({ lineCap: e.target.value as LineCap })}
+                  >
+                    {LINE_CAPS.map(({ value, label }) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <span className="label-subtle">Start</span>
+                  <select
+                    className="select-minimal w-full mt-1"
+                    value={element.startHead}
+                    onChange={(e) => onUpdate({ startHead: e.target.value as LineHead })}
+                  >
+                    {LINE_HEADS.map(({ value, label }) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <span className="label-subtle">End</span>
+                  <select
+                    className="select-minimal w-full mt-1"
+                    value={element.endHead}
+                    onChange={(e) => onUpdate({ endHead: e.target.value as LineHead })}
+                  >
+                    {LINE_HEADS.map(({ value, label }) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </Section>
+          )}
+
           {/* TEXT CONTROLS - UPDATED */}
           {element.type === "text" && (
             <Section title="Text Content">
+              {/* Styled text is edited on the canvas so the runs stay intact */}
               <textarea
                 className="input-minimal w-full h-24 p-2 text-sm resize-none"
                 value={element.text}
                 onChange={(e) => onUpdate({ text: e.target.value })}
+                disabled={!!element.runs?.length}
                 placeholder="Enter text here..."
               />
+              {!!element.runs?.length && (
+                <p className="text-xs text-slate-500">This text has mixed styles. Double-click it on the canvas to edit.</p>
+              )}
 
               {/* Font Family */}
               <div>
@@ -196,7 +493,7 @@ export const PropertiesPanel = ({ element, onUpdate, onClose }: { element: Canva
                   value={element.fontFamily}
                   onChange={(e) => onUpdate({ fontFamily: e.target.value })}
                 >
-                  {GOOGLE_FONTS.map((f) => (
+                  {fontOptions.map((f) => (
                     <option key={f} value={f}>
                       {f}
                     </option>
@@ -263,6 +560,113 @@ export const PropertiesPanel = ({ element, onUpdate, onClose }: { element: Canva
               <div className="pt-2">
                  <Slider label="Maximum Width" min={50} max={800} value={element.width} onChange={(width: number) => onUpdate({ width })} />
               </div>
+
+              {/* Overflow: what happens when an attendee's text doesn't fit */}
+              <div>
+                <span className="label-subtle">When Text Is Too Long</span>
+                <select
+                  className="select-minimal w-full mt-1"
+                  value={element.overflow ?? "wrap"}
+                  onChange={(e) => onUpdate({ overflow: e.target.value as TextOverflowMode })}
+                >
+                  <option value="wrap">Wrap onto more lines</option>
+                  <option value="shrink">Shrink to fit</option>
+                  <option value="ellipsis">Cut off with …</option>
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                {element.overflow === "shrink" && (
+                  <NumberInput
+                    label="Min Size"
+                    min={6}
+                    max={element.fontSize}
+                    value={Math.round(getMinFontSize(element))}
+                    onChange={(minFontSize: number) => onUpdate({ minFontSize: Math.max(6, Math.min(element.fontSize, minFontSize)) })}
+                  />
+                )}
+                <NumberInput
+                  label={(element.overflow ?? "wrap") === "wrap" ? "Max Lines (0 = any)" : "Max Lines"}
+                  min={(element.overflow ?? "wrap") === "wrap" ? 0 : 1}
+                  value={element.maxLines ?? ((element.overflow ?? "wrap") === "wrap" ? 0 : 1)}
+                  onChange={(maxLines: number) => onUpdate({ maxLines: maxLines > 0 ? Math.round(maxLines) : undefined })}
+                />
+              </div>
+            </Section>
+          )}
+
+          {element.type === "text" && (
+            <Section title="Typography">
+              <div className="grid grid-cols-2 gap-3">
+                <Slider
+                  label="Letter Spacing"
+                  min={-10}
+                  max={50}
+                  step={0.5}
+                  value={element.letterSpacing ?? 0}
+                  onChange={(letterSpacing: number) => onUpdate({ letterSpacing: letterSpacing || undefined })}
+                />
+                <Slider
+                  label="Line Height"
+                  min={0.5}
+                  max={3}
+                  step={0.05}
+                  value={element.lineHeight ?? 1}
+                  onChange={(lineHeight: number) => onUpdate({ lineHeight: lineHeight === 1 ? undefined : lineHeight })}
+                />
+              </div>
+
+              <div>
+                <span className="label-subtle">Case</span>
+                <select
+                  className="select-minimal w-full mt-1"
+                  value={element.textTransform ?? "none"}
+                  onChange={(e) => {
+                    const textTransform = e.target.value as TextTransform;
+                    onUpdate({ textTransform: textTransform === "none" ? undefined : textTransform });
+                  }}
+                >
+                  <option value="none">As typed</option>
+                  <option value="uppercase">UPPERCASE</option>
+                  <option value="lowercase">lowercase</option>
+                  <option value="capitalize">Capitalize Each Word</option>
+                </select>
+              </div>
+
+              {/* Outline */}
+              <label className="flex items-center gap-2 text-xs cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!!element.textStroke}
+                  onChange={(e) => onUpdate({ textStroke: e.target.checked ? { color: "#000000", width: 2 } : undefined })}
+                />
+                Outline
+              </label>
+              {element.textStroke && (
+                <div className="grid grid-cols-2 gap-3">
+                  <ColorInput
+                    label="Outline Color"
+                    value={element.textStroke.color}
+                    onChange={(color: string) => onUpdate({ textStroke: { ...element.textStroke!, color } })}
+                  />
+                  <Slider
+                    label="Outline Width"
+                    min={0}
+                    max={20}
+                    step={0.5}
+                    value={element.textStroke.width}
+                    onChange={(width: number) => onUpdate({ textStroke: { ...element.textStroke!, width } })}
+                  />
+                </div>
+              )}
+
+              {/* Drop shadow behind the letters only */}
+              <ShadowControls label="Text Shadow" shadow={element.textShadow} onChange={(textShadow) => onUpdate({ textShadow })} />
+            </Section>
+          )}
+
+          {element.type === "text" && (
+            <Section title="Generator Field">
+              <FieldSettingsControls key={element.id} element={element} onUpdate={onUpdate} />
             </Section>
           )}
 
@@ -280,18 +684,24 @@ export const PropertiesPanel = ({ element, onUpdate, onClose }: { element: Canva
                     onChange={(opacity: number) => onUpdate({ opacity })} 
                 />
 
-                {/* Fill Color - Check ensures element is not an image before accessing .fill */}
-                {element.type !== 'image' && (
-                    <ColorInput
-                        label="Fill Color"
-                        value={element.fill}
-                        // We cast to 'any' here because partial updates to unions can be strict in TS
-                        onChange={(fill: string) => onUpdate({ fill } as any)}
-                    />
+                {/* Fill Color - Check ensures element is not an image or group before accessing .fill */}
+                {element.type !== 'image' && element.type !== 'group' && element.type !== 'line' && (
+                    <GradientEditor
+                        label="Fill"
+                        color={element.fill}
+                        gradient={element.fillGradient}
+                        onChange={(fillGradient) => onUpdate({ fillGradient })}
+                    >
+                        <ColorInput
+                            value={element.fill}
+                            // We cast to 'any' here because partial updates to unions can be strict in TS
+                            onChange={(fill: string) => onUpdate({ fill } as any)}
+                        />
+                    </GradientEditor>
                 )}
 
-                {/* Stroke Controls - Only for Shapes (Rect/Circle/Polygon) */}
-                {(element.type === 'rect' || element.type === 'circle' || element.type === 'polygon') && (
+                {/* Stroke Controls - Only for filled shapes */}
+                {isShapeElement(element) && element.type !== 'image' && (
                     <>
                         <ColorInput
                             label="Stroke Color"
@@ -344,8 +754,35 @@ export const PropertiesPanel = ({ element, onUpdate, onClose }: { element: Canva
               </div>
           </Section>
 
+          {/* EFFECTS - apply to the element as a whole, photo and strokes included */}
+          <Section title="Effects">
+            <ShadowControls label="Drop Shadow" shadow={element.shadow} onChange={(shadow) => onUpdate({ shadow })} />
+            <Slider
+              label="Layer Blur"
+              min={0}
+              max={50}
+              value={element.blur ?? 0}
+              onChange={(blur: number) => onUpdate({ blur: blur || undefined })}
+            />
+            <div>
+              <span className="label-subtle">Blend Mode</span>
+              <select
+                className="select-minimal w-full mt-1"
+                value={element.blendMode ?? "normal"}
+                onChange={(e) => {
+                  const blendMode = e.target.value as BlendMode;
+                  onUpdate({ blendMode: blendMode === "normal" ? undefined : blendMode });
+                }}
+              >
+                {BLEND_MODES.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </Section>
+
           {/* PHOTO PLACEHOLDER */}
-          {element.type !== "text" && (
+          {isShapeElement(element) && (
             <Section title="Interaction">
               <label className="flex items-center gap-3 p-3 rounded-lg border border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-900/20 cursor-pointer hover:border-primary/50 transition-colors">
                 <input
@@ -365,6 +802,7 @@ export const PropertiesPanel = ({ element, onUpdate, onClose }: { element: Canva
               
               {element.isPlaceholder && (
                 <div className="mt-4 space-y-4">
+                  <FieldSettingsControls key={element.id} element={element} onUpdate={onUpdate} />
                   <div className="p-3 bg-blue-50 dark:bg-blue-900/10 rounded-lg border border-blue-100 dark:border-blue-900/20">
                     <p className="text-xs text-blue-600 dark:text-blue-400">
                         <strong>Preview Image:</strong> Upload a temporary image to test how it looks. This won't be saved in the final template.
@@ -414,4 +852,77 @@ export const PropertiesPanel = ({ element, onUpdate, onClose }: { element: Canva
       </motion.div>
     </AnimatePresence>
   );
-};
\ No newline at end of file
+};
+/* ---------------------- MULTI-SELECTION PANEL ---------------------- */
+// Shown when several elements are selected; only properties every element
+// shares are editable, and edits apply to the whole selection.
+export const SelectionPanel = ({ elements, onUpdate, onClose }: { elements: CanvasElement[], onUpdate: (attrs: Partial<CanvasElement>) => void, onClose: () => void }) => {
+  if (elements.length === 0) return null;
+
+  const [first] = elements;
+  const fillable = elements.every((el) => el.type !== 'image' && el.type !== 'group' && el.type !== 'line');
+  const strokable = elements.every((el) => isShapeElement(el) && el.type !== 'image');
+  const firstFill = 'fill' in first ? first.fill : undefined;
+  // Gradient fills count as mixed, since the colour alone doesn't describe them
+  const sameFill = fillable && elements.every((el) => 'fill' in el && el.fill === firstFill && !('fillGradient' in el && el.fillGradient));
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0, x: 20 }}
+        animate={{ opacity: 1, x: 0 }}
+        exit={{ opacity: 0, x: 20 }}
+        transition={{ duration: 0.3 }}
+        className="w-full h-full overflow-hidden flex flex-col bg-white dark:bg-slate-950 border-l border-slate-200 dark:border-slate-800"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200 dark:border-white/10 bg-slate-50/50 dark:bg-slate-900/50">
+          <div className="flex items-center gap-2">
+            <span className="p-1 rounded bg-slate-200 dark:bg-slate-800">
+                <Layers size={14}/>
+            </span>
+            <h3 className="text-sm font-semibold text-slate-900 dark:text-white">{elements.length} elements</h3>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-sm hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">
+            <X size={16} className="text-slate-500 dark:text-slate-400" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          <Section title="Appearance">
+            <div className="space-y-4">
+              <Slider
+                  label="Opacity"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={first.opacity ?? 1}
+                  onChange={(opacity: number) => onUpdate({ opacity })}
+              />
+
+              {fillable && (
+                  <ColorInput
+                      label={sameFill ? "Fill Color" : "Fill Color (mixed)"}
+                      value={sameFill ? firstFill : ""}
+                      // A solid colour replaces any gradients in the selection
+                      onChange={(fill: string) => onUpdate({ fill, fillGradient: undefined } as Partial<CanvasElement>)}
+                  />
+              )}
+
+              {strokable && (
+                  <ColorInput
+                      label="Stroke Color"
+                      value={first.strokes?.[0]?.color}
+                      onChange={(color: string) => {
+                          const current = first.strokes?.[0];
+                          onUpdate({ strokes: [{ color, width: current?.width || 2, position: current?.position || 'center' }] });
+                      }}
+                  />
+              )}
+            </div>
+          </Section>
+        </div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
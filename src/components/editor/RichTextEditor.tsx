@@ -0,0 +1,380 @@
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Bold, Italic, Underline, UserPen, Check } from 'lucide-react';
+import { TextElement, TextRun } from '@/types/editor';
+import { RunStyle, applyRunStyle, getRunStyle, getRunsInRange, getTextRuns, withRuns } from '@/lib/richText';
+import { browserMeasureText, layoutText } from '@/lib/textLayout';
+import { GOOGLE_FONTS } from '@/lib/fonts';
+import { cn } from '@/lib/utils';
+
+// On-canvas editor for a text element. A contentEditable sits over the hidden
+// Konva node; each run is a span, and the DOM is read back into runs as the
+// creator types. Styles apply to the selection, or to all the text if nothing
+// is selected.
+
+interface RichTextEditorProps {
+  element: TextElement;
+  // Centre of the text and its rotation, in canvas coordinates
+  position: { x: number; y: number; rotation: number };
+  // Canvas units per screen pixel, so the toolbar keeps its size at any zoom
+  pixelSize: number;
+  onCommit: (updates: Pick<TextElement, 'text' | 'runs'>) => void;
+  fontOptions?: string[];
+}
+
+interface TextSelection {
+  start: number;
+  end: number;
+}
+
+// Screen pixels, including the gap to the text
+const TOOLBAR_HEIGHT = 52;
+
+const EDITABLE_RUN_CLASS = 'bg-blue-500/15 outline outline-1 outline-dashed outline-blue-500/60';
+
+// --- DOM <-> RUNS ---
+
+const renderRuns = (root: HTMLElement, runs: TextRun[]) => {
+  root.replaceChildren(
+    ...runs.map((run, i) => {
+      const span = document.createElement('span');
+      span.dataset.run = String(i);
+      span.textContent = run.text;
+      // Unset styles fall through to the root, which carries the element's own
+      if (run.fontFamily) span.style.fontFamily = run.fontFamily;
+      if (run.fontStyle) span.style.fontStyle = run.fontStyle;
+      if (run.fontWeight) span.style.fontWeight = String(run.fontWeight);
+      if (run.fill) span.style.color = run.fill;
+      if (run.underline) span.style.textDecoration = 'underline';
+      if (run.letterSpacing) span.style.letterSpacing = `${run.letterSpacing}px`;
+      if (run.editable) span.className = EDITABLE_RUN_CLASS;
+      return span;
+    })
+  );
+};
+
+// Text typed into a span takes that span's run style; anything the browser puts
+// outside one continues the previous style. Browsers add a placeholder <br> to an
+// empty editable, so those are skipped; line breaks are inserted as "\n" text.
+const readRuns = (root: HTMLElement, rendered: TextRun[]): TextRun[] => {
+  const runs: TextRun[] = [];
+  let style: RunStyle = rendered[0] ? getRunStyle(rendered[0]) : {};
+  const walk = (node: Node) => {
+    node.childNodes.forEach((child) => {
+      if (child.nodeType === Node.TEXT_NODE) {
+        const owner = child.parentElement?.closest<HTMLElement>('[data-run]');
+        const source = owner && root.contains(owner) ? rendered[Number(owner.dataset.run)] : undefined;
+        if (source) style = getRunStyle(source);
+        runs.push({ ...style, text: child.textContent ?? '' });
+      } else if (child.nodeName !== 'BR') {
+        walk(child);
+      }
+    });
+  };
+  walk(root);
+  return runs;
+};
+
+// --- SELECTION ---
+
+const getOffset = (root: HTMLElement, node: Node, offset: number) => {
+  const range = document.createRange();
+  range.selectNodeContents(root);
+  range.setEnd(node, offset);
+  return range.toString().length;
+};
+
+const getSelection = (root: HTMLElement): TextSelection | null => {
+  const selection = window.getSelection();
+  if (!selection?.rangeCount) return null;
+  const range = selection.getRangeAt(0);
+  if (!root.contains(range.startContainer) || !root.contains(range.endContainer)) return null;
+  return {
+    start: getOffset(root, range.startContainer, range.startOffset),
+    end: getOffset(root, range.endContainer, range.endOffset),
+  };
+};
+
+const findPoint = (root: HTMLElement, offset: number): [Node, number] => {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  let remaining = offset;
+  let last: Text | null = null;
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    if (remaining <= node.length) return [node, remaining];
+    remaining -= node.length;
+    last = node;
+  }
+  return last ? [last, last.length] : [root, root.childNodes.length];
+};
+
+const setSelection = (root: HTMLElement, { start, end }: TextSelection) => {
+  const range = document.createRange();
+  range.setStart(...findPoint(root, start));
+  range.setEnd(...findPoint(root, end));
+  const selection = window.getSelection();
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+};
+
+// --- STYLE HELPERS ---
+
+const isBold = (weight: string | number | undefined) => weight === 'bold' || Number(weight) >= 600;
+
+// A run only keeps a style that differs from the element's
+const orInherited = <T,>(value: T, inherited: T) => (value === inherited ? undefined : value);
+
+const toColorInput = (color: string) => (/^#[0-9a-f]{6}$/i.test(color) ? color : '#000000');
+
+// --- COMPONENT ---
+
+export const RichTextEditor: React.FC<RichTextEditorProps> = ({
+  element,
+  position,
+  pixelSize,
+  onCommit,
+  fontOptions = GOOGLE_FONTS,
+}) => {
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const editorRef = useRef<HTMLDivElement>(null);
+  const [runs, setRuns] = useState<TextRun[]>(() => getTextRuns(element));
+  const runsRef = useRef(runs);
+  // Runs the DOM was last built from; span indexes point into this
+  const renderedRef = useRef<TextRun[]>(runs);
+  // Kept while the font select or colour picker has focus
+  const selectionRef = useRef<TextSelection>({ start: 0, end: 0 });
+  const [selection, setSelectionState] = useState<TextSelection>({ start: 0, end: 0 });
+
+  const updateRuns = useCallback((next: TextRun[]) => {
+    runsRef.current = next;
+    setRuns(next);
+  }, []);
+
+  const rebuild = useCallback((next: TextRun[], restore: TextSelection | null) => {
+    const root = editorRef.current;
+    if (!root) return;
+    renderedRef.current = next;
+    renderRuns(root, next);
+    if (restore) setSelection(root, restore);
+  }, []);
+
+  // Build the DOM once and put the caret at the end
+  useLayoutEffect(() => {
+    const root = editorRef.current;
+    if (!root) return;
+    const end = runsRef.current.reduce((n, run) => n + run.text.length, 0);
+    rebuild(runsRef.current, null);
+    root.focus();
+    setSelection(root, { start: end, end });
+  }, [rebuild]);
+
+  const commit = useCallback(() => onCommit(withRuns(runsRef.current)), [onCommit]);
+
+  // Clicking anywhere else finishes editing
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!wrapperRef.current?.contains(e.target as Node)) commit();
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [commit]);
+
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      const root = editorRef.current;
+      const current = root && getSelection(root);
+      if (!current) return;
+      selectionRef.current = current;
+      setSelectionState(current);
+    };
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, []);
+
+  const handleInput = useCallback(() => {
+    if (editorRef.current) updateRuns(readRuns(editorRef.current, renderedRef.current));
+  }, [updateRuns]);
+
+  // Insert plain text at the caret; used for line breaks and paste so no markup gets in
+  const insertText = useCallback((text: string) => {
+    const root = editorRef.current;
+    const current = root && getSelection(root);
+    if (!current) return;
+    const range = window.getSelection()!.getRangeAt(0);
+    range.deleteContents();
+    range.insertNode(document.createTextNode(text));
+    root.normalize();
+    const caret = current.start + text.length;
+    setSelection(root, { start: caret, end: caret });
+    handleInput();
+  }, [handleInput]);
+
+  // Apply a style to the selection, or to everything when the selection is empty
+  const applyStyle = useCallback(
+    (patch: RunStyle, refocus = true) => {
+      const range = selectionRef.current;
+      const total = runsRef.current.reduce((n, run) => n + run.text.length, 0);
+      const [start, end] = range.start === range.end ? [0, total] : [range.start, range.end];
+      const next = applyRunStyle(runsRef.current, start, end, patch);
+      updateRuns(next);
+      rebuild(next, refocus ? range : null);
+      if (refocus) editorRef.current?.focus();
+    },
+    [updateRuns, rebuild]
+  );
+
+  const selected = getRunsInRange(runs, selection.start, selection.end);
+  const first = selected[0] ?? { text: '' };
+  const allBold = selected.every((run) => isBold(run.fontWeight ?? element.fontWeight));
+  const allItalic = selected.every((run) => (run.fontStyle ?? element.fontStyle) === 'italic');
+  const allUnderlined = selected.every((run) => run.underline);
+  const allEditable = selected.every((run) => run.editable);
+
+  const toggleBold = () => applyStyle({ fontWeight: orInherited(allBold ? 400 : 700, element.fontWeight) });
+  const toggleItalic = () =>
+    applyStyle({ fontStyle: orInherited(allItalic ? 'normal' : 'italic', element.fontStyle ?? 'normal') });
+  const toggleUnderline = () => applyStyle({ underline: !allUnderlined || undefined });
+  const toggleEditable = () => applyStyle({ editable: !allEditable || undefined });
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Keep Delete, undo and the other editor shortcuts away from the canvas
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      commit();
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      insertText('\n');
+    } else if (e.metaKey || e.ctrlKey) {
+      const toggle = { b: toggleBold, i: toggleItalic, u: toggleUnderline }[e.key.toLowerCase()];
+      if (toggle) {
+        e.preventDefault();
+        toggle();
+      }
+    }
+  };
+
+  // Spread across the same width as the canvas text; shrink-to-fit shows its current size
+  const layout = layoutText({ ...element, ...withRuns(runs) }, browserMeasureText);
+  // The canvas clips its contents, so text near the top gets the toolbar underneath
+  const toolbarBelow = position.y - layout.height / 2 < TOOLBAR_HEIGHT * pixelSize;
+
+  const buttonClass = (active: boolean) =>
+    cn(
+      'p-1.5 rounded transition-colors',
+      active ? 'bg-slate-200 text-slate-900 dark:bg-slate-700 dark:text-white' : 'text-slate-500 hover:text-slate-900 dark:hover:text-white'
+    );
+
+  return (
+    <div
+      ref={wrapperRef}
+      className="absolute z-30"
+      style={{
+        left: position.x,
+        top: position.y,
+        width: element.width,
+        transform: `translate(-50%, -50%) rotate(${position.rotation}deg)`,
+      }}
+    >
+      {/* Toolbar, kept at screen size; buttons don't take focus from the text */}
+      <div
+        className={cn('absolute left-1/2', toolbarBelow ? 'top-full mt-2' : 'bottom-full mb-2')}
+        style={{
+          transform: `translateX(-50%) scale(${pixelSize})`,
+          transformOrigin: toolbarBelow ? 'top center' : 'bottom center',
+        }}
+      >
+        <div className="flex items-center gap-1 p-1 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-lg whitespace-nowrap">
+          <select
+            className="select-minimal h-7 text-xs"
+            value={first.fontFamily ?? element.fontFamily}
+            onChange={(e) => applyStyle({ fontFamily: orInherited(e.target.value, element.fontFamily) }, false)}
+          >
+            {fontOptions.map((f) => (
+              <option key={f} value={f}>
+                {f}
+              </option>
+            ))}
+          </select>
+          <button className={buttonClass(allBold)} onMouseDown={(e) => e.preventDefault()} onClick={toggleBold} title="Bold">
+            <Bold size={14} />
+          </button>
+          <button className={buttonClass(allItalic)} onMouseDown={(e) => e.preventDefault()} onClick={toggleItalic} title="Italic">
+            <Italic size={14} />
+          </button>
+          <button
+            className={buttonClass(allUnderlined)}
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={toggleUnderline}
+            title="Underline"
+          >
+            <Underline size={14} />
+          </button>
+          <input
+            type="color"
+            className="w-7 h-7 p-0.5 rounded border border-slate-200 dark:border-slate-700 bg-transparent cursor-pointer"
+            value={toColorInput(first.fill ?? element.fill)}
+            onChange={(e) => applyStyle({ fill: orInherited(e.target.value, element.fill) }, false)}
+            title="Color"
+          />
+          <input
+            type="number"
+            className="input-minimal w-14 h-7 px-1 text-xs"
+            value={first.letterSpacing ?? 0}
+            step={0.5}
+            onChange={(e) => applyStyle({ letterSpacing: Number(e.target.value) || undefined }, false)}
+            title="Letter spacing"
+          />
+          <button
+            className={buttonClass(allEditable)}
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={toggleEditable}
+            title="Attendees can edit this text in the Generator"
+          >
+            <UserPen size={14} />
+          </button>
+          <button
+            className="p-1.5 rounded text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-950"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={commit}
+            title="Done"
+          >
+            <Check size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={editorRef}
+        contentEditable
+        suppressContentEditableWarning
+        className="outline-none cursor-text ring-1 ring-blue-500/50"
+        style={{
+          fontFamily: element.fontFamily,
+          fontSize: layout.fontSize,
+          fontWeight: element.fontWeight,
+          fontStyle: element.fontStyle,
+          color: element.fill,
+          textAlign: element.textAlign,
+          lineHeight: `${layout.lineHeight}px`,
+          minHeight: layout.lineHeight,
+          letterSpacing: element.letterSpacing ? `${element.letterSpacing}px` : undefined,
+          textTransform: element.textTransform,
+          // Same look as drawTextLayout: outline behind the fill, shadow under both
+          WebkitTextStroke: element.textStroke?.width ? `${element.textStroke.width * 2}px ${element.textStroke.color}` : undefined,
+          paintOrder: 'stroke fill',
+          textShadow: element.textShadow
+            ? `${element.textShadow.offsetX}px ${element.textShadow.offsetY}px ${element.textShadow.blur}px ${element.textShadow.color}`
+            : undefined,
+          whiteSpace: 'pre-wrap',
+          overflowWrap: 'break-word',
+        }}
+        onInput={handleInput}
+        onKeyDown={handleKeyDown}
+        onPaste={(e) => {
+          e.preventDefault();
+          insertText(e.clipboardData.getData('text/plain'));
+        }}
+        onDrop={(e) => e.preventDefault()}
+      />
+    </div>
+  );
+};
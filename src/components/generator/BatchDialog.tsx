@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { FileSpreadsheet, FileArchive, Download, Loader2, AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { TemplateData } from '@/types/editor';
+import { BatchResult, buildCsvTemplate, runBatch } from '@/lib/batch';
+import { downloadBlob } from '@/lib/download';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface BatchDialogProps {
+  template: TemplateData;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const BatchDialog: React.FC<BatchDialogProps> = ({ template, open, onOpenChange }) => {
+  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [photoArchive, setPhotoArchive] = useState<File | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<BatchResult | null>(null);
+  const isRunning = progress !== null;
+  const zipName = `designs-${template.slug || 'batch'}.zip`;
+
+  const handleDownloadCsvTemplate = () => {
+    downloadBlob(new Blob([buildCsvTemplate(template)], { type: 'text/csv' }), `${template.slug || 'template'}-batch.csv`);
+  };
+
+  const handleGenerate = async () => {
+    if (!csvFile) return;
+    setResult(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      const batch = await runBatch({
+        template,
+        csv: await csvFile.text(),
+        photoArchive,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      setResult(batch);
+      if (batch.rows.length === 0) toast.error('The CSV has no rows.');
+      else if (batch.zip) downloadBlob(batch.zip, zipName);
+      else toast.error('No designs could be generated.');
+    } catch (err) {
+      console.error(err);
+      toast.error(err instanceof Error ? err.message : 'Batch generation failed.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const issues = result?.rows.filter((r) => r.error || r.warnings.length > 0) ?? [];
+  const renderedCount = result ? result.rows.filter((r) => !r.error).length : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isRunning && onOpenChange(next)}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Batch generate</DialogTitle>
+          <DialogDescription>
+            One design per CSV row. Columns are text and photo element ids, with one column per editable
+            part of styled text; photo cells hold a URL or a file name from the photo zip. An optional <code>filename</code> column names each image.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={handleDownloadCsvTemplate}>
+            Download a CSV with this template's columns
+          </Button>
+
+          <label className="flex items-center gap-3 p-3 rounded-lg border border-dashed border-slate-200 dark:border-slate-700 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-900">
+            <FileSpreadsheet className="w-5 h-5 text-slate-400 shrink-0" />
+            <span className="text-sm truncate">{csvFile ? csvFile.name : 'Choose CSV file'}</span>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => setCsvFile(e.target.files?.[0] ?? null)}
+            />
+          </label>
+
+          <label className="flex items-center gap-3 p-3 rounded-lg border border-dashed border-slate-200 dark:border-slate-700 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-900">
+            <FileArchive className="w-5 h-5 text-slate-400 shrink-0" />
+            <span className="text-sm truncate">{photoArchive ? photoArchive.name : 'Photo zip (optional)'}</span>
+            <input
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={(e) => setPhotoArchive(e.target.files?.[0] ?? null)}
+            />
+          </label>
+
+          {isRunning && (
+            <div className="space-y-1">
+              <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} className="h-2" />
+              <p className="text-xs text-slate-500">Rendering {progress.done} of {progress.total || '…'}</p>
+            </div>
+          )}
+
+          {result && (
+            <div className="space-y-2">
+              <p className="flex items-center gap-2 text-sm">
+                <CheckCircle2 className="w-4 h-4 text-green-500" />
+                {renderedCount} of {result.rows.length} designs generated
+              </p>
+              {result.unknownColumns.length > 0 && (
+                <p className="text-xs text-amber-600">Ignored columns: {result.unknownColumns.join(', ')}</p>
+              )}
+              {issues.length > 0 && (
+                <ul className="max-h-48 overflow-y-auto space-y-1 rounded-md border border-slate-100 dark:border-slate-800 p-2">
+                  {issues.map((r) => (
+                    <li key={r.row} className="flex items-start gap-2 text-xs">
+                      {r.error ? (
+                        <AlertCircle className="w-3.5 h-3.5 mt-px shrink-0 text-red-500" />
+                      ) : (
+                        <AlertTriangle className="w-3.5 h-3.5 mt-px shrink-0 text-amber-500" />
+                      )}
+                      <span>
+                        <strong>Row {r.row}:</strong> {[r.error, ...r.warnings].filter(Boolean).join('; ')}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {result.zip && (
+                <Button variant="outline" size="sm" className="gap-2" onClick={() => downloadBlob(result.zip!, zipName)}>
+                  <Download className="w-3.5 h-3.5" /> Download zip again
+                </Button>
+              )}
+            </div>
+          )}
+
+          <Button className="w-full" disabled={!csvFile || isRunning} onClick={handleGenerate}>
+            {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Generate zip'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,209 +1,53 @@
 import React, { useRef, useCallback, useState, useEffect, useMemo, useLayoutEffect } from 'react';
 import { AnimatePresence } from 'framer-motion';
-import { Stage, Layer, Rect, Circle, Line, Text, Image as KonvaImage, Group } from 'react-konva';
+import { Stage, Layer } from 'react-konva';
 import { 
   Download, 
   Image as ImageIcon, 
   Loader2, 
   AlertCircle, 
   ChevronLeft, 
-  Type
+  Type,
+  FileSpreadsheet
 } from 'lucide-react';
 import { useParams, Link } from 'react-router-dom';
-import { CanvasElement, TemplateData, TextElement } from '@/types/editor';
+import { CanvasElement, ExportSettings, TemplateData } from '@/types/editor';
 import { toast } from 'sonner';
 import { getTemplateBySlug } from '@/lib/templates';
-import useImage from 'use-image';
+import { TemplateSchemaError } from '@/lib/templateSchema';
+import { flattenElements, getElementSize, mapElementTree } from '@/lib/elements';
+import {
+  applyTextValues,
+  getFieldLabel,
+  getTextFields,
+  isEditableText,
+  isFieldRequired,
+  isPhotoField,
+  validatePhotoField,
+  validateTextField,
+} from '@/lib/fields';
+import { TemplateRenderError } from '@/lib/renderTemplate';
+import { VectorFormat, browserVectorBackend, exportVector } from '@/lib/vectorExport';
+import { downloadBlob } from '@/lib/download';
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  describeExportSettings,
+  estimateExportSize,
+  exportStage,
+  getExportFileName,
+  getSavedExportSettings,
+  saveExportSettings,
+} from '@/lib/imageExport';
+import { browserMeasureText, layoutText } from '@/lib/textLayout';
+import { getFontFamilies, loadFonts } from '@/lib/fonts';
 import { ImageCropper } from './ImageCropper';
+import { BatchDialog } from './BatchDialog';
+import { ExportDialog } from '@/components/canvas/ExportDialog';
+import { RenderShape } from '@/components/canvas/RenderShape';
+import { CanvasBackground } from '@/components/canvas/CanvasBackground';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 
-// --- HELPER: Background Image ---
-const BackgroundImage: React.FC<{ src: string; width: number; height: number }> = ({ src, width, height }) => {
-  const [image] = useImage(src);
-  
-  if (!image) return null;
-  
-  const imgElement = image as HTMLImageElement;
-  const imgWidth = imgElement.naturalWidth || 1;
-  const imgHeight = imgElement.naturalHeight || 1;
-  const ratio = Math.max(width / imgWidth, height / imgHeight);
-  
-  return (
-    <KonvaImage 
-      image={image} 
-      width={imgWidth * ratio}
-      height={imgHeight * ratio}
-      x={(width - imgWidth * ratio) / 2}
-      y={(height - imgHeight * ratio) / 2}
-    />
-  );
-};
-
-// --- HELPER: Shape with User Image Support ---
-const URLImageShape: React.FC<{ 
-  element: CanvasElement; 
-  src?: string; 
-  children?: React.ReactNode 
-}> = ({ element, src, children }) => {
-  const [image] = useImage(src || '', 'anonymous');
-
-  const fillProps = useMemo(() => {
-    // 1. Safely get fallback fill
-    const fallbackFill = 'fill' in element ? element.fill : undefined;
-
-    if (!image || !src) return { fill: fallbackFill };
-
-    // 2. Safely calculate dimensions based on shape type
-    let shapeWidth = 0;
-    let shapeHeight = 0;
-
-    if (element.type === 'circle' || element.type === 'polygon') {
-        shapeWidth = element.radius * 2;
-        shapeHeight = element.radius * 2;
-    } else if (element.type === 'rect' || element.type === 'image') {
-        shapeWidth = element.width;
-        shapeHeight = element.height;
-    }
-
-    const imgWidth = image.width;
-    const imgHeight = image.height;
-
-    // Calculate scale to cover the shape area (Object-fit: cover)
-    const scale = Math.max(shapeWidth / imgWidth, shapeHeight / imgHeight);
-
-    // Center the pattern
-    const offsetX = (imgWidth * scale - shapeWidth) / 2;
-    const offsetY = (imgHeight * scale - shapeHeight) / 2;
-
-    return {
-      fillPatternImage: image,
-      fillPatternScaleX: scale,
-      fillPatternScaleY: scale,
-      fillPatternOffsetX: offsetX / scale,
-      fillPatternOffsetY: offsetY / scale,
-    };
-  }, [image, src, element]);
-
-  // Extract props common to all shapes
-  const { id, x, y, rotation, opacity, isPlaceholder } = element;
-  
-  const commonProps = {
-    id, x, y, rotation, opacity,
-    listening: isPlaceholder,
-    ...fillProps
-  };
-
-  if (element.type === 'rect') {
-    return (
-      <Group>
-        {children}
-        <Rect
-          {...commonProps}
-          width={element.width}
-          height={element.height}
-          cornerRadius={element.cornerRadius}
-          x={element.x - element.width / 2}
-          y={element.y - element.height / 2}
-        />
-      </Group>
-    );
-  }
-
-  if (element.type === 'circle') {
-    return (
-      <Group>
-        {children}
-        <Circle {...commonProps} radius={element.radius} />
-      </Group>
-    );
-  }
-
-  if (element.type === 'polygon') {
-    const points = Array.from({ length: element.sides || 3 }, (_, i) => {
-      const angle = (Math.PI * 2 * i) / (element.sides || 3) - Math.PI / 2;
-      return [
-        element.x + element.radius * Math.cos(angle),
-        element.y + element.radius * Math.sin(angle),
-      ];
-    }).flat();
-
-    return (
-      <Group>
-        {children}
-        <Line 
-          points={points} 
-          closed 
-          {...commonProps}
-          fill={src ? undefined : element.fill} 
-        />
-      </Group>
-    );
-  }
-
-  if (element.type === 'image') {
-      return (
-        <Group>
-             <Rect 
-                {...commonProps}
-                width={element.width}
-                height={element.height}
-                x={element.x - element.width / 2}
-                y={element.y - element.height / 2}
-             />
-        </Group>
-      )
-  }
-
-  return null;
-};
-
-// --- HELPER: Main Shape Renderer ---
-const RenderShape: React.FC<{ element: CanvasElement; userImage?: string }> = ({ element, userImage }) => {
-  if (element.type === 'text') {
-    // TEXT RENDERING:
-    // We strictly follow the styles set by the creator (align, weight, font).
-    // The user can only change the content (element.text).
-    return (
-      <Text
-        x={element.x}
-        y={element.y}
-        offsetX={element.width / 2}
-        offsetY={element.fontSize / 2}
-        
-        text={element.text}
-        width={element.width}
-        fontSize={element.fontSize}
-        fontFamily={element.fontFamily}
-        fontStyle={element.fontStyle}
-        fontWeight={element.fontWeight} // Respects creator's choice
-        fill={element.fill}
-        
-        align={element.textAlign || 'center'} // Respects creator's choice
-        verticalAlign="middle"
-      />
-    );
-  }
-
-  // Render non-text shapes strokes
-  const strokes = (
-    <>
-      {element.strokes?.map((s, i) => {
-        const commonProps = { key: i, fill: s.color, listening: false };
-        if(element.type === 'rect') {
-            return <Rect {...commonProps} x={element.x - element.width/2 - s.width/2} y={element.y - element.height/2 - s.width/2} width={element.width + s.width} height={element.height + s.width} />
-        }
-        if(element.type === 'circle') {
-            return <Circle {...commonProps} x={element.x} y={element.y} radius={element.radius + s.width/2} />
-        }
-        return null;
-      })}
-    </>
-  );
-
-  return <URLImageShape element={element} src={userImage} children={strokes} />;
-};
-
 export const Generator: React.FC = () => {
   const { slug } = useParams<{ slug: string }>();
   const stageRef = useRef<any>(null);
@@ -213,12 +57,16 @@ export const Generator: React.FC = () => {
   const [template, setTemplate] = useState<TemplateData | null>(null);
   const [elements, setElements] = useState<CanvasElement[]>([]);
   const [userImages, setUserImages] = useState<Record<string, string>>({});
+  const [exportingFormat, setExportingFormat] = useState<VectorFormat | null>(null);
   const [imageToCrop, setImageToCrop] = useState<string | null>(null);
   const [currentCroppingId, setCurrentCroppingId] = useState<string | null>(null);
   const [scale, setScale] = useState(1);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [fontsLoaded, setFontsLoaded] = useState(false);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [savedExportSettings, setSavedExportSettings] = useState<ExportSettings | null>(null);
 
   // 1. Load Template
   useEffect(() => {
@@ -234,7 +82,7 @@ export const Generator: React.FC = () => {
         }
       } catch (err) {
         console.error(err);
-        setError('Failed to load template');
+        setError(err instanceof TemplateSchemaError ? err.message : 'Failed to load template');
       } finally {
         setIsLoading(false);
       }
@@ -242,41 +90,27 @@ export const Generator: React.FC = () => {
     loadTemplate();
   }, [slug]);
 
-  // 2. Dynamic Google Font Loader
   useEffect(() => {
-    if (!elements.length) return;
+    setSavedExportSettings(slug ? getSavedExportSettings(slug) : null);
+  }, [slug]);
 
-    const fontFamilies = new Set<string>();
-    elements.forEach(el => {
-      if (el.type === 'text' && el.fontFamily) {
-        fontFamilies.add(el.fontFamily);
-      }
-    });
+  // 2. Fonts: uploaded files and Google Fonts. A font that never arrives falls
+  // back after FONT_LOAD_TIMEOUT rather than holding the canvas back.
+  useEffect(() => {
+    if (!template) return;
+    let cancelled = false;
 
-    if (fontFamilies.size === 0) {
+    loadFonts(getFontFamilies(template.elements), template.fonts).then((failed) => {
+      if (cancelled) return;
+      if (failed.length > 0) {
+        toast.warning(`Couldn't load ${failed.join(', ')}`, { description: 'Text uses a fallback font instead.' });
+      }
       setFontsLoaded(true);
-      return;
-    }
+      stageRef.current?.batchDraw();
+    });
 
-    // Load fonts (Regular 400 and Bold 700)
-    const familiesQuery = Array.from(fontFamilies)
-      .map(font => `family=${font.replace(/\s+/g, '+')}:wght@400;700`)
-      .join('&');
-    
-    const link = document.createElement('link');
-    link.href = `https://fonts.googleapis.com/css2?${familiesQuery}&display=swap`;
-    link.rel = 'stylesheet';
-    
-    link.onload = () => {
-       document.fonts.ready.then(() => {
-         setFontsLoaded(true); 
-         if(stageRef.current) stageRef.current.batchDraw(); 
-       });
-    };
-    
-    document.head.appendChild(link);
-    return () => { document.head.removeChild(link); };
-  }, [elements]);
+    return () => { cancelled = true; };
+  }, [template]);
 
   // 3. Robust Scaling
   useLayoutEffect(() => {
@@ -296,21 +130,36 @@ export const Generator: React.FC = () => {
     return () => observer.disconnect();
   }, [template]);
 
-  const placeholderElements = useMemo(() => elements.filter((el) => el.isPlaceholder), [elements]);
-  const textElements = useMemo(() => elements.filter((el) => el.type === 'text') as TextElement[], [elements]);
+  // Placeholders and text can sit inside groups, so the sidebar works on the flattened tree
+  const allElements = useMemo(() => flattenElements(elements), [elements]);
+  const placeholderElements = useMemo(() => allElements.filter(isPhotoField), [allElements]);
+  // Creators can lock text so it's part of the design rather than a form field
+  const textElements = useMemo(() => allElements.filter(isEditableText), [allElements]);
+  // Styled text has one input per run the creator left editable
+  const textFields = useMemo(() => getTextFields(textElements), [textElements]);
+  const textErrors = useMemo(
+    () => Object.fromEntries(textFields.map((field) => [field.key, validateTextField(field.element, field.value)])),
+    [textFields]
+  );
+  // Text that the overflow mode had to cut; it still downloads, but the attendee should know.
+  // Measured only once the web fonts are in, since fallback fonts have different widths.
+  const truncatedTexts = useMemo(
+    () => new Set(fontsLoaded ? textElements.filter((el) => layoutText(el, browserMeasureText).truncated).map((el) => el.id) : []),
+    [textElements, fontsLoaded]
+  );
 
   const getPlaceholderAspectRatio = useCallback((id: string) => {
-    const el = elements.find((e) => e.id === id);
+    const el = allElements.find((e) => e.id === id);
     if (!el) return 1;
-    if (el.type === 'circle') return 1;
-    if ('width' in el && 'height' in el) return el.width / el.height;
-    return 1;
-  }, [elements]);
-
-  // Update text content only
-  const handleTextChange = useCallback((id: string, newText: string) => {
-    setElements((prev) => prev.map((el) => 
-        (el.id === id && el.type === 'text') ? { ...el, text: newText } : el
+    // Crop to the shape's box, e.g. wide for a flat ellipse
+    const size = getElementSize(el, browserMeasureText);
+    return size.width > 0 && size.height > 0 ? size.width / size.height : 1;
+  }, [allElements]);
+
+  // Update text content only; `key` is a text field key, so runs keep their styling
+  const handleTextChange = useCallback((key: string, newText: string) => {
+    setElements((prev) => mapElementTree(prev, (el) =>
+        el.type === 'text' ? applyTextValues(el, { [key]: newText }) : el
     ));
   }, []);
 
@@ -338,27 +187,63 @@ export const Generator: React.FC = () => {
     toast.success('Photo applied!');
   }, [currentCroppingId]);
 
-  const handleDownload = useCallback(() => {
-    if (!stageRef.current) return;
+  // A locked preset replaces the options dialog; otherwise the attendee's last choice is remembered
+  const lockedExportSettings = template?.exportSettings?.locked ? template.exportSettings : null;
+  const exportSettings = lockedExportSettings ?? savedExportSettings ?? template?.exportSettings ?? DEFAULT_EXPORT_SETTINGS;
+
+  const handleDownload = useCallback(async (settings: ExportSettings) => {
+    if (!stageRef.current) return false;
     try {
-      const uri = stageRef.current.toDataURL({ pixelRatio: 2, mimeType: 'image/png' });
-      const link = document.createElement('a');
-      link.download = `design-${slug || 'dp'}.png`;
-      link.href = uri;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      downloadBlob(await exportStage(stageRef.current, settings), getExportFileName(`design-${slug || 'dp'}`, settings));
+      if (slug && !settings.locked) {
+        saveExportSettings(slug, settings);
+        setSavedExportSettings(settings);
+      }
       toast.success('Image downloaded!');
+      return true;
     } catch (e) {
       console.error(e);
       toast.error('Could not generate image.');
+      return false;
     }
   }, [slug]);
 
+  const estimateDownloadSize = useCallback(
+    (settings: ExportSettings) => (stageRef.current ? estimateExportSize(stageRef.current, settings) : Promise.resolve(null)),
+    []
+  );
+
+  // Print files are drawn from the template itself, with the photos at their full resolution
+  const handleVectorDownload = useCallback(async (format: VectorFormat) => {
+    if (!template) return;
+    setExportingFormat(format);
+    try {
+      const result = await exportVector({ ...template, elements }, { format, images: userImages }, browserVectorBackend);
+      downloadBlob(new Blob([result.data], { type: result.mimeType }), `design-${slug || 'dp'}.${format}`);
+      toast.success(`${format.toUpperCase()} downloaded!`);
+    } catch (err) {
+      console.error(err);
+      toast.error(err instanceof TemplateRenderError ? err.message : `Could not generate the ${format.toUpperCase()}.`);
+    } finally {
+      setExportingFormat(null);
+    }
+  }, [template, elements, userImages, slug]);
+
   if (isLoading) return <div className="h-screen flex items-center justify-center"><Loader2 className="animate-spin w-8 h-8" /></div>;
-  if (error || !template) return <div className="p-8 text-center text-red-500">Error: {error}</div>;
+  if (error || !template) {
+    return (
+      <div className="h-screen flex flex-col items-center justify-center gap-3 p-8 text-center">
+        <AlertCircle className="w-10 h-10 text-red-400" />
+        <h1 className="text-lg font-semibold">This template can't be used</h1>
+        <p className="max-w-md text-sm text-slate-500">{error ?? 'Template not found'}</p>
+        <Button asChild variant="outline" size="sm"><Link to="/">Back to home</Link></Button>
+      </div>
+    );
+  }
 
-  const isDownloadDisabled = placeholderElements.length > 0 && placeholderElements.some((el) => !userImages[el.id]);
+  const isDownloadDisabled =
+    placeholderElements.some((el) => validatePhotoField(el, !!userImages[el.id])) ||
+    textFields.some((field) => textErrors[field.key]);
 
   return (
     <div className="flex flex-col h-screen overflow-hidden bg-white dark:bg-slate-950 text-slate-900 dark:text-slate-100">
@@ -371,8 +256,29 @@ export const Generator: React.FC = () => {
           </Button>
           <h1 className="text-sm font-semibold">DP Generator</h1>
         </div>
+        {/* Batch rendering draws text straight onto a canvas, so it waits for the fonts */}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="gap-2"
+          disabled={!fontsLoaded}
+          onClick={() => setIsBatchOpen(true)}
+        >
+          <FileSpreadsheet className="w-4 h-4" />
+          <span className="hidden sm:inline">Batch</span>
+        </Button>
       </header>
 
+      <BatchDialog template={template} open={isBatchOpen} onOpenChange={setIsBatchOpen} />
+      <ExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        design={template}
+        settings={exportSettings}
+        estimateSize={estimateDownloadSize}
+        onExport={handleDownload}
+      />
+
       {/* Main Layout */}
       <div className="flex-1 flex flex-col lg:flex-row min-h-0">
         
@@ -392,15 +298,19 @@ export const Generator: React.FC = () => {
             >
               <Stage ref={stageRef} width={template.width} height={template.height}>
                 <Layer>
-                  <Rect width={template.width} height={template.height} fill={template.backgroundColor} />
-                  {template.backgroundImage && (
-                    <BackgroundImage src={template.backgroundImage} width={template.width} height={template.height} />
-                  )}
+                  <CanvasBackground
+                    name="background"
+                    width={template.width}
+                    height={template.height}
+                    color={template.backgroundColor}
+                    gradient={template.backgroundGradient}
+                    image={template.backgroundImage}
+                  />
                   {fontsLoaded && elements.map((el) => (
                     <RenderShape
                       key={el.id}
                       element={el}
-                      userImage={el.isPlaceholder ? userImages[el.id] : undefined}
+                      userImages={userImages}
                     />
                   ))}
                 </Layer>
@@ -418,7 +328,7 @@ export const Generator: React.FC = () => {
               <section className="space-y-3">
                 <h3 className="text-xs font-bold uppercase tracking-widest text-slate-500">Photos</h3>
                 <div className="space-y-3">
-                  {placeholderElements.map((el) => {
+                  {placeholderElements.map((el, i) => {
                     const filled = !!userImages[el.id];
                     return (
                       <button
@@ -438,9 +348,14 @@ export const Generator: React.FC = () => {
                             <ImageIcon className="w-5 h-5 text-slate-400" />
                           )}
                         </div>
-                        <div className="text-left">
-                          <p className="text-sm font-medium">{filled ? "Change Photo" : "Upload Photo"}</p>
-                          <p className="text-xs text-slate-500">Tap to select</p>
+                        <div className="text-left min-w-0">
+                          <p className="text-sm font-medium truncate">
+                            {getFieldLabel(el, i)}
+                            {!isFieldRequired(el) && <span className="ml-1 text-xs font-normal text-slate-400">(optional)</span>}
+                          </p>
+                          <p className="text-xs text-slate-500">
+                            {el.field?.helpText || (filled ? "Tap to change" : "Tap to upload")}
+                          </p>
                         </div>
                       </button>
                     );
@@ -450,23 +365,43 @@ export const Generator: React.FC = () => {
             )}
 
             {/* Text Section (Input only, no style controls) */}
-            {textElements.length > 0 && (
+            {textFields.length > 0 && (
               <section className="space-y-4">
                  <h3 className="text-xs font-bold uppercase tracking-widest text-slate-500 flex items-center gap-2">
                     <Type className="w-3 h-3" /> Text
                  </h3>
                  <div className="space-y-4">
-                    {textElements.map((el, i) => (
-                        <div key={el.id}>
-                            <label className="text-xs font-medium block mb-1.5 text-slate-600">Line {i + 1}</label>
-                            <input 
-                                value={el.text}
-                                onChange={(e) => handleTextChange(el.id, e.target.value)}
-                                className="w-full px-3 py-2 rounded-md border border-slate-200 dark:border-slate-700 bg-transparent text-sm"
-                                placeholder="Type here..."
-                            />
-                        </div>
-                    ))}
+                    {textFields.map(({ key, element: el, label, value }) => {
+                        const error = textErrors[key];
+                        return (
+                            <div key={key}>
+                                <label htmlFor={`field-${key}`} className="text-xs font-medium block mb-1.5 text-slate-600">
+                                    {label}
+                                    {isFieldRequired(el) && <span className="text-red-500"> *</span>}
+                                </label>
+                                <input 
+                                    id={`field-${key}`}
+                                    type={el.field?.preset === 'date' ? 'date' : 'text'}
+                                    value={value}
+                                    maxLength={el.field?.maxLength}
+                                    onChange={(e) => handleTextChange(key, e.target.value)}
+                                    aria-invalid={!!error}
+                                    className={cn(
+                                        "w-full px-3 py-2 rounded-md border bg-transparent text-sm",
+                                        error ? "border-red-400" : "border-slate-200 dark:border-slate-700"
+                                    )}
+                                    placeholder="Type here..."
+                                />
+                                {error ? (
+                                    <p className="mt-1 text-xs text-red-500">{error}</p>
+                                ) : truncatedTexts.has(el.id) ? (
+                                    <p className="mt-1 text-xs text-amber-600">Too long to fit; the end will be cut off.</p>
+                                ) : el.field?.helpText ? (
+                                    <p className="mt-1 text-xs text-slate-500">{el.field.helpText}</p>
+                                ) : null}
+                            </div>
+                        );
+                    })}
                  </div>
               </section>
             )}
@@ -475,13 +410,31 @@ export const Generator: React.FC = () => {
           {/* Footer Actions */}
           <div className="p-4 border-t border-slate-100 dark:border-slate-800 bg-white dark:bg-slate-950">
             <Button 
-                onClick={handleDownload} 
+                onClick={() => (lockedExportSettings ? handleDownload(lockedExportSettings) : setIsExportOpen(true))} 
                 disabled={isDownloadDisabled}
                 className="w-full rounded-full h-12 text-base font-medium shadow-lg shadow-blue-500/20"
             >
                 <Download className="w-5 h-5 mr-2" />
                 Download Image
             </Button>
+            {lockedExportSettings && (
+              <p className="mt-2 text-center text-xs text-slate-500">{describeExportSettings(lockedExportSettings, template)}</p>
+            )}
+            <div className="mt-2 grid grid-cols-2 gap-2">
+              {(['svg', 'pdf'] as const).map((format) => (
+                <Button
+                  key={format}
+                  variant="ghost"
+                  size="sm"
+                  disabled={isDownloadDisabled || exportingFormat !== null}
+                  onClick={() => handleVectorDownload(format)}
+                  className="rounded-full text-xs"
+                >
+                  {exportingFormat === format && <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />}
+                  {format.toUpperCase()} for print
+                </Button>
+              ))}
+            </div>
           </div>
         </aside>
 
@@ -1,15 +1,164 @@
 // src/hooks/useCanvas.ts
-import { useState, useCallback, useEffect } from 'react';
-import { CanvasElement, ShapeType } from '@/types/editor';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { AlignMode, AlignRelativeTo, CanvasElement, CustomFont, DistributeAxis, ExportSettings, Gradient, PrintSize, ShapeType } from '@/types/editor';
+import {
+  cloneElement,
+  createGroup,
+  filterElementTree,
+  flattenElements,
+  generateId,
+  getAlignmentChanges,
+  getDistributionChanges,
+  getRotatedBounds,
+  mapElementTree,
+  releaseGroup,
+  scaleElement,
+} from '@/lib/elements';
+import { browserMeasureText } from '@/lib/textLayout';
+import { CURRENT_SCHEMA_VERSION } from '@/lib/templateSchema';
 
-const generateId = () => Math.random().toString(36).substring(2, 11);
+
+// How many undo steps we keep, and how close together (ms) two edits with the
+// same merge key must be to collapse into one step (slider scrubs, color drags).
+const HISTORY_LIMIT = 100;
+const HISTORY_MERGE_WINDOW = 800;
+
+interface CanvasSnapshot {
+  elements: CanvasElement[];
+  canvasSize: { width: number; height: number };
+  backgroundColor: string;
+  backgroundGradient: Gradient | null;
+  backgroundImage: string | null;
+  fonts: CustomFont[];
+  printSize: PrintSize | null;
+}
 
 export const useCanvas = () => {
   const [elements, setElements] = useState<CanvasElement[]>([]);
-  const [selectedId, setSelectedId] = useState<string | null>(null);
-  const [canvasSize, setCanvasSize] = useState({ width: 1080, height: 1080 }); // <-- expose setter
-  const [backgroundColor, setBackgroundColor] = useState('#ffffff');
-  const [backgroundImage, setBackgroundImage] = useState<string | null>(null);
+  // Selection order matters: the last id is the "primary" element shown in the PropertiesPanel
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const selectedId = selectedIds.length > 0 ? selectedIds[selectedIds.length - 1] : null;
+  const [canvasSize, setCanvasSizeState] = useState({ width: 1080, height: 1080 });
+  const [backgroundColor, setBackgroundColorState] = useState('#ffffff');
+  const [backgroundGradient, setBackgroundGradientState] = useState<Gradient | null>(null);
+  const [backgroundImage, setBackgroundImageState] = useState<string | null>(null);
+  const [fonts, setFontsState] = useState<CustomFont[]>([]);
+  const [printSize, setPrintSizeState] = useState<PrintSize | null>(null);
+  // Not part of the design, so changing them isn't an undo step
+  const [exportSettings, setExportSettings] = useState<ExportSettings | null>(null);
+
+  // --- HISTORY ---
+  const [past, setPast] = useState<CanvasSnapshot[]>([]);
+  const [future, setFuture] = useState<CanvasSnapshot[]>([]);
+  const lastCommitRef = useRef<{ key: string; time: number } | null>(null);
+
+  const snapshot = useMemo<CanvasSnapshot>(
+    () => ({ elements, canvasSize, backgroundColor, backgroundGradient, backgroundImage, fonts, printSize }),
+    [elements, canvasSize, backgroundColor, backgroundGradient, backgroundImage, fonts, printSize]
+  );
+  const snapshotRef = useRef(snapshot);
+  snapshotRef.current = snapshot;
+
+  // Push the current state onto the undo stack before a mutation. Calls sharing
+  // a mergeKey within HISTORY_MERGE_WINDOW reuse the entry of the first call.
+  const recordHistory = useCallback((mergeKey?: string) => {
+    const now = Date.now();
+    const last = lastCommitRef.current;
+    lastCommitRef.current = mergeKey ? { key: mergeKey, time: now } : null;
+    if (mergeKey && last && last.key === mergeKey && now - last.time < HISTORY_MERGE_WINDOW) return;
+
+    const current = snapshotRef.current;
+    // Several mutations fired from the same event see the same snapshot; only keep one.
+    setPast((prev) => (prev[prev.length - 1] === current ? prev : [...prev, current].slice(-HISTORY_LIMIT)));
+    setFuture([]);
+  }, []);
+
+  const applySnapshot = useCallback((target: CanvasSnapshot) => {
+    setElements(target.elements);
+    setCanvasSizeState(target.canvasSize);
+    setBackgroundColorState(target.backgroundColor);
+    setBackgroundGradientState(target.backgroundGradient);
+    setBackgroundImageState(target.backgroundImage);
+    setFontsState(target.fonts);
+    setPrintSizeState(target.printSize);
+    const remaining = flattenElements(target.elements);
+    setSelectedIds((ids) => ids.filter((id) => remaining.some((el) => el.id === id)));
+  }, []);
+
+  const undo = useCallback(() => {
+    if (past.length === 0) return;
+    const previous = past[past.length - 1];
+    setPast(past.slice(0, -1));
+    setFuture([snapshotRef.current, ...future]);
+    lastCommitRef.current = null;
+    applySnapshot(previous);
+  }, [past, future, applySnapshot]);
+
+  const redo = useCallback(() => {
+    if (future.length === 0) return;
+    const [next, ...rest] = future;
+    setPast([...past, snapshotRef.current]);
+    setFuture(rest);
+    lastCommitRef.current = null;
+    applySnapshot(next);
+  }, [past, future, applySnapshot]);
+
+  // --- SELECTION ---
+  const setSelectedId = useCallback((id: string | null) => setSelectedIds(id ? [id] : []), []);
+
+  // additive (shift-click) toggles the element in or out of the current selection
+  const selectElement = useCallback((id: string | null, additive = false) => {
+    if (!id) {
+      if (!additive) setSelectedIds([]);
+      return;
+    }
+    if (!additive) {
+      setSelectedIds([id]);
+      return;
+    }
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]));
+  }, []);
+
+  const setCanvasSize = useCallback((size: { width: number; height: number }) => {
+    recordHistory();
+    setCanvasSizeState(size);
+  }, [recordHistory]);
+
+  const setBackgroundColor = useCallback((color: string) => {
+    recordHistory('backgroundColor');
+    setBackgroundColorState(color);
+  }, [recordHistory]);
+
+  // null switches back to the solid backgroundColor
+  const setBackgroundGradient = useCallback((gradient: Gradient | null) => {
+    recordHistory('backgroundGradient');
+    setBackgroundGradientState(gradient);
+  }, [recordHistory]);
+
+  const setBackgroundImage = useCallback((image: string | null) => {
+    recordHistory();
+    setBackgroundImageState(image);
+  }, [recordHistory]);
+
+  // Uploading the same family, weight and style again replaces the earlier file
+  const addFont = useCallback((font: CustomFont) => {
+    recordHistory();
+    setFontsState((prev) => [
+      ...prev.filter((f) => f.family !== font.family || String(f.weight) !== String(font.weight) || f.style !== font.style),
+      font,
+    ]);
+  }, [recordHistory]);
+
+  const removeFont = useCallback((font: CustomFont) => {
+    recordHistory();
+    setFontsState((prev) => prev.filter((f) => f !== font));
+  }, [recordHistory]);
+
+  // null prints at 96 canvas pixels per inch
+  const setPrintSize = useCallback((size: PrintSize | null) => {
+    recordHistory('printSize');
+    setPrintSizeState(size);
+  }, [recordHistory]);
 
   // --- Auto adjust canvas size when backgroundImage changes (optional) ---
   useEffect(() => {
@@ -24,7 +173,8 @@ export const useCanvas = () => {
     };
   }, [backgroundImage]);
 
-  const addElement = useCallback((type: ShapeType) => {
+  // `props` overrides the defaults, e.g. the geometry of a path drawn with the pen tool
+  const addElement = useCallback((type: ShapeType, props?: Partial<CanvasElement>) => {
     const baseProps = {
       id: generateId(),
       x: canvasSize.width / 2,
@@ -44,8 +194,6 @@ export const useCanvas = () => {
           height: 200,
           cornerRadius: 0,
           fill: '#e5e7eb',
-          stroke: '#9ca3af',
-          strokeWidth: 0,
         };
         break;
       case 'circle':
@@ -54,8 +202,6 @@ export const useCanvas = () => {
           type: 'circle',
           radius: 100,
           fill: '#e5e7eb',
-          stroke: '#9ca3af',
-          strokeWidth: 0,
         };
         break;
       case 'polygon':
@@ -65,8 +211,56 @@ export const useCanvas = () => {
           sides: 6,
           radius: 100,
           fill: '#e5e7eb',
-          stroke: '#9ca3af',
-          strokeWidth: 0,
+        };
+        break;
+      case 'ellipse':
+        newElement = {
+          ...baseProps,
+          type: 'ellipse',
+          radiusX: 150,
+          radiusY: 100,
+          fill: '#e5e7eb',
+        };
+        break;
+      case 'ring':
+        newElement = {
+          ...baseProps,
+          type: 'ring',
+          radius: 150,
+          innerRadius: 130,
+          fill: '#e5e7eb',
+        };
+        break;
+      case 'star':
+        newElement = {
+          ...baseProps,
+          type: 'star',
+          numPoints: 5,
+          radius: 100,
+          innerRadius: 45,
+          fill: '#e5e7eb',
+        };
+        break;
+      case 'line':
+        newElement = {
+          ...baseProps,
+          type: 'line',
+          length: 300,
+          stroke: '#1f2937',
+          strokeWidth: 6,
+          lineCap: 'round',
+          startHead: 'none',
+          endHead: 'none',
+        };
+        break;
+      case 'path':
+        newElement = {
+          ...baseProps,
+          type: 'path',
+          data: 'M0 100 C0 40 60 0 200 0 C200 140 160 200 100 200 C40 200 0 160 0 100 Z',
+          width: 200,
+          height: 200,
+          fill: '#e5e7eb',
         };
         break;
       case 'text':
@@ -78,99 +272,233 @@ export const useCanvas = () => {
           fontFamily: 'Inter',
           fontStyle: 'normal',
           fontWeight: 400,
+          textAlign: 'center',
           fill: '#1f2937',
-          stroke: '',
-          strokeWidth: 0,
           width: 300,
-        } as CanvasElement;
+        };
         break;
       default:
         return;
     }
+    if (props) newElement = { ...newElement, ...props } as CanvasElement;
 
+    recordHistory();
     setElements((prev) => [...prev, newElement]);
-    setSelectedId(newElement.id);
-  }, [canvasSize]);
+    setSelectedIds([newElement.id]);
+  }, [canvasSize, recordHistory]);
 
-  const updateElement = useCallback((id: string, updates: Partial<CanvasElement>) => {
+  // Place artwork laid out in its own `size` box (e.g. an imported SVG): the box is
+  // shrunk to fit the canvas if needed and centred on it
+  const addArtwork = useCallback((element: CanvasElement, size: { width: number; height: number }) => {
+    const scale = Math.min(1, canvasSize.width / size.width, canvasSize.height / size.height);
+    const scaled = scale < 1 ? scaleElement(element, scale, scale) : element;
+    const placed = {
+      ...scaled,
+      x: scaled.x + (canvasSize.width - size.width * scale) / 2,
+      y: scaled.y + (canvasSize.height - size.height * scale) / 2,
+    } as CanvasElement;
+
+    recordHistory();
+    setElements((prev) => [...prev, placed]);
+    setSelectedIds([placed.id]);
+  }, [canvasSize, recordHistory]);
+
+  // Apply per-element updates in one step (group transforms, shared property edits).
+  // Repeated updates to the same properties of the same elements (drags, slider
+  // scrubs) merge into a single history entry.
+  const updateElements = useCallback((changes: Record<string, Partial<CanvasElement>>) => {
+    const ids = Object.keys(changes);
+    if (ids.length === 0) return;
+    const keys = new Set(ids.flatMap((id) => Object.keys(changes[id])));
+    recordHistory(`update:${[...ids].sort().join(',')}:${[...keys].sort().join(',')}`);
+    // Elements inside groups can be edited from the Layers tree, so walk the whole tree
     setElements((prev) =>
-      prev.map((el) => (el.id === id ? { ...el, ...updates } as CanvasElement : el))
+      mapElementTree(prev, (el) => (changes[el.id] ? { ...el, ...changes[el.id] } as CanvasElement : el))
     );
-  }, []);
+  }, [recordHistory]);
 
-  const deleteElement = useCallback((id: string) => {
-    setElements((prev) => prev.filter((el) => el.id !== id));
-    if (selectedId === id) setSelectedId(null);
-  }, [selectedId]);
+  const updateElement = useCallback((id: string, updates: Partial<CanvasElement>) => {
+    updateElements({ [id]: updates });
+  }, [updateElements]);
 
-  const duplicateElement = useCallback((id: string) => {
-    const element = elements.find((el) => el.id === id);
-    if (!element) return;
+  const deleteElements = useCallback((ids: string[]) => {
+    if (ids.length === 0) return;
+    recordHistory();
+    setElements((prev) => filterElementTree(prev, (el) => !ids.includes(el.id)));
+    setSelectedIds((prev) => prev.filter((id) => !ids.includes(id)));
+  }, [recordHistory]);
 
-    const newElement: CanvasElement = {
-      ...element,
-      id: generateId(),
-      x: element.x + 20,
-      y: element.y + 20,
-    } as CanvasElement;
+  const duplicateElements = useCallback((ids: string[]) => {
+    // Keep the stacking order of the originals for the copies
+    const copies = elements
+      .filter((el) => ids.includes(el.id))
+      .map((el) => ({ ...cloneElement(el), x: el.x + 20, y: el.y + 20 }) as CanvasElement);
+    if (copies.length === 0) return;
 
-    setElements((prev) => [...prev, newElement]);
-    setSelectedId(newElement.id);
-  }, [elements]);
+    recordHistory();
+    setElements((prev) => [...prev, ...copies]);
+    setSelectedIds(copies.map((el) => el.id));
+  }, [elements, recordHistory]);
 
-  const moveElement = useCallback((id: string, direction: 'up' | 'down') => {
+  const moveElements = useCallback((ids: string[], direction: 'up' | 'down') => {
+    if (ids.length === 0) return;
+    recordHistory();
     setElements((prev) => {
-      const index = prev.findIndex((el) => el.id === id);
-      if (index === -1) return prev;
-
       const newElements = [...prev];
-      const targetIndex = direction === 'up' ? index + 1 : index - 1;
+      const step = direction === 'up' ? 1 : -1;
+      const indices = newElements.map((_, i) => i);
+      // Walk from the side we're moving towards so adjacent selected elements move as a block
+      if (direction === 'up') indices.reverse();
 
-      if (targetIndex < 0 || targetIndex >= newElements.length) return prev;
+      let changed = false;
+      for (const index of indices) {
+        if (!ids.includes(newElements[index].id)) continue;
+        const targetIndex = index + step;
+        if (targetIndex < 0 || targetIndex >= newElements.length) continue;
+        if (ids.includes(newElements[targetIndex].id)) continue;
 
-      [newElements[index], newElements[targetIndex]] = [newElements[targetIndex], newElements[index]];
-      return newElements;
+        [newElements[index], newElements[targetIndex]] = [newElements[targetIndex], newElements[index]];
+        changed = true;
+      }
+      return changed ? newElements : prev;
     });
-  }, []);
+  }, [recordHistory]);
+
+  // Only top-level elements can be grouped; the group takes the stacking slot of the topmost member
+  const groupElements = useCallback((ids: string[]) => {
+    const members = elements.filter((el) => ids.includes(el.id));
+    if (members.length < 2) return;
+    const group = createGroup(generateId(), members, browserMeasureText);
+    if (!group) return;
+
+    const insertAt = Math.max(...members.map((el) => elements.indexOf(el))) - (members.length - 1);
+    const rest = elements.filter((el) => !ids.includes(el.id));
+
+    recordHistory();
+    setElements([...rest.slice(0, insertAt), group, ...rest.slice(insertAt)]);
+    setSelectedIds([group.id]);
+  }, [elements, recordHistory]);
+
+  const ungroupElements = useCallback((ids: string[]) => {
+    if (!elements.some((el) => el.type === 'group' && ids.includes(el.id))) return;
+
+    const released: string[] = [];
+    const next = elements.flatMap((el) => {
+      if (el.type !== 'group' || !ids.includes(el.id)) return [el];
+      const children = releaseGroup(el);
+      released.push(...children.map((child) => child.id));
+      return children;
+    });
+
+    recordHistory();
+    setElements(next);
+    setSelectedIds(released);
+  }, [elements, recordHistory]);
+
+  // Align and distribute work on top-level elements, like grouping; each call is its own undo step
+  const applyPositionChanges = useCallback((changes: Record<string, Partial<CanvasElement>>) => {
+    if (Object.keys(changes).length === 0) return;
+    recordHistory();
+    setElements((prev) => prev.map((el) => (changes[el.id] ? { ...el, ...changes[el.id] } as CanvasElement : el)));
+  }, [recordHistory]);
+
+  const alignElements = useCallback((ids: string[], mode: AlignMode, relativeTo: AlignRelativeTo) => {
+    const targets = elements.filter((el) => ids.includes(el.id));
+    // A single element can only be aligned to the canvas
+    const bounds = relativeTo === 'canvas' || targets.length < 2
+      ? { x: 0, y: 0, width: canvasSize.width, height: canvasSize.height }
+      : getRotatedBounds(targets, browserMeasureText);
+    if (!bounds) return;
+    applyPositionChanges(getAlignmentChanges(targets, mode, bounds, browserMeasureText));
+  }, [elements, canvasSize, applyPositionChanges]);
+
+  const distributeElements = useCallback((ids: string[], axis: DistributeAxis) => {
+    applyPositionChanges(getDistributionChanges(elements.filter((el) => ids.includes(el.id)), axis, browserMeasureText));
+  }, [elements, applyPositionChanges]);
+
+  const getSelectedElement = useCallback(
+    () => flattenElements(elements).find((el) => el.id === selectedId) || null,
+    [elements, selectedId]
+  );
 
-  const getSelectedElement = useCallback(() => elements.find((el) => el.id === selectedId) || null, [elements, selectedId]);
+  const getSelectedElements = useCallback(
+    () => flattenElements(elements).filter((el) => selectedIds.includes(el.id)),
+    [elements, selectedIds]
+  );
 
-  const clearSelection = useCallback(() => setSelectedId(null), []);
+  const clearSelection = useCallback(() => setSelectedIds([]), []);
 
   const exportTemplate = useCallback(() => ({
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     name: 'Untitled Template',
     width: canvasSize.width,
     height: canvasSize.height,
     elements,
     backgroundColor,
+    backgroundGradient: backgroundGradient ?? undefined,
     backgroundImage,
-  }), [elements, canvasSize, backgroundColor, backgroundImage]);
+    fonts,
+    printSize: printSize ?? undefined,
+    exportSettings: exportSettings ?? undefined,
+  }), [elements, canvasSize, backgroundColor, backgroundGradient, backgroundImage, fonts, printSize, exportSettings]);
 
-  const importTemplate = useCallback((template: { elements: CanvasElement[]; backgroundColor?: string; backgroundImage?: string | null }) => {
+  // Loading a template starts a fresh history
+  const importTemplate = useCallback((template: { elements: CanvasElement[]; backgroundColor?: string; backgroundGradient?: Gradient; backgroundImage?: string | null; width?: number; height?: number; fonts?: CustomFont[]; printSize?: PrintSize; exportSettings?: ExportSettings }) => {
     setElements(template.elements);
-    if (template.backgroundColor) setBackgroundColor(template.backgroundColor);
-    if (template.backgroundImage !== undefined) setBackgroundImage(template.backgroundImage);
-    setSelectedId(null);
+    setFontsState(template.fonts ?? []);
+    setPrintSizeState(template.printSize ?? null);
+    setExportSettings(template.exportSettings ?? null);
+    if (template.width && template.height) setCanvasSizeState({ width: template.width, height: template.height });
+    if (template.backgroundColor) setBackgroundColorState(template.backgroundColor);
+    setBackgroundGradientState(template.backgroundGradient ?? null);
+    if (template.backgroundImage !== undefined) setBackgroundImageState(template.backgroundImage);
+    setSelectedIds([]);
+    setPast([]);
+    setFuture([]);
+    lastCommitRef.current = null;
   }, []);
 
   return {
     elements,
     selectedId,
+    selectedIds,
     setSelectedId,
+    setSelectedIds,
+    selectElement,
     canvasSize,
     setCanvasSize, // <-- expose setter so Editor can change canvas size on BG upload
     backgroundColor,
     setBackgroundColor,
+    backgroundGradient,
+    setBackgroundGradient,
     backgroundImage,
     setBackgroundImage,
+    fonts,
+    addFont,
+    removeFont,
+    printSize,
+    setPrintSize,
+    exportSettings,
+    setExportSettings,
     addElement,
+    addArtwork,
     updateElement,
-    deleteElement,
-    duplicateElement,
-    moveElement,
+    updateElements,
+    deleteElements,
+    duplicateElements,
+    moveElements,
+    groupElements,
+    ungroupElements,
+    alignElements,
+    distributeElements,
     getSelectedElement,
+    getSelectedElements,
     clearSelection,
     exportTemplate,
     importTemplate,
+    undo,
+    redo,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
   };
 };
\ No newline at end of file
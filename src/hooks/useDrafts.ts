@@ -0,0 +1,112 @@
+// src/hooks/useDrafts.ts
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { DraftData, DraftSummary } from '@/types/editor';
+import { listDrafts, loadDraft, saveDraft, renameDraft, deleteDraft, getLastDraftId } from '@/lib/drafts';
+
+// Wait this long (ms) after the last edit before writing the draft
+const AUTOSAVE_DELAY = 1000;
+
+const defaultDraftName = () =>
+  `Draft · ${new Date().toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}`;
+
+interface UseDraftsOptions {
+  // Current editor state; its identity changes whenever the canvas does
+  exportTemplate: () => DraftData['template'];
+  // Only autosave once the user has actually changed something this session
+  hasEdits: boolean;
+  slug: string | null;
+}
+
+export const useDrafts = ({ exportTemplate, hasEdits, slug }: UseDraftsOptions) => {
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [drafts, setDrafts] = useState<DraftSummary[]>([]);
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  // Read inside the debounced save so renames don't restart the timer
+  const draftRef = useRef({ id: draftId, name: draftName, slug });
+  draftRef.current = { id: draftId, name: draftName, slug };
+
+  const refreshDrafts = useCallback(async () => {
+    setDrafts(await listDrafts());
+  }, []);
+
+  useEffect(() => {
+    refreshDrafts();
+  }, [refreshDrafts]);
+
+  // --- AUTOSAVE ---
+  useEffect(() => {
+    if (!hasEdits) return;
+
+    const timer = setTimeout(async () => {
+      const current = draftRef.current;
+      const id = current.id ?? crypto.randomUUID();
+      const name = current.name || defaultDraftName();
+      const updatedAt = new Date().toISOString();
+      // Claim the id before writing, so a save that starts while this one is
+      // still running goes into the same draft instead of creating another
+      if (!current.id) {
+        draftRef.current = { ...current, id, name };
+        setDraftId(id);
+        setDraftName(name);
+      }
+
+      const ok = await saveDraft({ id, name, updatedAt, slug: current.slug, template: exportTemplate() });
+      if (!ok) return;
+      setLastSavedAt(updatedAt);
+      refreshDrafts();
+    }, AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [exportTemplate, hasEdits, refreshDrafts]);
+
+  // Draft from the previous session, if it belongs to the template being opened
+  const getLastSessionDraft = useCallback(async () => {
+    const lastId = getLastDraftId();
+    if (!lastId) return null;
+    const draft = await loadDraft(lastId);
+    return draft && draft.slug === slug ? draft : null;
+  }, [slug]);
+
+  // Continue autosaving into an existing draft; the caller loads its template
+  const openDraft = useCallback(async (id: string) => {
+    const draft = await loadDraft(id);
+    if (!draft) return null;
+    setDraftId(draft.id);
+    setDraftName(draft.name);
+    setLastSavedAt(draft.updatedAt);
+    return draft;
+  }, []);
+
+  // The next autosave starts a fresh draft
+  const startNewDraft = useCallback(() => {
+    setDraftId(null);
+    setDraftName('');
+    setLastSavedAt(null);
+  }, []);
+
+  const rename = useCallback(async (name: string) => {
+    setDraftName(name);
+    if (draftId && (await renameDraft(draftId, name))) refreshDrafts();
+  }, [draftId, refreshDrafts]);
+
+  const remove = useCallback(async (id: string) => {
+    const ok = await deleteDraft(id);
+    if (ok && id === draftId) startNewDraft();
+    refreshDrafts();
+    return ok;
+  }, [draftId, startNewDraft, refreshDrafts]);
+
+  return {
+    draftId,
+    draftName,
+    drafts,
+    lastSavedAt,
+    refreshDrafts,
+    getLastSessionDraft,
+    openDraft,
+    startNewDraft,
+    renameDraft: rename,
+    deleteDraft: remove,
+  };
+};
@@ -0,0 +1,62 @@
+// src/hooks/useElementEffects.ts
+import { RefObject, useCallback, useEffect, useLayoutEffect } from 'react';
+import Konva from 'konva';
+import { CanvasElement } from '@/types/editor';
+import { applyEffects, getCompositeOperation, getEffectsPadding, hasEffects } from '@/lib/effects';
+import { EXPORT_PIXEL_RATIO } from '@/lib/renderTemplate';
+import { EFFECTS_CACHE_ATTR } from '@/lib/imageExport';
+
+// Shadow, blur and blend mode for an element's Konva group. The group is drawn
+// from a cache, which a filter turns into the finished layer (see lib/effects).
+// The cache is rebuilt when the element or its photo changes; call the returned
+// function when something inside moves without a re-render, e.g. a photo drag.
+export const useElementEffects = (
+  groupRef: RefObject<Konva.Group>,
+  element: CanvasElement,
+  image?: HTMLImageElement | HTMLCanvasElement
+) => {
+  const refresh = useCallback(() => {
+    const node = groupRef.current;
+    if (!node) return;
+    node.clearCache();
+    // Applied by Konva when it draws the cache
+    node.globalCompositeOperation(getCompositeOperation(element.blendMode));
+    if (!hasEffects(element)) {
+      node.filters([]);
+      node.setAttr(EFFECTS_CACHE_ATTR, undefined);
+      return;
+    }
+
+    // Sharp enough for the 2x download and high-density screens; larger exports
+    // cache again at their own resolution (see lib/imageExport)
+    const cacheEffects = (pixelRatio = Math.max(EXPORT_PIXEL_RATIO, window.devicePixelRatio || 1)) => {
+      node.filters([
+        (imageData: ImageData) => {
+          const layer = Object.assign(document.createElement('canvas'), { width: imageData.width, height: imageData.height });
+          const layerCtx = layer.getContext('2d');
+          layerCtx.putImageData(imageData, 0, 0);
+          const output = Object.assign(document.createElement('canvas'), { width: imageData.width, height: imageData.height });
+          const outputCtx = output.getContext('2d');
+          applyEffects(outputCtx, layer, layerCtx, element, { a: pixelRatio, b: 0, c: 0, d: pixelRatio });
+          imageData.data.set(outputCtx.getImageData(0, 0, output.width, output.height).data);
+        },
+      ]);
+      node.cache({ offset: getEffectsPadding(element), pixelRatio });
+    };
+    node.setAttr(EFFECTS_CACHE_ATTR, cacheEffects);
+    cacheEffects();
+  }, [groupRef, element]);
+
+  useLayoutEffect(refresh, [refresh, image]);
+
+  // Text is laid out again once its fonts arrive, so the cache has to follow;
+  // waiting a frame lets that re-render land first
+  useEffect(() => {
+    if (!hasEffects(element)) return;
+    const handleFontsLoaded = () => requestAnimationFrame(refresh);
+    document.fonts.addEventListener('loadingdone', handleFontsLoaded);
+    return () => document.fonts.removeEventListener('loadingdone', handleFontsLoaded);
+  }, [element, refresh]);
+
+  return refresh;
+};
@@ -17,37 +17,55 @@ export type Database = {
       templates: {
         Row: {
           background_color: string
+          background_gradient: Json | null
           background_image: string | null
           canvas_height: number
           canvas_width: number
           created_at: string
           elements: Json
+          export_settings: Json | null
+          fonts: Json
           id: string
           name: string
+          owner_id: string | null
+          print_size: Json | null
+          schema_version: number
           slug: string
           updated_at: string
         }
         Insert: {
           background_color?: string
+          background_gradient?: Json | null
           background_image?: string | null
           canvas_height?: number
           canvas_width?: number
           created_at?: string
           elements?: Json
+          export_settings?: Json | null
+          fonts?: Json
           id?: string
           name?: string
+          owner_id?: string | null
+          print_size?: Json | null
+          schema_version?: number
           slug: string
           updated_at?: string
         }
         Update: {
           background_color?: string
+          background_gradient?: Json | null
           background_image?: string | null
           canvas_height?: number
           canvas_width?: number
           created_at?: string
           elements?: Json
+          export_settings?: Json | null
+          fonts?: Json
           id?: string
           name?: string
+          owner_id?: string | null
+          print_size?: Json | null
+          schema_version?: number
           slug?: string
           updated_at?: string
         }
@@ -0,0 +1,91 @@
+import { supabase } from '@/integrations/supabase/client';
+import { CanvasElement, TemplateData } from '@/types/editor';
+import { flattenElements, mapElementTree } from '@/lib/elements';
+
+// Public bucket for template images and fonts, see the storage migration in supabase/migrations
+const ASSET_BUCKET = 'template-assets';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'font/ttf': 'ttf',
+  'font/otf': 'otf',
+  'font/woff2': 'woff2',
+};
+
+// Uploads already done this session, so republishing doesn't re-hash every image
+const uploadedAssets = new Map<string, string>();
+
+export const isDataUrl = (value: string | null | undefined): value is string =>
+  !!value && value.startsWith('data:');
+
+const hashBlob = async (blob: Blob) => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// Files are named after their content hash, so the same image is only ever stored once
+export const uploadAsset = async (dataUrl: string): Promise<string | null> => {
+  const cached = uploadedAssets.get(dataUrl);
+  if (cached) return cached;
+
+  try {
+    const blob = await (await fetch(dataUrl)).blob();
+    const path = `${await hashBlob(blob)}.${EXTENSIONS[blob.type] || 'bin'}`;
+
+    const { error } = await supabase.storage
+      .from(ASSET_BUCKET)
+      .upload(path, blob, { contentType: blob.type, cacheControl: '31536000', upsert: false });
+
+    // 409: an identical file was uploaded before, which is exactly what we want
+    const isDuplicate = error && 'statusCode' in error && error.statusCode === '409';
+    if (error && !isDuplicate) {
+      console.error('Error uploading asset:', error);
+      return null;
+    }
+
+    const { data } = supabase.storage.from(ASSET_BUCKET).getPublicUrl(path);
+    uploadedAssets.set(dataUrl, data.publicUrl);
+    return data.publicUrl;
+  } catch (error) {
+    console.error('Error uploading asset:', error);
+    return null;
+  }
+};
+
+// Replace every embedded data URL in a template with a storage URL.
+// Returns null if any upload fails so we never publish a half-converted template.
+export const uploadTemplateAssets = async (template: TemplateData): Promise<TemplateData | null> => {
+  const dataUrls = new Set<string>();
+  if (isDataUrl(template.backgroundImage)) dataUrls.add(template.backgroundImage);
+  flattenElements(template.elements).forEach((el) => {
+    if (isDataUrl(el.placeholderImage)) dataUrls.add(el.placeholderImage);
+    if (el.type === 'image' && isDataUrl(el.src)) dataUrls.add(el.src);
+  });
+  template.fonts?.forEach((font) => isDataUrl(font.src) && dataUrls.add(font.src));
+  if (dataUrls.size === 0) return template;
+
+  const urls = new Map<string, string>();
+  for (const dataUrl of dataUrls) {
+    const url = await uploadAsset(dataUrl);
+    if (!url) return null;
+    urls.set(dataUrl, url);
+  }
+
+  const replace = (value: string | undefined) => (value && urls.get(value)) || value;
+  return {
+    ...template,
+    backgroundImage: replace(template.backgroundImage),
+    elements: mapElementTree(template.elements, (el) => {
+      const next = { ...el, placeholderImage: replace(el.placeholderImage) };
+      if (next.type === 'image') next.src = replace(next.src);
+      return next as CanvasElement;
+    }),
+    fonts: template.fonts?.map((font) => ({ ...font, src: replace(font.src) })),
+  };
+};
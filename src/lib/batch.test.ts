@@ -0,0 +1,85 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { ExportSettings, TemplateData } from '@/types/editor';
+import { CURRENT_SCHEMA_VERSION } from '@/lib/templateSchema';
+import { runBatch } from '@/lib/batch';
+import { exportStage } from '@/lib/imageExport';
+import { MAX_DIFF_RATIO, decodePixels, getDiffRatio, mountDesign } from '@/test/render';
+
+// Batch rows are drawn by renderTemplate rather than the Generator's Konva stage,
+// so each row is checked against the file an attendee would download with the
+// same texts and export settings.
+
+const TEMPLATE: TemplateData = {
+  id: 'batch',
+  slug: 'batch',
+  name: 'Batch',
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  width: 400,
+  height: 240,
+  backgroundColor: '#0f172a',
+  backgroundGradient: { type: 'linear', angle: 90, stops: [{ offset: 0, color: '#0f172a' }, { offset: 1, color: '#334155' }] },
+  elements: [
+    {
+      id: 'badge',
+      type: 'circle',
+      x: 80,
+      y: 120,
+      rotation: 0,
+      isPlaceholder: false,
+      radius: 50,
+      fill: '#f43f5e',
+      shadow: { color: 'rgba(0, 0, 0, 0.6)', blur: 10, offsetX: 4, offsetY: 6 },
+      strokes: [{ color: '#ffffff', width: 4, position: 'inside' }],
+    },
+    {
+      id: 'name',
+      type: 'text',
+      x: 250,
+      y: 120,
+      width: 240,
+      rotation: 0,
+      isPlaceholder: false,
+      text: 'Your name',
+      fontSize: 30,
+      fontFamily: 'sans-serif',
+      fontStyle: 'normal',
+      fontWeight: 'bold',
+      textAlign: 'left',
+      fill: '#f8fafc',
+    },
+  ],
+};
+
+const SETTINGS: [string, ExportSettings][] = [
+  ['PNG at 2x', { format: 'png', scale: 2, quality: 0.92, transparent: false }],
+  ['transparent PNG at a set width', { format: 'png', scale: 1, width: 600, quality: 0.92, transparent: true }],
+  ['JPEG', { format: 'jpeg', scale: 1, quality: 0.9, transparent: true }],
+];
+
+describe('runBatch', () => {
+  it.each(SETTINGS)('matches the Generator download: %s', async (_name, exportSettings) => {
+    const template = { ...TEMPLATE, exportSettings };
+    const result = await runBatch({ template, csv: 'name,filename\nJane Doe,jane' });
+    expect(result.rows[0].error).toBeNull();
+    const zip = await JSZip.loadAsync(result.zip);
+    const row = await decodePixels(await zip.file(result.rows[0].fileName).async('uint8array'));
+
+    const { stage, unmount } = mountDesign(template, { name: 'Jane Doe' });
+    const download = await decodePixels(await exportStage(stage, exportSettings));
+    unmount();
+
+    expect([row.width, row.height]).toEqual([download.width, download.height]);
+    expect(getDiffRatio(row, download)).toBeLessThan(MAX_DIFF_RATIO);
+  });
+
+  it('reports a blank required text as a row error', async () => {
+    const template: TemplateData = {
+      ...TEMPLATE,
+      elements: TEMPLATE.elements.map((el) => (el.id === 'name' ? { ...el, field: { label: 'Name', required: true } } : el)),
+    };
+    const result = await runBatch({ template, csv: 'name,filename\n,blank\nJane Doe,jane' });
+
+    expect(result.rows.map((row) => row.error)).toEqual(['Name: This field is required.', null]);
+  });
+});
@@ -0,0 +1,229 @@
+import JSZip from 'jszip';
+import { TemplateData } from '@/types/editor';
+import { flattenElements } from '@/lib/elements';
+import { applyTextValues, getTextFields, isEditableText, isFieldRequired, isPhotoField, validateTextField } from '@/lib/fields';
+import { browserMeasureText as measureText, isTextOverflowing, layoutText } from '@/lib/textLayout';
+import { browserRenderBackend, renderTemplate } from '@/lib/renderTemplate';
+import { DEFAULT_EXPORT_SETTINGS, EXPORT_FORMATS, getRenderOptions } from '@/lib/imageExport';
+
+// Batch generation: one personalised design per CSV row, collected into a zip.
+// Columns are named after text field keys and placeholder ids; a photo cell holds
+// a URL or the name of a file in the uploaded photo zip. An optional `filename`
+// column names each output. Images use the template's export settings.
+
+export const FILENAME_COLUMN = 'filename';
+
+export interface BatchRowResult {
+  // 1-based data row, not counting the header
+  row: number;
+  fileName: string;
+  // Set when the row was skipped
+  error: string | null;
+  warnings: string[];
+}
+
+export interface BatchResult {
+  zip: Blob | null;
+  rows: BatchRowResult[];
+  // Header cells that don't match any element
+  unknownColumns: string[];
+}
+
+interface BatchOptions {
+  template: TemplateData;
+  csv: string;
+  photoArchive?: Blob | null;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// --- CSV ---
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  // Spreadsheets often leave blank lines at the end
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+};
+
+const toCsvCell = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// --- COLUMNS ---
+
+// Only the fields attendees could fill in on the Generator
+export const getBatchFields = (template: TemplateData) => {
+  const all = flattenElements(template.elements);
+  return {
+    texts: getTextFields(all.filter(isEditableText)),
+    photos: all.filter(isPhotoField),
+  };
+};
+
+// Header row plus one example row with the design's own text
+export const buildCsvTemplate = (template: TemplateData) => {
+  const { texts, photos } = getBatchFields(template);
+  const header = [FILENAME_COLUMN, ...texts.map((field) => field.key), ...photos.map((el) => el.id)];
+  const example = ['example', ...texts.map((field) => field.value), ...photos.map(() => 'photo.jpg')];
+  return [header, example].map((row) => row.map(toCsvCell).join(',')).join('\r\n');
+};
+
+// --- HELPERS ---
+
+const isUrl = (value: string) => /^(https?:|data:|blob:)/i.test(value);
+
+// Files in the photo zip, looked up by name without folders or case
+const readPhotoArchive = async (archive: Blob) => {
+  const zip = await JSZip.loadAsync(archive);
+  const files = new Map<string, JSZip.JSZipObject>();
+  zip.forEach((path, file) => {
+    if (file.dir || path.startsWith('__MACOSX/')) return;
+    files.set(path.split('/').pop()!.toLowerCase(), file);
+  });
+  return files;
+};
+
+const getFileName = (value: string | undefined, row: number, used: Set<string>, extension: string) => {
+  const base = (value || '').trim().replace(/\.(png|jpe?g|webp)$/i, '').replace(/[^\w\- .]+/g, '_').slice(0, 80) || `row-${row}`;
+  let name = `${base}.${extension}`;
+  for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base}-${n}.${extension}`;
+  used.add(name.toLowerCase());
+  return name;
+};
+
+// --- RUN ---
+
+export const runBatch = async ({ template, csv, photoArchive, onProgress }: BatchOptions): Promise<BatchResult> => {
+  const [header = [], ...dataRows] = parseCsv(csv);
+  const columns = header.map((cell) => cell.trim());
+  const { texts, photos } = getBatchFields(template);
+  const exportSettings = template.exportSettings ?? DEFAULT_EXPORT_SETTINGS;
+  const knownIds = new Set([FILENAME_COLUMN, ...texts.map((field) => field.key), ...photos.map((el) => el.id)]);
+  const unknownColumns = columns.filter((col) => col && !knownIds.has(col));
+
+  let archive: Map<string, JSZip.JSZipObject> | null = null;
+  if (photoArchive) {
+    try {
+      archive = await readPhotoArchive(photoArchive);
+    } catch (err) {
+      console.error('Error reading photo zip:', err);
+      throw new Error('The photo zip could not be opened.');
+    }
+  }
+
+  // Lines each text takes in the design; longer values overflow the space left for them
+  const textElements = [...new Set(texts.map((field) => field.element))];
+  const designedLines = new Map(textElements.map((el) => [el.id, layoutText(el, measureText).lines.length]));
+
+  const output = new JSZip();
+  const usedNames = new Set<string>();
+  const rows: BatchRowResult[] = [];
+
+  for (let i = 0; i < dataRows.length; i++) {
+    const cells = new Map(columns.map((col, c) => [col, (dataRows[i][c] ?? '').trim()]));
+    const result: BatchRowResult = {
+      row: i + 1,
+      fileName: getFileName(cells.get(FILENAME_COLUMN), i + 1, usedNames, EXPORT_FORMATS[exportSettings.format].extension),
+      error: null,
+      warnings: [],
+    };
+
+    try {
+      // Blank cells keep the design's text, unless the field is required; values must
+      // pass the field's validation
+      const textOverrides: Record<string, string> = {};
+      texts.forEach((field) => {
+        const value = cells.get(field.key);
+        const error = validateTextField(field.element, value || (isFieldRequired(field.element) ? '' : field.value));
+        if (error) throw new Error(`${field.element.field?.label || field.key}: ${error}`);
+        if (value) textOverrides[field.key] = value;
+      });
+      textElements.forEach((el) => {
+        const filled = applyTextValues(el, textOverrides);
+        if (filled === el) return;
+        if (isTextOverflowing(el, layoutText(filled, measureText), designedLines.get(el.id) ?? 1)) {
+          result.warnings.push(`"${filled.text}" overflows text ${el.id}`);
+        }
+      });
+
+      // Like the Generator, required placeholders need a photo
+      const images: Record<string, string | Uint8Array> = {};
+      for (const el of photos) {
+        const value = cells.get(el.id);
+        if (!value) {
+          if (isFieldRequired(el)) throw new Error(`Missing photo for ${el.field?.label || el.id}`);
+          continue;
+        }
+        if (isUrl(value)) {
+          images[el.id] = value;
+          continue;
+        }
+        const file = archive?.get(value.split('/').pop()!.toLowerCase());
+        if (!file) throw new Error(archive ? `"${value}" is not in the photo zip` : `"${value}" needs a photo zip`);
+        images[el.id] = await file.async('uint8array');
+      }
+
+      const image = await renderTemplate(
+        template,
+        { images, texts: textOverrides, ...getRenderOptions(exportSettings, template) },
+        browserRenderBackend
+      );
+      output.file(result.fileName, image);
+    } catch (err) {
+      console.error(`Batch row ${i + 1} failed:`, err);
+      result.error = err instanceof Error ? err.message : 'Could not render this row';
+    }
+
+    rows.push(result);
+    onProgress?.(i + 1, dataRows.length);
+  }
+
+  const rendered = rows.filter((r) => !r.error).length;
+  if (rendered === 0) return { zip: null, rows, unknownColumns };
+
+  // Keep a record of skipped rows and warnings next to the images
+  const issues = rows.filter((r) => r.error || r.warnings.length > 0);
+  if (issues.length > 0) {
+    const report = [['row', 'file', 'status', 'message'], ...issues.map((r) => [
+      String(r.row),
+      r.error ? '' : r.fileName,
+      r.error ? 'skipped' : 'warning',
+      [r.error, ...r.warnings].filter(Boolean).join('; '),
+    ])];
+    output.file('report.csv', report.map((row) => row.map(toCsvCell).join(',')).join('\r\n'));
+  }
+
+  return { zip: await output.generateAsync({ type: 'blob' }), rows, unknownColumns };
+};
@@ -0,0 +1,128 @@
+import { DraftData, DraftSummary } from '@/types/editor';
+import { parseTemplateContent } from '@/lib/templateSchema';
+
+// Drafts live in IndexedDB rather than localStorage: background images are
+// stored as data URLs and easily exceed localStorage's ~5 MB quota.
+const DB_NAME = 'event-canvas-drafts';
+const DB_VERSION = 1;
+// Summaries are kept apart from the (large) template payloads so listing drafts stays cheap
+const SUMMARY_STORE = 'summaries';
+const PAYLOAD_STORE = 'payloads';
+const DRAFT_LIMIT = 20;
+
+// Small pointer to the draft of the last editor session
+const LAST_DRAFT_KEY = 'event-canvas:last-draft';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+        request.result.createObjectStore(PAYLOAD_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run fn inside one transaction and resolve once it has committed
+const withStores = async <T>(
+  mode: IDBTransactionMode,
+  fn: (summaries: IDBObjectStore, payloads: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([SUMMARY_STORE, PAYLOAD_STORE], mode);
+    const request = fn(tx.objectStore(SUMMARY_STORE), tx.objectStore(PAYLOAD_STORE));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const listDrafts = async (): Promise<DraftSummary[]> => {
+  try {
+    const drafts = (await withStores<DraftSummary[]>('readonly', (summaries) => summaries.getAll())) || [];
+    return drafts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch (error) {
+    console.error('Error listing drafts:', error);
+    return [];
+  }
+};
+
+export const loadDraft = async (id: string): Promise<DraftData | null> => {
+  try {
+    const requests: { summary?: IDBRequest<DraftSummary>; template?: IDBRequest<DraftData['template']> } = {};
+    await withStores('readonly', (summaries, payloads) => {
+      requests.summary = summaries.get(id);
+      requests.template = payloads.get(id);
+    });
+    const summary = requests.summary?.result;
+    const template = requests.template?.result;
+    if (!summary || !template) return null;
+    // Drafts can outlive a schema change, so upgrade them like published templates
+    const content = parseTemplateContent(template);
+    return { ...summary, template: { ...content, backgroundImage: content.backgroundImage ?? null } };
+  } catch (error) {
+    console.error('Error loading draft:', error);
+    return null;
+  }
+};
+
+export const saveDraft = async (draft: DraftData): Promise<boolean> => {
+  const { template, ...summary } = draft;
+  try {
+    await withStores('readwrite', (summaries, payloads) => {
+      summaries.put(summary);
+      payloads.put(template, draft.id);
+    });
+    localStorage.setItem(LAST_DRAFT_KEY, draft.id);
+  } catch (error) {
+    console.error('Error saving draft:', error);
+    return false;
+  }
+
+  // Drop the oldest drafts beyond the limit
+  const stale = (await listDrafts()).slice(DRAFT_LIMIT);
+  await Promise.all(stale.map((d) => deleteDraft(d.id)));
+  return true;
+};
+
+export const renameDraft = async (id: string, name: string): Promise<boolean> => {
+  try {
+    await withStores('readwrite', (summaries) => {
+      const request = summaries.get(id);
+      request.onsuccess = () => {
+        if (request.result) summaries.put({ ...request.result, name });
+      };
+    });
+    return true;
+  } catch (error) {
+    console.error('Error renaming draft:', error);
+    return false;
+  }
+};
+
+export const deleteDraft = async (id: string): Promise<boolean> => {
+  try {
+    await withStores('readwrite', (summaries, payloads) => {
+      summaries.delete(id);
+      payloads.delete(id);
+    });
+    if (localStorage.getItem(LAST_DRAFT_KEY) === id) localStorage.removeItem(LAST_DRAFT_KEY);
+    return true;
+  } catch (error) {
+    console.error('Error deleting draft:', error);
+    return false;
+  }
+};
+
+export const getLastDraftId = () => localStorage.getItem(LAST_DRAFT_KEY);
@@ -0,0 +1,132 @@
+import { BlendMode, CanvasElement, Shadow } from '@/types/editor';
+
+// Shadow, layer blur and blend mode apply to an element as a whole, so it is
+// first drawn on a layer of its own: a cached Konva group in the editor and the
+// Generator, an offscreen canvas in the headless renderer. Both then finish the
+// layer here, which keeps the download matching what the creator saw.
+
+type Effects = Pick<CanvasElement, 'shadow' | 'blur' | 'blendMode'>;
+
+// Maps design pixels to layer pixels (translation doesn't matter here)
+export interface LayerTransform {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+}
+
+export const hasEffects = (el: Effects) =>
+  !!el.shadow || (el.blur ?? 0) > 0 || (!!el.blendMode && el.blendMode !== 'normal');
+
+export const getCompositeOperation = (mode: BlendMode | undefined): GlobalCompositeOperation =>
+  !mode || mode === 'normal' ? 'source-over' : mode;
+
+const getShadowSpread = (shadow: Shadow | undefined) =>
+  shadow ? shadow.blur * 1.5 + Math.max(Math.abs(shadow.offsetX), Math.abs(shadow.offsetY)) : 0;
+
+// Room around the element for its blur and shadow to spread into. Text outlines
+// and text shadows reach past the text box too, so they need room as well.
+export const getEffectsPadding = (el: CanvasElement) => {
+  const text = el.type === 'text' ? (el.textStroke?.width ?? 0) + getShadowSpread(el.textShadow) : 0;
+  return Math.ceil(text + (el.blur ?? 0) * 3 + getShadowSpread(el.shadow));
+};
+
+// --- BLUR ---
+
+// Box blur along lines of `length` pixels; `step` and `lineStep` are offsets into the data
+const boxBlur = (
+  src: Float32Array,
+  dst: Float32Array,
+  length: number,
+  lines: number,
+  radius: number,
+  step: number,
+  lineStep: number
+) => {
+  const scale = 1 / (radius * 2 + 1);
+  for (let line = 0; line < lines; line++) {
+    const start = line * lineStep;
+    for (let channel = 0; channel < 4; channel++) {
+      // Pixels past the edges count as transparent
+      let sum = 0;
+      for (let i = 0; i <= Math.min(radius, length - 1); i++) sum += src[start + i * step + channel];
+      for (let i = 0; i < length; i++) {
+        dst[start + i * step + channel] = sum * scale;
+        const entering = i + radius + 1;
+        const leaving = i - radius;
+        if (entering < length) sum += src[start + entering * step + channel];
+        if (leaving >= 0) sum -= src[start + leaving * step + channel];
+      }
+    }
+  }
+};
+
+// Three box blurs come close to a Gaussian with a standard deviation of `radius`,
+// like CSS blur(). Colours are premultiplied first so transparent edges don't darken.
+// Done by hand because canvas `filter` isn't available in every browser.
+export const blurImageData = (image: Pick<ImageData, 'data' | 'width' | 'height'>, radius: number) => {
+  const r = Math.round(radius);
+  if (r < 1) return;
+  const { data, width, height } = image;
+
+  const a = new Float32Array(data.length);
+  const b = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3] / 255;
+    a[i] = data[i] * alpha;
+    a[i + 1] = data[i + 1] * alpha;
+    a[i + 2] = data[i + 2] * alpha;
+    a[i + 3] = data[i + 3];
+  }
+
+  for (let pass = 0; pass < 3; pass++) {
+    boxBlur(a, b, width, height, r, 4, width * 4);
+    boxBlur(b, a, height, width, r, width * 4, 4);
+  }
+
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = a[i + 3];
+    const unpremultiply = alpha > 0 ? 255 / alpha : 0;
+    data[i] = a[i] * unpremultiply;
+    data[i + 1] = a[i + 1] * unpremultiply;
+    data[i + 2] = a[i + 2] * unpremultiply;
+    data[i + 3] = alpha;
+  }
+};
+
+// --- COMPOSITING ---
+
+// Set up ctx to cast an element's shadow from a layer drawn without a transform
+export const applyLayerShadow = (ctx: CanvasRenderingContext2D, shadow: Shadow, transform: LayerTransform) => {
+  const scale = Math.sqrt(Math.abs(transform.a * transform.d - transform.b * transform.c));
+  ctx.shadowColor = shadow.color;
+  ctx.shadowBlur = shadow.blur * scale;
+  ctx.shadowOffsetX = transform.a * shadow.offsetX + transform.c * shadow.offsetY;
+  ctx.shadowOffsetY = transform.b * shadow.offsetX + transform.d * shadow.offsetY;
+};
+
+// Blur the layer in place, then paint it onto ctx pixel for pixel with the shadow.
+// The caller sets opacity and blend mode on ctx. Canvas shadows ignore the
+// transform, so they're sized and turned here to follow the element.
+export const applyEffects = (
+  ctx: CanvasRenderingContext2D,
+  layer: CanvasImageSource,
+  layerCtx: CanvasRenderingContext2D,
+  el: Effects,
+  transform: LayerTransform
+) => {
+  const scale = Math.sqrt(Math.abs(transform.a * transform.d - transform.b * transform.c));
+
+  if (el.blur) {
+    const { width, height } = layerCtx.canvas;
+    const image = layerCtx.getImageData(0, 0, width, height);
+    blurImageData(image, el.blur * scale);
+    layerCtx.putImageData(image, 0, 0);
+  }
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  if (el.shadow) applyLayerShadow(ctx, el.shadow, transform);
+  ctx.drawImage(layer, 0, 0);
+  ctx.restore();
+};
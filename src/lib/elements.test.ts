@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { TextElement } from '@/types/editor';
+import { MeasureText } from '@/lib/textLayout';
+import { getAlignmentChanges, getElementSize } from '@/lib/elements';
+
+// Every character 10px wide, so wrapping doesn't depend on installed fonts
+const measure: MeasureText = (text) => text.length * 10;
+
+const TEXT: TextElement = {
+  id: 'text',
+  type: 'text',
+  x: 100,
+  y: 100,
+  width: 100,
+  rotation: 0,
+  isPlaceholder: false,
+  text: 'one two three four',
+  fontSize: 20,
+  fontFamily: 'sans-serif',
+  fontStyle: 'normal',
+  fontWeight: 400,
+  textAlign: 'left',
+  fill: '#000000',
+  lineHeight: 1.5,
+};
+
+describe('getElementSize', () => {
+  it('measures text by its wrapped lines', () => {
+    // "one two" and "three four" fit 100px, "one two three" doesn't
+    expect(getElementSize(TEXT, measure)).toEqual({ width: 100, height: 2 * 20 * 1.5 });
+  });
+
+  it('aligns multi-line text by its full height', () => {
+    const bounds = { x: 0, y: 0, width: 400, height: 300 };
+    expect(getAlignmentChanges([TEXT], 'top', bounds, measure)).toEqual({ text: { y: 30 } });
+    expect(getAlignmentChanges([TEXT], 'bottom', bounds, measure)).toEqual({ text: { y: 270 } });
+  });
+});
@@ -0,0 +1,271 @@
+import { AlignMode, CanvasElement, DistributeAxis, GroupElement, Shadow } from '@/types/editor';
+import { getLineSize } from '@/lib/lines';
+import { MeasureText, layoutText } from '@/lib/textLayout';
+
+export const generateId = () => Math.random().toString(36).substring(2, 11);
+
+// --- TREE HELPERS ---
+// Groups nest elements, so most lookups need to walk the whole tree.
+
+export const flattenElements = (elements: CanvasElement[]): CanvasElement[] =>
+  elements.flatMap((el) => (el.type === 'group' ? [el, ...flattenElements(el.children)] : [el]));
+
+export const findElement = (elements: CanvasElement[], id: string): CanvasElement | null =>
+  flattenElements(elements).find((el) => el.id === id) || null;
+
+// Map every element in the tree; fn receives children that have already been mapped
+export const mapElementTree = (
+  elements: CanvasElement[],
+  fn: (el: CanvasElement) => CanvasElement
+): CanvasElement[] =>
+  elements.map((el) => fn(el.type === 'group' ? { ...el, children: mapElementTree(el.children, fn) } : el));
+
+export const filterElementTree = (
+  elements: CanvasElement[],
+  keep: (el: CanvasElement) => boolean
+): CanvasElement[] =>
+  elements
+    .filter(keep)
+    .map((el) => (el.type === 'group' ? { ...el, children: filterElementTree(el.children, keep) } : el));
+
+// Copy of an element with fresh ids for it and everything inside it
+export const cloneElement = (el: CanvasElement): CanvasElement =>
+  el.type === 'group'
+    ? { ...el, id: generateId(), children: el.children.map(cloneElement) }
+    : { ...el, id: generateId() };
+
+// --- GEOMETRY ---
+
+// Unrotated size of an element around its x/y centre. Text is as tall as its
+// laid-out lines, so sizes depend on how text is measured.
+export const getElementSize = (el: CanvasElement, measure: MeasureText): { width: number; height: number } => {
+  switch (el.type) {
+    case 'rect':
+    case 'image':
+    case 'path':
+      return { width: el.width, height: el.height };
+    case 'circle':
+    case 'ring':
+    case 'polygon':
+    case 'star':
+      return { width: el.radius * 2, height: el.radius * 2 };
+    case 'ellipse':
+      return { width: el.radiusX * 2, height: el.radiusY * 2 };
+    case 'line':
+      return getLineSize(el);
+    case 'text':
+      return { width: el.width, height: layoutText(el, measure).height };
+    case 'group': {
+      const bounds = getElementsBounds(el.children, measure);
+      return bounds ? { width: bounds.width, height: bounds.height } : { width: 0, height: 0 };
+    }
+  }
+};
+
+// Axis-aligned bounds of a list of sibling elements (rotation is ignored)
+export const getElementsBounds = (elements: CanvasElement[], measure: MeasureText) => {
+  if (elements.length === 0) return null;
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  elements.forEach((el) => {
+    const { width, height } = getElementSize(el, measure);
+    minX = Math.min(minX, el.x - width / 2);
+    minY = Math.min(minY, el.y - height / 2);
+    maxX = Math.max(maxX, el.x + width / 2);
+    maxY = Math.max(maxY, el.y + height / 2);
+  });
+
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+// Axis-aligned size of an element once its rotation is applied
+export const getRotatedSize = (el: CanvasElement, measure: MeasureText): { width: number; height: number } => {
+  const { width, height } = getElementSize(el, measure);
+  const angle = ((el.rotation || 0) * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  return { width: width * cos + height * sin, height: width * sin + height * cos };
+};
+
+// Visible bounds of sibling elements, taking rotation into account
+export const getRotatedBounds = (elements: CanvasElement[], measure: MeasureText) => {
+  if (elements.length === 0) return null;
+  const boxes = elements.map((el) => {
+    const { width, height } = getRotatedSize(el, measure);
+    return { x1: el.x - width / 2, y1: el.y - height / 2, x2: el.x + width / 2, y2: el.y + height / 2 };
+  });
+  const x = Math.min(...boxes.map((b) => b.x1));
+  const y = Math.min(...boxes.map((b) => b.y1));
+  return {
+    x,
+    y,
+    width: Math.max(...boxes.map((b) => b.x2)) - x,
+    height: Math.max(...boxes.map((b) => b.y2)) - y,
+  };
+};
+
+// --- ALIGN & DISTRIBUTE ---
+// Elements are positioned by their centre, so alignment offsets by half the rotated size.
+
+export const getAlignmentChanges = (
+  elements: CanvasElement[],
+  mode: AlignMode,
+  bounds: { x: number; y: number; width: number; height: number },
+  measure: MeasureText
+): Record<string, Partial<CanvasElement>> => {
+  const changes: Record<string, Partial<CanvasElement>> = {};
+  elements.forEach((el) => {
+    const { width, height } = getRotatedSize(el, measure);
+    switch (mode) {
+      case 'left':
+        changes[el.id] = { x: bounds.x + width / 2 };
+        break;
+      case 'center':
+        changes[el.id] = { x: bounds.x + bounds.width / 2 };
+        break;
+      case 'right':
+        changes[el.id] = { x: bounds.x + bounds.width - width / 2 };
+        break;
+      case 'top':
+        changes[el.id] = { y: bounds.y + height / 2 };
+        break;
+      case 'middle':
+        changes[el.id] = { y: bounds.y + bounds.height / 2 };
+        break;
+      case 'bottom':
+        changes[el.id] = { y: bounds.y + bounds.height - height / 2 };
+        break;
+    }
+  });
+  return changes;
+};
+
+// Keep the outermost elements in place and make the gaps between neighbours equal
+export const getDistributionChanges = (
+  elements: CanvasElement[],
+  axis: DistributeAxis,
+  measure: MeasureText
+): Record<string, Partial<CanvasElement>> => {
+  if (elements.length < 3) return {};
+
+  const key = axis === 'horizontal' ? 'x' : 'y';
+  const sizeOf = (el: CanvasElement) => getRotatedSize(el, measure)[axis === 'horizontal' ? 'width' : 'height'];
+  const sorted = [...elements].sort((a, b) => a[key] - b[key]);
+
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const start = first[key] - sizeOf(first) / 2;
+  const end = last[key] + sizeOf(last) / 2;
+  const totalSize = sorted.reduce((sum, el) => sum + sizeOf(el), 0);
+  const gap = (end - start - totalSize) / (sorted.length - 1);
+
+  const changes: Record<string, Partial<CanvasElement>> = {};
+  let cursor = start;
+  sorted.forEach((el) => {
+    const size = sizeOf(el);
+    changes[el.id] = { [key]: cursor + size / 2 };
+    cursor += size + gap;
+  });
+  return changes;
+};
+
+const scaleShadow = (shadow: Shadow, scaleX: number, scaleY: number): Shadow => ({
+  ...shadow,
+  blur: (shadow.blur * (scaleX + scaleY)) / 2,
+  offsetX: shadow.offsetX * scaleX,
+  offsetY: shadow.offsetY * scaleY,
+});
+
+// Bake a transformer scale into an element's geometry (used when a group is resized)
+export const scaleElement = (el: CanvasElement, scaleX: number, scaleY: number): CanvasElement => {
+  const scaleAvg = (scaleX + scaleY) / 2;
+  const base = {
+    x: el.x * scaleX,
+    y: el.y * scaleY,
+    ...(el.shadow ? { shadow: scaleShadow(el.shadow, scaleX, scaleY) } : {}),
+    ...(el.blur ? { blur: el.blur * scaleAvg } : {}),
+  };
+
+  switch (el.type) {
+    case 'rect':
+      return {
+        ...el,
+        ...base,
+        width: el.width * scaleX,
+        height: el.height * scaleY,
+        cornerRadius: el.cornerRadius * Math.min(scaleX, scaleY),
+      };
+    case 'image':
+    case 'path':
+      return { ...el, ...base, width: el.width * scaleX, height: el.height * scaleY };
+    case 'circle':
+    case 'polygon':
+      return { ...el, ...base, radius: el.radius * scaleAvg };
+    case 'ring':
+    case 'star':
+      return { ...el, ...base, radius: el.radius * scaleAvg, innerRadius: el.innerRadius * scaleAvg };
+    case 'ellipse':
+      return { ...el, ...base, radiusX: el.radiusX * scaleX, radiusY: el.radiusY * scaleY };
+    case 'line':
+      return { ...el, ...base, length: el.length * scaleX, strokeWidth: el.strokeWidth * scaleAvg };
+    case 'text':
+      return {
+        ...el,
+        ...base,
+        width: el.width * scaleX,
+        fontSize: el.fontSize * scaleAvg,
+        ...(el.minFontSize ? { minFontSize: el.minFontSize * scaleAvg } : {}),
+        ...(el.letterSpacing ? { letterSpacing: el.letterSpacing * scaleAvg } : {}),
+        ...(el.runs ? { runs: el.runs.map((run) => (run.letterSpacing ? { ...run, letterSpacing: run.letterSpacing * scaleAvg } : run)) } : {}),
+        ...(el.textStroke ? { textStroke: { ...el.textStroke, width: el.textStroke.width * scaleAvg } } : {}),
+        ...(el.textShadow ? { textShadow: scaleShadow(el.textShadow, scaleX, scaleY) } : {}),
+      };
+    case 'group':
+      return { ...el, ...base, children: el.children.map((child) => scaleElement(child, scaleX, scaleY)) };
+  }
+};
+
+// --- GROUPING ---
+
+// Wrap sibling elements into a group centred on their bounds
+export const createGroup = (id: string, members: CanvasElement[], measure: MeasureText): GroupElement | null => {
+  const bounds = getElementsBounds(members, measure);
+  if (!bounds) return null;
+
+  const cx = bounds.x + bounds.width / 2;
+  const cy = bounds.y + bounds.height / 2;
+
+  return {
+    id,
+    type: 'group',
+    x: cx,
+    y: cy,
+    rotation: 0,
+    isPlaceholder: false,
+    children: members.map((el) => ({ ...el, x: el.x - cx, y: el.y - cy }) as CanvasElement),
+  };
+};
+
+// Move a group's children back into its parent's coordinate space. The group's
+// effects move onto each child that has none of its own; they then apply per child
+// rather than to the group as a whole, but aren't lost.
+export const releaseGroup = (group: GroupElement): CanvasElement[] => {
+  const angle = (group.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const groupOpacity = group.opacity ?? 1;
+
+  return group.children.map((child) => ({
+    ...child,
+    x: group.x + child.x * cos - child.y * sin,
+    y: group.y + child.x * sin + child.y * cos,
+    rotation: (child.rotation + group.rotation) % 360,
+    opacity: (child.opacity ?? 1) * groupOpacity,
+    shadow: child.shadow ?? group.shadow,
+    blur: child.blur ?? group.blur,
+    blendMode: child.blendMode ?? group.blendMode,
+  }) as CanvasElement);
+};
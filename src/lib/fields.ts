@@ -0,0 +1,128 @@
+import { CanvasElement, FieldPreset, TextElement } from '@/types/editor';
+import { ShapeElement, isShapeElement } from '@/lib/shapes';
+import { setRunText } from '@/lib/richText';
+
+// Generator form fields: which elements attendees fill in, how they're labelled
+// and what they may enter. Settings live on each element's `field`.
+
+interface PresetRule {
+  label: string;
+  // Shown under the input when the value doesn't match
+  message: string;
+  test: (value: string) => boolean;
+}
+
+const isCalendarDate = (value: string) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+export const FIELD_PRESETS: Record<FieldPreset, PresetRule> = {
+  name: {
+    label: 'Name',
+    message: 'Use letters, spaces, hyphens and apostrophes only.',
+    test: (value) => /^\p{L}[\p{L}\p{M}' .-]*$/u.test(value),
+  },
+  handle: {
+    label: 'Social handle',
+    message: 'Use a handle like @jane_doe (letters, numbers, _ and .).',
+    test: (value) => /^@?[A-Za-z0-9_.]{1,30}$/.test(value),
+  },
+  date: {
+    label: 'Date',
+    message: 'Enter a date as YYYY-MM-DD.',
+    test: isCalendarDate,
+  },
+};
+
+// Custom patterns are typed by the creator, so a broken one is ignored rather than blocking downloads
+const compilePattern = (pattern: string) => {
+  try {
+    return new RegExp(`^(?:${pattern})$`, 'u');
+  } catch (err) {
+    console.error('Invalid field pattern:', pattern, err);
+    return null;
+  }
+};
+
+export const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern, 'u');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Styled text is only editable through the runs the creator marked for attendees
+export const isEditableText = (el: CanvasElement): el is TextElement =>
+  el.type === 'text' && el.field?.editable !== false && (!el.runs?.length || el.runs.some((run) => run.editable));
+
+export const isPhotoField = (el: CanvasElement): el is ShapeElement => isShapeElement(el) && el.isPlaceholder;
+
+// Photos were always required before fields had settings
+export const isFieldRequired = (el: CanvasElement) => el.field?.required ?? isPhotoField(el);
+
+export const getFieldLabel = (el: CanvasElement, index: number) =>
+  el.field?.label?.trim() || (el.type === 'text' ? `Line ${index + 1}` : `Photo ${index + 1}`);
+
+// --- TEXT FIELDS ---
+
+// One input per plain text element, or per editable run of a styled one
+export interface TextField {
+  // Element id, or `id#run` for a run; used for form state and batch columns
+  key: string;
+  element: TextElement;
+  runIndex: number | null;
+  label: string;
+  value: string;
+}
+
+export const getTextFields = (texts: TextElement[]): TextField[] =>
+  texts.flatMap((el, index) => {
+    const label = getFieldLabel(el, index);
+    if (!el.runs?.length) return [{ key: el.id, element: el, runIndex: null, label, value: el.text }];
+
+    const editable = el.runs.map((run, i) => ({ run, i })).filter(({ run }) => run.editable);
+    return editable.map(({ run, i }, n) => ({
+      key: `${el.id}#${i}`,
+      element: el,
+      runIndex: i,
+      label: editable.length > 1 ? `${label} (${n + 1})` : label,
+      value: run.text,
+    }));
+  });
+
+// Element with its field values applied; values are keyed by TextField.key
+export const applyTextValues = (el: TextElement, values: Record<string, string>): TextElement => {
+  if (!el.runs?.length) return values[el.id] !== undefined ? { ...el, text: values[el.id] } : el;
+  let next = el;
+  el.runs.forEach((run, i) => {
+    const value = values[`${el.id}#${i}`];
+    if (run.editable && value !== undefined) next = { ...next, ...setRunText(next, i, value) };
+  });
+  return next;
+};
+
+// Error message for a text value, or null when it's acceptable
+export const validateTextField = (el: TextElement, value: string): string | null => {
+  const field = el.field;
+  const trimmed = value.trim();
+  if (!trimmed) return isFieldRequired(el) ? 'This field is required.' : null;
+  if (!field) return null;
+
+  if (field.maxLength && value.length > field.maxLength) return `Use at most ${field.maxLength} characters.`;
+  if (field.preset) {
+    const rule = FIELD_PRESETS[field.preset];
+    return rule.test(trimmed) ? null : rule.message;
+  }
+  if (field.pattern) {
+    const regex = compilePattern(field.pattern);
+    if (regex && !regex.test(trimmed)) return 'This doesn\'t match the expected format.';
+  }
+  return null;
+};
+
+export const validatePhotoField = (el: CanvasElement, hasPhoto: boolean): string | null =>
+  !hasPhoto && isFieldRequired(el) ? 'Add a photo.' : null;
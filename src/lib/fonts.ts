@@ -0,0 +1,216 @@
+import { CanvasElement, CustomFont } from '@/types/editor';
+import { flattenElements } from '@/lib/elements';
+
+// Font families offered in the Editor. index.html loads these for the editor;
+// the Generator fetches whichever ones a template uses.
+export const GOOGLE_FONTS = [
+  "Inter", "Roboto", "Oswald", "Lobster", "Montserrat",
+  "Poppins", "Playfair Display", "Raleway", "Open Sans",
+  "Lato", "Source Sans 3", "Bebas Neue", "Dancing Script", "Pacifico"
+];
+
+// Used for any text whose font is missing or hasn't arrived, so it stays readable
+export const FALLBACK_FONT = 'sans-serif';
+
+// How long the Generator waits for fonts before drawing with the fallback
+export const FONT_LOAD_TIMEOUT = 8000;
+
+// Uploadable font files by extension
+const FONT_TYPES: Record<string, string> = {
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  woff2: 'font/woff2',
+};
+
+export const FONT_FILE_ACCEPT = Object.keys(FONT_TYPES).map((ext) => `.${ext}`).join(',');
+
+// Family names with spaces need quotes in a CSS font string
+export const quoteFontFamily = (family: string) =>
+  family
+    .split(',')
+    .map((name) => {
+      const trimmed = name.trim();
+      return trimmed.includes(' ') && !/["']/.test(trimmed) ? `"${trimmed}"` : trimmed;
+    })
+    .join(', ');
+
+// Uploaded fonts first, then the built-in list
+export const getFontOptions = (fonts: CustomFont[] = []) => [
+  ...new Set([...fonts.map((font) => font.family), ...GOOGLE_FONTS]),
+];
+
+// Every family used by text in the design, including styled runs
+export const getFontFamilies = (elements: CanvasElement[]) => {
+  const families = new Set<string>();
+  flattenElements(elements).forEach((el) => {
+    if (el.type !== 'text') return;
+    if (el.fontFamily) families.add(el.fontFamily);
+    el.runs?.forEach((run) => run.fontFamily && families.add(run.fontFamily));
+  });
+  return [...families];
+};
+
+// --- UPLOADS ---
+
+// Checked longest first so "ExtraBold" isn't read as "Bold"
+const WEIGHT_NAMES: [RegExp, number][] = [
+  [/(extra|ultra)-?light$/i, 200],
+  [/(semi|demi)-?bold$/i, 600],
+  [/(extra|ultra)-?bold$/i, 800],
+  [/(thin|hairline)$/i, 100],
+  [/light$/i, 300],
+  [/(regular|normal|book)$/i, 400],
+  [/medium$/i, 500],
+  [/bold$/i, 700],
+  [/(black|heavy)$/i, 900],
+];
+
+// "BrandSans-BoldItalic.otf" becomes family "BrandSans", weight 700, italic
+const parseFontFileName = (fileName: string): Omit<CustomFont, 'src'> => {
+  const base = fileName.replace(/\.[^.]+$/, '');
+  const [family, suffix = ''] = base.split(/[-_](?=[^-_]*$)/);
+  let rest = suffix;
+  let style: CustomFont['style'] = 'normal';
+  if (/italic$|oblique$/i.test(rest)) {
+    style = 'italic';
+    rest = rest.replace(/italic$|oblique$/i, '');
+  }
+  const weight = WEIGHT_NAMES.find(([pattern]) => pattern.test(rest))?.[1];
+  // A suffix that isn't a weight or style is part of the family name
+  if (suffix && weight === undefined && style === 'normal') return { family: base.replace(/[-_]+/g, ' '), weight: 400, style };
+  return { family: family.replace(/[-_]+/g, ' '), weight: weight ?? 400, style };
+};
+
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Read an uploaded TTF, OTF or WOFF2 file. Resolves to null if it isn't a font the browser can load.
+export const readFontFile = async (file: File): Promise<CustomFont | null> => {
+  const type = FONT_TYPES[file.name.split('.').pop()?.toLowerCase() ?? ''];
+  if (!type) return null;
+
+  try {
+    const { family, weight, style } = parseFontFileName(file.name);
+    // Browsers give font files inconsistent MIME types; storage uses this one for the extension
+    const src = await readAsDataUrl(new Blob([file], { type }));
+    const font = { family, src, weight, style };
+    return (await registerFont(font)) ? font : null;
+  } catch (err) {
+    console.error('Error reading font file:', err);
+    return null;
+  }
+};
+
+// --- LOADING ---
+
+// One FontFace per file, shared by every caller
+const registeredFonts = new Map<string, Promise<boolean>>();
+
+export const registerFont = (font: CustomFont): Promise<boolean> => {
+  const key = [font.family, font.weight, font.style, font.src].join('|');
+  let loading = registeredFonts.get(key);
+  if (!loading) {
+    loading = new FontFace(font.family, `url(${JSON.stringify(font.src)})`, {
+      weight: String(font.weight ?? 'normal'),
+      style: font.style ?? 'normal',
+    })
+      .load()
+      .then((face) => {
+        document.fonts.add(face);
+        return true;
+      })
+      .catch((err) => {
+        console.error('Error loading font:', font.family, err);
+        // Let a later attempt try again
+        registeredFonts.delete(key);
+        return false;
+      });
+    registeredFonts.set(key, loading);
+  }
+  return loading;
+};
+
+const loadedGoogleFamilies = new Set<string>();
+
+// Stylesheet with the regular and bold faces of each family
+const getGoogleFontsUrl = (families: string[]) =>
+  `https://fonts.googleapis.com/css2?${families.map((family) => `family=${family.replace(/\s+/g, '+')}:wght@400;700`).join('&')}&display=swap`;
+
+// Adds one stylesheet for the families not requested yet; resolves once it has loaded or failed
+const requestGoogleFonts = (families: string[]) => {
+  const missing = families.filter((family) => !loadedGoogleFamilies.has(family));
+  if (missing.length === 0) return Promise.resolve();
+  missing.forEach((family) => loadedGoogleFamilies.add(family));
+
+  return new Promise<void>((resolve) => {
+    const link = document.createElement('link');
+    link.href = getGoogleFontsUrl(missing);
+    link.rel = 'stylesheet';
+    link.onload = () => resolve();
+    link.onerror = () => {
+      missing.forEach((family) => loadedGoogleFamilies.delete(family));
+      resolve();
+    };
+    document.head.appendChild(link);
+  });
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number, fallback: T) =>
+  Promise.race([promise, new Promise<T>((resolve) => setTimeout(() => resolve(fallback), ms))]);
+
+// Load the families a design uses: uploaded fonts via FontFace, the built-in list
+// from Google Fonts. Never waits longer than `timeout`; resolves to the families
+// that didn't load, which are drawn with FALLBACK_FONT.
+export const loadFonts = async (families: string[], fonts: CustomFont[] = [], timeout = FONT_LOAD_TIMEOUT) => {
+  const uploaded = new Set(fonts.map((font) => font.family));
+  const stylesheet = requestGoogleFonts(families.filter((family) => !uploaded.has(family) && GOOGLE_FONTS.includes(family)));
+
+  const loadFamily = async (family: string) => {
+    if (uploaded.has(family)) {
+      const results = await Promise.all(fonts.filter((font) => font.family === family).map(registerFont));
+      return results.some(Boolean);
+    }
+    // Anything else is a system font, which has nothing to fetch
+    if (!GOOGLE_FONTS.includes(family)) return true;
+    await stylesheet;
+    // Resolves to no faces when the stylesheet didn't provide the family
+    const faces = await document.fonts.load(`16px ${quoteFontFamily(family)}`).catch(() => []);
+    return faces.length > 0;
+  };
+
+  const results = await Promise.all(
+    families.map(async (family) => ({ family, ok: await withTimeout(loadFamily(family), timeout, false) }))
+  );
+  return results.filter((result) => !result.ok).map((result) => result.family);
+};
+
+// --- EMBEDDING ---
+
+// @font-face rules for the built-in families among `families`, with the font
+// files inlined as data URLs so exported SVGs render without a network. Resolves
+// to an empty string when Google Fonts can't be reached.
+export const embedGoogleFonts = async (families: string[]) => {
+  const wanted = families.filter((family) => GOOGLE_FONTS.includes(family));
+  if (wanted.length === 0) return '';
+  try {
+    const response = await fetch(getGoogleFontsUrl(wanted));
+    if (!response.ok) throw new Error(`Google Fonts responded ${response.status}`);
+    let css = await response.text();
+    const urls = [...new Set(Array.from(css.matchAll(/url\((https:[^)]+)\)/g), (match) => match[1]))];
+    await Promise.all(
+      urls.map(async (url) => {
+        const file = await fetch(url).then((res) => res.blob());
+        css = css.split(url).join(await readAsDataUrl(file));
+      })
+    );
+    return css;
+  } catch (err) {
+    console.error('Error embedding fonts:', err);
+    return '';
+  }
+};
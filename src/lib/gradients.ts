@@ -0,0 +1,101 @@
+import Konva from 'konva';
+import { Gradient, GradientType } from '@/types/editor';
+
+// Gradient fills for shapes, text and the canvas background. A gradient spans
+// the box it fills; angles follow CSS (0deg points up, 90deg to the right) so
+// the editor's CSS previews match what the canvas draws.
+
+export interface GradientBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type GradientGeometry =
+  | { kind: 'linear'; start: Konva.Vector2d; end: Konva.Vector2d }
+  | { kind: 'radial'; center: Konva.Vector2d; radius: number };
+
+// New gradients run from the current colour to white
+export const createGradient = (type: GradientType, from: string): Gradient => ({
+  type,
+  angle: 180,
+  stops: [
+    { offset: 0, color: from || '#000000' },
+    { offset: 1, color: '#ffffff' },
+  ],
+});
+
+const sortStops = (gradient: Gradient) => [...gradient.stops].sort((a, b) => a.offset - b.offset);
+
+// Linear: the CSS gradient line, long enough that the end colours reach the corners.
+// Radial: a circle from the centre to the farthest corner.
+const getGeometry = (gradient: Gradient, box: GradientBox): GradientGeometry => {
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  if (gradient.type === 'radial') {
+    return { kind: 'radial', center: { x: cx, y: cy }, radius: Math.hypot(box.width, box.height) / 2 };
+  }
+  const angle = (gradient.angle * Math.PI) / 180;
+  const dx = Math.sin(angle);
+  const dy = -Math.cos(angle);
+  const half = (Math.abs(box.width * dx) + Math.abs(box.height * dy)) / 2;
+  return {
+    kind: 'linear',
+    start: { x: cx - dx * half, y: cy - dy * half },
+    end: { x: cx + dx * half, y: cy + dy * half },
+  };
+};
+
+// For the headless renderer and drawTextLayout
+export const createCanvasGradient = (ctx: CanvasRenderingContext2D, gradient: Gradient, box: GradientBox) => {
+  const geometry = getGeometry(gradient, box);
+  const canvasGradient =
+    geometry.kind === 'linear'
+      ? ctx.createLinearGradient(geometry.start.x, geometry.start.y, geometry.end.x, geometry.end.y)
+      : ctx.createRadialGradient(geometry.center.x, geometry.center.y, 0, geometry.center.x, geometry.center.y, geometry.radius);
+  sortStops(gradient).forEach((stop) => canvasGradient.addColorStop(Math.min(1, Math.max(0, stop.offset)), stop.color));
+  return canvasGradient;
+};
+
+// Konva fill props. Konva places gradients in the shape's own coordinates, so
+// `origin` is where that shape's (0, 0) sits in the box's coordinates.
+export const getKonvaFill = (
+  fill: string | undefined,
+  gradient: Gradient | undefined,
+  box: GradientBox,
+  origin: Konva.Vector2d = { x: 0, y: 0 }
+): Partial<Konva.ShapeConfig> => {
+  if (!gradient) return { fill };
+
+  const local = (point: Konva.Vector2d) => ({ x: point.x - origin.x, y: point.y - origin.y });
+  const colorStops = sortStops(gradient).flatMap((stop) => [Math.min(1, Math.max(0, stop.offset)), stop.color]);
+  const geometry = getGeometry(gradient, box);
+
+  if (geometry.kind === 'linear') {
+    return {
+      fillPriority: 'linear-gradient',
+      fillLinearGradientStartPoint: local(geometry.start),
+      fillLinearGradientEndPoint: local(geometry.end),
+      fillLinearGradientColorStops: colorStops,
+    };
+  }
+  return {
+    fillPriority: 'radial-gradient',
+    fillRadialGradientStartPoint: local(geometry.center),
+    fillRadialGradientEndPoint: local(geometry.center),
+    fillRadialGradientStartRadius: 0,
+    fillRadialGradientEndRadius: geometry.radius,
+    fillRadialGradientColorStops: colorStops,
+  };
+};
+
+// CSS for swatches and previews in the editor
+export const toCssGradient = (gradient: Gradient) => {
+  const stops = sortStops(gradient)
+    .map((stop) => `${stop.color} ${Math.round(stop.offset * 100)}%`)
+    .join(', ');
+  return gradient.type === 'radial'
+    ? `radial-gradient(circle farthest-corner, ${stops})`
+    : `linear-gradient(${gradient.angle}deg, ${stops})`;
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { ExportSettings, TemplateData } from '@/types/editor';
+import { CURRENT_SCHEMA_VERSION } from '@/lib/templateSchema';
+import { EXPORT_PIXEL_RATIO, renderTemplate } from '@/lib/renderTemplate';
+import { nodeRenderBackend } from '@/lib/nodeRenderBackend';
+import { exportStage } from '@/lib/imageExport';
+import { MAX_DIFF_RATIO, decodePixels, getDiffRatio, mountDesign, readPixels } from '@/test/render';
+
+// Elements with effects are drawn from a cache; exports sharper than the cache
+// must come out as sharp as renderTemplate draws them.
+
+const TEMPLATE: TemplateData = {
+  id: 'effects',
+  slug: 'effects',
+  name: 'Effects',
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  width: 200,
+  height: 40,
+  backgroundColor: '#ffffff',
+  elements: [
+    {
+      id: 'title',
+      type: 'text',
+      x: 100,
+      y: 20,
+      width: 180,
+      rotation: 0,
+      isPlaceholder: false,
+      text: 'Sharp text with a shadow',
+      fontSize: 16,
+      fontFamily: 'sans-serif',
+      fontStyle: 'normal',
+      fontWeight: 400,
+      textAlign: 'center',
+      fill: '#0f172a',
+      shadow: { color: 'rgba(0, 0, 0, 0.4)', blur: 2, offsetX: 1, offsetY: 1 },
+    },
+  ],
+};
+
+describe('exportStage', () => {
+  it('caches effects again for exports above their cache resolution', async () => {
+    const settings: ExportSettings = { format: 'png', scale: 6, quality: 0.92, transparent: false };
+    const { stage, unmount } = mountDesign(TEMPLATE);
+    const screen = readPixels(stage.toCanvas({ pixelRatio: EXPORT_PIXEL_RATIO }) as HTMLCanvasElement);
+    const exported = await decodePixels(await exportStage(stage, settings));
+    // And afterwards the usual cache is back
+    const screenAfter = readPixels(stage.toCanvas({ pixelRatio: EXPORT_PIXEL_RATIO }) as HTMLCanvasElement);
+    unmount();
+    const rendered = await decodePixels(await renderTemplate(TEMPLATE, { pixelRatio: 6 }, nodeRenderBackend));
+
+    expect([exported.width, exported.height]).toEqual([rendered.width, rendered.height]);
+    expect(getDiffRatio(exported, rendered)).toBeLessThan(MAX_DIFF_RATIO);
+    expect(screenAfter.data).toEqual(screen.data);
+  });
+});
@@ -0,0 +1,138 @@
+import Konva from 'konva';
+import { ExportFormat, ExportSettings } from '@/types/editor';
+import { EXPORT_PIXEL_RATIO, RenderOptions } from '@/lib/renderTemplate';
+
+// PNG, JPEG and WebP downloads. The Editor and Generator export their Konva
+// stage so the file matches the screen; batch rendering turns the same settings
+// into renderTemplate options.
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; mimeType: string; extension: string; hasQuality: boolean; hasAlpha: boolean }> = {
+  png: { label: 'PNG', mimeType: 'image/png', extension: 'png', hasQuality: false, hasAlpha: true },
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', hasQuality: true, hasAlpha: false },
+  webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp', hasQuality: true, hasAlpha: true },
+};
+
+export const EXPORT_SCALES = [1, 2, 3, 4];
+
+// Larger canvases fail to allocate in some browsers
+export const MAX_EXPORT_WIDTH = 8192;
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'png',
+  scale: EXPORT_PIXEL_RATIO,
+  quality: 0.92,
+  transparent: false,
+};
+
+// The estimate renders a small copy and scales its size up to the real pixel count
+const ESTIMATE_PIXELS = 512 * 512;
+
+const SAVED_SETTINGS_KEY = 'dp-export-settings';
+
+export const getExportPixelRatio = (settings: ExportSettings, design: { width: number }) =>
+  settings.width ? settings.width / design.width : settings.scale;
+
+export const getExportSize = (settings: ExportSettings, design: { width: number; height: number }) => {
+  const pixelRatio = getExportPixelRatio(settings, design);
+  return { width: Math.round(design.width * pixelRatio), height: Math.round(design.height * pixelRatio) };
+};
+
+export const isTransparentExport = (settings: ExportSettings) =>
+  settings.transparent && EXPORT_FORMATS[settings.format].hasAlpha;
+
+export const getExportFileName = (base: string, settings: ExportSettings) =>
+  `${base}.${EXPORT_FORMATS[settings.format].extension}`;
+
+export const getRenderOptions = (
+  settings: ExportSettings,
+  design: { width: number }
+): Pick<RenderOptions, 'format' | 'quality' | 'pixelRatio' | 'transparent'> => ({
+  format: settings.format,
+  quality: settings.quality,
+  pixelRatio: getExportPixelRatio(settings, design),
+  transparent: isTransparentExport(settings),
+});
+
+export const describeExportSettings = (settings: ExportSettings, design: { width: number; height: number }) => {
+  const { width, height } = getExportSize(settings, design);
+  return `${EXPORT_FORMATS[settings.format].label} · ${width}×${height}`;
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// --- STAGE ---
+
+// Groups with effects are drawn from a cache made at EXPORT_PIXEL_RATIO or the
+// screen's, whichever is higher (see useElementEffects). They keep a function
+// under this attr that caches them again: at a given pixel ratio, or without
+// one back at their usual resolution.
+export const EFFECTS_CACHE_ATTR = 'cacheEffects';
+
+type CacheEffects = (pixelRatio?: number) => void;
+
+// Selection handles are left out, and for transparent exports the background
+// colour Rect, which stages name "background" (see CanvasBackground). Effects
+// are cached again for exports sharper than their cache.
+const renderStage = (stage: Konva.Stage, settings: ExportSettings, pixelRatio: number) => {
+  const hidden = stage.find((node: Konva.Node) =>
+    node.isVisible() && (node instanceof Konva.Transformer || (isTransparentExport(settings) && node.hasName('background')))
+  );
+  const recache: CacheEffects[] =
+    pixelRatio > EXPORT_PIXEL_RATIO
+      ? stage.find((node: Konva.Node) => !!node.getAttr(EFFECTS_CACHE_ATTR)).map((node) => node.getAttr(EFFECTS_CACHE_ATTR))
+      : [];
+  hidden.forEach((node) => node.hide());
+  recache.forEach((cacheEffects) => cacheEffects(pixelRatio));
+  try {
+    // toBlob draws the stage before it returns, so everything can be put back straight away
+    return stage.toBlob({ mimeType: EXPORT_FORMATS[settings.format].mimeType, quality: settings.quality, pixelRatio }) as Promise<Blob | null>;
+  } finally {
+    hidden.forEach((node) => node.show());
+    recache.forEach((cacheEffects) => cacheEffects());
+  }
+};
+
+export const exportStage = async (stage: Konva.Stage, settings: ExportSettings): Promise<Blob> => {
+  const blob = await renderStage(stage, settings, getExportPixelRatio(settings, stage.size()));
+  if (!blob) throw new Error('Canvas export failed');
+  return blob;
+};
+
+// Bytes the export will take, roughly
+export const estimateExportSize = async (stage: Konva.Stage, settings: ExportSettings): Promise<number | null> => {
+  const design = stage.size();
+  const pixelRatio = getExportPixelRatio(settings, design);
+  const samplePixelRatio = Math.min(pixelRatio, Math.sqrt(ESTIMATE_PIXELS / (design.width * design.height)));
+  try {
+    const sample = await renderStage(stage, settings, samplePixelRatio);
+    return sample ? Math.round(sample.size * (pixelRatio / samplePixelRatio) ** 2) : null;
+  } catch (err) {
+    console.error('Error estimating export size:', err);
+    return null;
+  }
+};
+
+// --- REMEMBERED SETTINGS ---
+// Attendees' last choice, per template
+
+const readSavedSettings = (): Record<string, ExportSettings> => {
+  try {
+    return JSON.parse(localStorage.getItem(SAVED_SETTINGS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const getSavedExportSettings = (slug: string): ExportSettings | null => readSavedSettings()[slug] ?? null;
+
+export const saveExportSettings = (slug: string, settings: ExportSettings) => {
+  try {
+    localStorage.setItem(SAVED_SETTINGS_KEY, JSON.stringify({ ...readSavedSettings(), [slug]: settings }));
+  } catch (err) {
+    console.error('Error saving export settings:', err);
+  }
+};
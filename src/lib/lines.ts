@@ -0,0 +1,77 @@
+import { LineElement, LineHead } from '@/types/editor';
+
+// Lines and arrows, drawn around their centre with the plain canvas API so the
+// editor, the Generator and the headless renderer share one implementation.
+
+type Line = Pick<LineElement, 'length' | 'stroke' | 'strokeWidth' | 'lineCap' | 'startHead' | 'endHead'>;
+
+// Heads scale with the line so a thicker arrow keeps its shape
+const getHeadSize = (el: Line) => el.strokeWidth * 3;
+
+// Box the line is drawn in: its length across, and the thicker of shaft and heads
+export const getLineSize = (el: Line) => ({
+  width: el.length,
+  height: el.startHead === 'none' && el.endHead === 'none' ? el.strokeWidth : Math.max(el.strokeWidth, getHeadSize(el)),
+});
+
+// How far the shaft stops short of the tip, so its cap stays hidden under the head
+const getShaftInset = (head: LineHead, el: Line) => {
+  switch (head) {
+    case 'none':
+      return 0;
+    case 'arrow':
+      return el.strokeWidth / 2;
+    case 'triangle':
+    case 'circle':
+      return getHeadSize(el) / 2;
+  }
+};
+
+// Head with its tip at `tip`, pointing along `direction` (1 right, -1 left)
+const drawHead = (ctx: CanvasRenderingContext2D, head: LineHead, tip: number, direction: number, el: Line) => {
+  const size = getHeadSize(el);
+  ctx.beginPath();
+  switch (head) {
+    case 'none':
+      return;
+    case 'arrow': {
+      // Round join so the point of the chevron ends exactly at the tip
+      const point = tip - (direction * el.strokeWidth) / 2;
+      ctx.moveTo(point - direction * size, -size / 2);
+      ctx.lineTo(point, 0);
+      ctx.lineTo(point - direction * size, size / 2);
+      ctx.lineJoin = 'round';
+      ctx.stroke();
+      return;
+    }
+    case 'triangle':
+      ctx.moveTo(tip, 0);
+      ctx.lineTo(tip - direction * size, -size / 2);
+      ctx.lineTo(tip - direction * size, size / 2);
+      ctx.closePath();
+      ctx.fill();
+      return;
+    case 'circle':
+      ctx.arc(tip - (direction * size) / 2, 0, size / 2, 0, Math.PI * 2);
+      ctx.fill();
+      return;
+  }
+};
+
+export const drawLine = (ctx: CanvasRenderingContext2D, el: Line) => {
+  const half = el.length / 2;
+  ctx.save();
+  ctx.strokeStyle = el.stroke;
+  ctx.fillStyle = el.stroke;
+  ctx.lineWidth = el.strokeWidth;
+  ctx.lineCap = el.lineCap;
+
+  ctx.beginPath();
+  ctx.moveTo(-half + getShaftInset(el.startHead, el), 0);
+  ctx.lineTo(half - getShaftInset(el.endHead, el), 0);
+  ctx.stroke();
+
+  drawHead(ctx, el.startHead, -half, -1, el);
+  drawHead(ctx, el.endHead, half, 1, el);
+  ctx.restore();
+};
@@ -0,0 +1,26 @@
+import { Canvas, GlobalFonts, createCanvas, loadImage } from '@napi-rs/canvas';
+import { RenderBackend, RenderCanvas, RenderImage } from '@/lib/renderTemplate';
+
+// renderTemplate backend for Node, on @napi-rs/canvas. Only scripts and tests
+// import this; the app itself renders with browserRenderBackend.
+export const nodeRenderBackend: RenderBackend = {
+  createCanvas: (width, height) => createCanvas(width, height) as unknown as RenderCanvas,
+  // File paths work too, e.g. photos passed on the command line
+  loadImage: async (source) =>
+    (await loadImage(typeof source === 'string' ? source : Buffer.from(source))) as unknown as RenderImage,
+  encode: (canvas, format, quality) => {
+    const napiCanvas = canvas as unknown as Canvas;
+    return format === 'png' ? napiCanvas.encode('png') : napiCanvas.encode(format, Math.round(quality * 100));
+  },
+  // Font sources are data URLs or storage URLs, both of which fetch can read
+  loadFont: async (font) => {
+    try {
+      const response = await fetch(font.src);
+      if (!response.ok) throw new Error(`Failed to load ${font.src.slice(0, 80)}`);
+      return GlobalFonts.register(Buffer.from(await response.arrayBuffer()), font.family) !== null;
+    } catch (err) {
+      console.error('Error loading font:', font.family, err);
+      return false;
+    }
+  },
+};
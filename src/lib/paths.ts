@@ -0,0 +1,338 @@
+// SVG path data for path elements. Every command is reduced to absolute moves,
+// lines and cubic curves, which both Konva's context and a plain canvas can
+// trace, and which stay correct when the path is stretched to a new size.
+
+export type PathCommand =
+  | { type: 'M' | 'L'; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Z' };
+
+export interface PathBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// --- PARSING ---
+
+const COMMAND = /[MmLlHhVvCcSsQqTtAaZz]/;
+const NUMBER = /[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/y;
+
+// Arc from the current point, as up to four cubic curves (one per quarter turn)
+const arcToCurves = (
+  x1: number,
+  y1: number,
+  rx: number,
+  ry: number,
+  angle: number,
+  largeArc: boolean,
+  sweep: boolean,
+  x2: number,
+  y2: number
+): PathCommand[] => {
+  if (x1 === x2 && y1 === y2) return [];
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (rx === 0 || ry === 0) return [{ type: 'L', x: x2, y: y2 }];
+
+  // Centre parameterisation, following the SVG implementation notes
+  const phi = (angle * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+
+  // Radii too small to reach the end point are scaled up
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const coefficient = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = (coefficient * rx * y1p) / ry;
+  const cyp = (-coefficient * ry * x1p) / rx;
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+  const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+  const angleBetween = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const start = angleBetween(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = angleBetween((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= Math.PI * 2;
+  if (sweep && delta < 0) delta += Math.PI * 2;
+
+  // Point on the unit circle, mapped onto the ellipse
+  const toEllipse = (ux: number, uy: number) => ({
+    x: cx + rx * ux * cos - ry * uy * sin,
+    y: cy + rx * ux * sin + ry * uy * cos,
+  });
+
+  const segments = Math.ceil(Math.abs(delta) / (Math.PI / 2));
+  const step = delta / segments;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const curves: PathCommand[] = [];
+  for (let i = 0; i < segments; i++) {
+    const a = start + i * step;
+    const b = a + step;
+    const c1 = toEllipse(Math.cos(a) - k * Math.sin(a), Math.sin(a) + k * Math.cos(a));
+    const c2 = toEllipse(Math.cos(b) + k * Math.sin(b), Math.sin(b) - k * Math.cos(b));
+    const end = i === segments - 1 ? { x: x2, y: y2 } : toEllipse(Math.cos(b), Math.sin(b));
+    curves.push({ type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: end.x, y: end.y });
+  }
+  return curves;
+};
+
+// Read SVG path data. Like browsers, anything after the first error is ignored.
+const parse = (data: string): PathCommand[] => {
+  const commands: PathCommand[] = [];
+  let i = 0;
+
+  const skipSeparators = () => {
+    while (i < data.length && /[\s,]/.test(data[i])) i++;
+  };
+  const readNumber = () => {
+    skipSeparators();
+    NUMBER.lastIndex = i;
+    const match = NUMBER.exec(data);
+    if (!match) return null;
+    i += match[0].length;
+    return parseFloat(match[0]);
+  };
+  // Arc flags are single digits and may be written without separators ("a5 5 0 011 1")
+  const readFlag = () => {
+    skipSeparators();
+    const char = data[i];
+    if (char !== '0' && char !== '1') return null;
+    i++;
+    return char === '1';
+  };
+  const readNumbers = (count: number) => {
+    const values: number[] = [];
+    for (let n = 0; n < count; n++) {
+      const value = readNumber();
+      if (value === null) return null;
+      values.push(value);
+    }
+    return values;
+  };
+
+  let command = '';
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  // Reflected control points for S and T
+  let lastCubic: { x: number; y: number } | null = null;
+  let lastQuad: { x: number; y: number } | null = null;
+
+  const quadTo = (qx: number, qy: number, ex: number, ey: number) => {
+    commands.push({
+      type: 'C',
+      x1: x + ((qx - x) * 2) / 3,
+      y1: y + ((qy - y) * 2) / 3,
+      x2: ex + ((qx - ex) * 2) / 3,
+      y2: ey + ((qy - ey) * 2) / 3,
+      x: ex,
+      y: ey,
+    });
+  };
+
+  for (;;) {
+    skipSeparators();
+    if (i >= data.length) break;
+    if (COMMAND.test(data[i])) command = data[i++];
+    // Numbers may repeat the previous command, but not after a close
+    else if (!command || command === 'z' || command === 'Z') break;
+
+    const type = command.toUpperCase();
+    const relative = command !== type;
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+    let cubic: { x: number; y: number } | null = null;
+    let quad: { x: number; y: number } | null = null;
+
+    if (type === 'Z') {
+      commands.push({ type: 'Z' });
+      x = startX;
+      y = startY;
+    } else if (type === 'M' || type === 'L' || type === 'T') {
+      const values = readNumbers(2);
+      if (!values) break;
+      const ex = ox + values[0];
+      const ey = oy + values[1];
+      if (type === 'T') {
+        const q = lastQuad ? { x: x * 2 - lastQuad.x, y: y * 2 - lastQuad.y } : { x, y };
+        quadTo(q.x, q.y, ex, ey);
+        quad = q;
+      } else {
+        commands.push({ type, x: ex, y: ey });
+      }
+      if (type === 'M') {
+        startX = ex;
+        startY = ey;
+        // Further pairs after a move are lines
+        command = relative ? 'l' : 'L';
+      }
+      x = ex;
+      y = ey;
+    } else if (type === 'H' || type === 'V') {
+      const value = readNumber();
+      if (value === null) break;
+      if (type === 'H') x = ox + value;
+      else y = oy + value;
+      commands.push({ type: 'L', x, y });
+    } else if (type === 'C' || type === 'S') {
+      const values = readNumbers(type === 'C' ? 6 : 4);
+      if (!values) break;
+      const [c1x, c1y] =
+        type === 'C'
+          ? [ox + values[0], oy + values[1]]
+          : lastCubic
+            ? [x * 2 - lastCubic.x, y * 2 - lastCubic.y]
+            : [x, y];
+      const rest = type === 'C' ? values.slice(2) : values;
+      const c2 = { x: ox + rest[0], y: oy + rest[1] };
+      const ex = ox + rest[2];
+      const ey = oy + rest[3];
+      commands.push({ type: 'C', x1: c1x, y1: c1y, x2: c2.x, y2: c2.y, x: ex, y: ey });
+      cubic = c2;
+      x = ex;
+      y = ey;
+    } else if (type === 'Q') {
+      const values = readNumbers(4);
+      if (!values) break;
+      const q = { x: ox + values[0], y: oy + values[1] };
+      const ex = ox + values[2];
+      const ey = oy + values[3];
+      quadTo(q.x, q.y, ex, ey);
+      quad = q;
+      x = ex;
+      y = ey;
+    } else if (type === 'A') {
+      const radii = readNumbers(3);
+      const largeArc = radii && readFlag();
+      const sweep = largeArc !== null && radii ? readFlag() : null;
+      const end = sweep !== null ? readNumbers(2) : null;
+      if (!radii || largeArc === null || sweep === null || !end) break;
+      const ex = ox + end[0];
+      const ey = oy + end[1];
+      commands.push(...arcToCurves(x, y, radii[0], radii[1], radii[2], largeArc, sweep, ex, ey));
+      x = ex;
+      y = ey;
+    }
+
+    lastCubic = cubic;
+    lastQuad = quad;
+  }
+
+  // A path has to start with a move
+  return commands[0]?.type === 'M' ? commands : [];
+};
+
+// Paths are traced on every frame, so parse each distinct string once
+const parsedPaths = new Map<string, PathCommand[]>();
+
+export const parsePathData = (data: string): PathCommand[] => {
+  let commands = parsedPaths.get(data);
+  if (!commands) {
+    commands = parse(data);
+    parsedPaths.set(data, commands);
+  }
+  return commands;
+};
+
+// Two decimals is well below a pixel and keeps saved templates small
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+export const serializePath = (commands: PathCommand[]) =>
+  commands
+    .map((c) => {
+      switch (c.type) {
+        case 'Z':
+          return 'Z';
+        case 'C':
+          return `C${[c.x1, c.y1, c.x2, c.y2, c.x, c.y].map(formatNumber).join(' ')}`;
+        default:
+          return `${c.type}${formatNumber(c.x)} ${formatNumber(c.y)}`;
+      }
+    })
+    .join(' ');
+
+// --- GEOMETRY ---
+
+// Parameters in (0, 1) where one axis of a cubic curve turns around
+const cubicExtrema = (p0: number, p1: number, p2: number, p3: number) => {
+  const a = -p0 + 3 * p1 - 3 * p2 + p3;
+  const b = 2 * (p0 - 2 * p1 + p2);
+  const c = p1 - p0;
+  let roots: number[];
+  if (Math.abs(a) < 1e-12) {
+    roots = Math.abs(b) < 1e-12 ? [] : [-c / b];
+  } else {
+    const discriminant = b * b - 4 * a * c;
+    if (discriminant < 0) return [];
+    const root = Math.sqrt(discriminant);
+    roots = [(-b + root) / (2 * a), (-b - root) / (2 * a)];
+  }
+  return roots.filter((t) => t > 0 && t < 1);
+};
+
+const cubicAt = (p0: number, p1: number, p2: number, p3: number, t: number) => {
+  const mt = 1 - t;
+  return mt * mt * mt * p0 + 3 * mt * mt * t * p1 + 3 * mt * t * t * p2 + t * t * t * p3;
+};
+
+// Tight bounds of the drawn path (curves are measured, not their control points)
+export const getPathBounds = (commands: PathCommand[]): PathBounds => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  const include = (px: number, py: number) => {
+    minX = Math.min(minX, px);
+    minY = Math.min(minY, py);
+    maxX = Math.max(maxX, px);
+    maxY = Math.max(maxY, py);
+  };
+
+  let x = 0;
+  let y = 0;
+  commands.forEach((c) => {
+    if (c.type === 'Z') return;
+    if (c.type === 'C') {
+      cubicExtrema(x, c.x1, c.x2, c.x).forEach((t) => include(cubicAt(x, c.x1, c.x2, c.x, t), cubicAt(y, c.y1, c.y2, c.y, t)));
+      cubicExtrema(y, c.y1, c.y2, c.y).forEach((t) => include(cubicAt(x, c.x1, c.x2, c.x, t), cubicAt(y, c.y1, c.y2, c.y, t)));
+    }
+    include(c.x, c.y);
+    x = c.x;
+    y = c.y;
+  });
+
+  if (minX === Infinity) return { x: 0, y: 0, width: 0, height: 0 };
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+// Stretch a path so its bounds fill `box`. A flat side stays flat, centred in the box.
+export const fitPath = (commands: PathCommand[], box: PathBounds): PathCommand[] => {
+  const bounds = getPathBounds(commands);
+  const sx = bounds.width ? box.width / bounds.width : 0;
+  const sy = bounds.height ? box.height / bounds.height : 0;
+  const mapX = (px: number) => (sx ? box.x + (px - bounds.x) * sx : box.x + box.width / 2);
+  const mapY = (py: number) => (sy ? box.y + (py - bounds.y) * sy : box.y + box.height / 2);
+
+  return commands.map((c) => {
+    switch (c.type) {
+      case 'Z':
+        return c;
+      case 'C':
+        return { type: 'C', x1: mapX(c.x1), y1: mapY(c.y1), x2: mapX(c.x2), y2: mapY(c.y2), x: mapX(c.x), y: mapY(c.y) };
+      default:
+        return { type: c.type, x: mapX(c.x), y: mapY(c.y) };
+    }
+  });
+};
@@ -0,0 +1,252 @@
+import { PathCommand } from '@/lib/paths';
+import { Matrix, Rgba, VectorOp, VectorPaint } from '@/lib/vectorContext';
+
+// Writes recorded drawing operations as a single-page PDF. Everything is drawn
+// with paths, shadings and images, so no fonts are embedded: text reaches this
+// point as outlines or as pictures (see VectorContext). Streams are compressed
+// with the platform's CompressionStream.
+
+// Pixels of an image, ready to embed
+export type PdfImageData =
+  // A JPEG file embedded as is, at its full resolution
+  | { kind: 'jpeg'; bytes: Uint8Array; width: number; height: number; components: 1 | 3 }
+  | { kind: 'rgba'; data: Uint8ClampedArray; width: number; height: number };
+
+export interface PdfPage {
+  // Size of the design the ops are drawn in
+  width: number;
+  height: number;
+  // Page size in points (1/72 inch)
+  widthPt: number;
+  heightPt: number;
+}
+
+const encoder = new TextEncoder();
+
+const concat = (chunks: Uint8Array[]) => {
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+};
+
+export const deflate = async (data: Uint8Array) => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Short numbers keep the content stream small; PDF doesn't accept exponents
+const n = (value: number) => {
+  const rounded = Math.round(value * 1000) / 1000;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+const colorOperands = ({ r, g, b }: Rgba) => `${n(r / 255)} ${n(g / 255)} ${n(b / 255)}`;
+
+const BLEND_MODES: Partial<Record<GlobalCompositeOperation, string>> = {
+  multiply: 'Multiply',
+  screen: 'Screen',
+  overlay: 'Overlay',
+  darken: 'Darken',
+  lighten: 'Lighten',
+  'color-dodge': 'ColorDodge',
+  'color-burn': 'ColorBurn',
+  'hard-light': 'HardLight',
+  'soft-light': 'SoftLight',
+  difference: 'Difference',
+  exclusion: 'Exclusion',
+  hue: 'Hue',
+  saturation: 'Saturation',
+  color: 'Color',
+  luminosity: 'Luminosity',
+};
+
+const tracePath = (path: PathCommand[]) =>
+  path
+    .map((c) => {
+      if (c.type === 'M') return `${n(c.x)} ${n(c.y)} m`;
+      if (c.type === 'L') return `${n(c.x)} ${n(c.y)} l`;
+      if (c.type === 'C') return `${n(c.x1)} ${n(c.y1)} ${n(c.x2)} ${n(c.y2)} ${n(c.x)} ${n(c.y)} c`;
+      return 'h';
+    })
+    .join('\n');
+
+const matrixOperands = (m: Matrix) => m.map(n).join(' ');
+
+// Colour along a gradient, as stitched exponential functions between its stops.
+// PDF shadings have no alpha, so stop transparency is dropped.
+const gradientFunction = (stops: { offset: number; color: Rgba }[]) => {
+  const clamped = stops.map((stop) => ({ ...stop, offset: Math.min(1, Math.max(0, stop.offset)) }));
+  if (clamped.length === 0) clamped.push({ offset: 0, color: { r: 0, g: 0, b: 0, a: 1 } });
+  if (clamped[0].offset > 0) clamped.unshift({ ...clamped[0], offset: 0 });
+  if (clamped[clamped.length - 1].offset < 1) clamped.push({ ...clamped[clamped.length - 1], offset: 1 });
+
+  const pieces = clamped.slice(1).map(
+    (stop, i) => `<< /FunctionType 2 /Domain [0 1] /C0 [${colorOperands(clamped[i].color)}] /C1 [${colorOperands(stop.color)}] /N 1 >>`
+  );
+  const bounds = clamped.slice(1, -1).map((stop) => n(stop.offset));
+  return `<< /FunctionType 3 /Domain [0 1] /Functions [${pieces.join(' ')}] /Bounds [${bounds.join(' ')}] /Encode [${pieces.map(() => '0 1').join(' ')}] >>`;
+};
+
+export const writePdf = async (
+  ops: VectorOp[],
+  page: PdfPage,
+  getImageData: (image: CanvasImageSource) => Promise<PdfImageData>
+): Promise<Uint8Array> => {
+  // Object 1 is the catalog, 2 the page tree and 3 the page; the rest follow
+  const objects: Uint8Array[] = [];
+  const addObject = (dictionary: string, stream?: Uint8Array) => {
+    const id = objects.length + 4;
+    objects.push(
+      stream
+        ? concat([encoder.encode(`${dictionary.replace(/>>\s*$/, '')} /Length ${stream.length} >>\nstream\n`), stream, encoder.encode('\nendstream')])
+        : encoder.encode(dictionary)
+    );
+    return id;
+  };
+
+  const graphicsStates = new Map<string, string>();
+  const shadings: string[] = [];
+  const images = new Map<CanvasImageSource, string>();
+  const imageObjects: string[] = [];
+
+  const getGraphicsState = (fillAlpha: number, strokeAlpha: number, blend: GlobalCompositeOperation) => {
+    const mode = BLEND_MODES[blend];
+    if (fillAlpha >= 1 && strokeAlpha >= 1 && !mode) return '';
+    const key = `${n(fillAlpha)}|${n(strokeAlpha)}|${mode ?? ''}`;
+    let name = graphicsStates.get(key);
+    if (!name) {
+      name = `GS${graphicsStates.size}`;
+      graphicsStates.set(key, name);
+    }
+    return `/${name} gs\n`;
+  };
+
+  const addShading = (paint: Exclude<VectorPaint, { kind: 'color' }>) => {
+    const coords =
+      paint.kind === 'linear'
+        ? `/ShadingType 2 /Coords [${[paint.x0, paint.y0, paint.x1, paint.y1].map(n).join(' ')}]`
+        : `/ShadingType 3 /Coords [${[paint.cx, paint.cy, 0, paint.cx, paint.cy, paint.r].map(n).join(' ')}]`;
+    shadings.push(`<< ${coords} /ColorSpace /DeviceRGB /Function ${gradientFunction(paint.stops)} /Extend [true true] >>`);
+    return `Sh${shadings.length - 1}`;
+  };
+
+  const addImage = async (image: CanvasImageSource) => {
+    let name = images.get(image);
+    if (name) return name;
+    const data = await getImageData(image);
+    let dictionary: string;
+    let stream: Uint8Array;
+    if (data.kind === 'jpeg') {
+      const colorSpace = data.components === 1 ? '/DeviceGray' : '/DeviceRGB';
+      dictionary = `<< /Type /XObject /Subtype /Image /Width ${data.width} /Height ${data.height} /ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode >>`;
+      stream = data.bytes;
+    } else {
+      // Colour and alpha are separate images in PDF; the alpha one is a soft mask
+      const pixels = data.width * data.height;
+      const rgb = new Uint8Array(pixels * 3);
+      const alpha = new Uint8Array(pixels);
+      let isOpaque = true;
+      for (let i = 0; i < pixels; i++) {
+        rgb[i * 3] = data.data[i * 4];
+        rgb[i * 3 + 1] = data.data[i * 4 + 1];
+        rgb[i * 3 + 2] = data.data[i * 4 + 2];
+        alpha[i] = data.data[i * 4 + 3];
+        if (alpha[i] < 255) isOpaque = false;
+      }
+      const size = `/Width ${data.width} /Height ${data.height} /BitsPerComponent 8 /Filter /FlateDecode`;
+      const mask = isOpaque ? '' : ` /SMask ${addObject(`<< /Type /XObject /Subtype /Image ${size} /ColorSpace /DeviceGray >>`, await deflate(alpha))} 0 R`;
+      dictionary = `<< /Type /XObject /Subtype /Image ${size} /ColorSpace /DeviceRGB${mask} >>`;
+      stream = await deflate(rgb);
+    }
+    name = `Im${images.size}`;
+    images.set(image, name);
+    imageObjects.push(`/${name} ${addObject(dictionary, stream)} 0 R`);
+    return name;
+  };
+
+  // Page space has y pointing up from the bottom in points; the ops use the design's pixels
+  const scale = page.widthPt / page.width;
+  const content: string[] = [`${n(scale)} 0 0 ${n(-page.heightPt / page.height)} 0 ${n(page.heightPt)} cm`];
+
+  for (const op of ops) {
+    const parts = ['q'];
+    op.clips.forEach((clip) => parts.push(`${tracePath(clip.path)}\n${clip.rule === 'evenodd' ? 'W*' : 'W'} n`));
+
+    switch (op.type) {
+      case 'fill':
+      case 'stroke': {
+        const { paint } = op;
+        const colorAlpha = paint.kind === 'color' ? paint.color.a : 1;
+        const isFill = op.type === 'fill';
+        parts.push(getGraphicsState(isFill ? op.alpha * colorAlpha : 1, isFill ? 1 : op.alpha * colorAlpha, op.blend).trimEnd());
+        if (op.type === 'stroke') {
+          const joins = { miter: 0, round: 1, bevel: 2 };
+          const caps = { butt: 0, round: 1, square: 2 };
+          // Gradient strokes aren't drawn by this app; fall back to their first colour
+          const color = paint.kind === 'color' ? paint.color : paint.stops[0]?.color ?? { r: 0, g: 0, b: 0, a: 1 };
+          parts.push(`${colorOperands(color)} RG ${n(op.width)} w ${joins[op.join]} j ${caps[op.cap]} J 10 M`);
+          parts.push(`${tracePath(op.path)}\nS`);
+        } else if (paint.kind === 'color') {
+          parts.push(`${colorOperands(paint.color)} rg`);
+          parts.push(`${tracePath(op.path)}\n${op.rule === 'evenodd' ? 'f*' : 'f'}`);
+        } else {
+          parts.push(`${tracePath(op.path)}\n${op.rule === 'evenodd' ? 'W*' : 'W'} n\n/${addShading(paint)} sh`);
+        }
+        break;
+      }
+      case 'image': {
+        const name = await addImage(op.image);
+        parts.push(getGraphicsState(op.alpha, op.alpha, op.blend).trimEnd());
+        // Images fill the unit square with y up, so flip them into the op's box
+        parts.push(`${matrixOperands(op.matrix)} cm\n${n(op.width)} 0 0 ${n(-op.height)} 0 ${n(op.height)} cm\n/${name} Do`);
+        break;
+      }
+      case 'text':
+        // Recorded only when text is kept as text, which PDF output never asks for
+        break;
+    }
+    parts.push('Q');
+    content.push(parts.filter(Boolean).join('\n'));
+  }
+
+  const contentId = addObject('<< /Filter /FlateDecode >>', await deflate(encoder.encode(content.join('\n'))));
+  const states = [...graphicsStates.entries()].map(([key, name]) => {
+    const [fill, stroke, mode] = key.split('|');
+    return `/${name} << /Type /ExtGState /ca ${fill} /CA ${stroke}${mode ? ` /BM /${mode}` : ''} >>`;
+  });
+  const shadingRefs = shadings.map((shading, i) => `/Sh${i} ${addObject(shading)} 0 R`);
+  const resources = [
+    states.length ? `/ExtGState << ${states.join(' ')} >>` : '',
+    shadingRefs.length ? `/Shading << ${shadingRefs.join(' ')} >>` : '',
+    imageObjects.length ? `/XObject << ${imageObjects.join(' ')} >>` : '',
+  ].join(' ');
+
+  const fixed = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${n(page.widthPt)} ${n(page.heightPt)}] /Resources << ${resources} >> /Contents ${contentId} 0 R >>`,
+  ].map((dictionary) => encoder.encode(dictionary));
+
+  // Header, numbered objects, then the table of where each one starts
+  const chunks: Uint8Array[] = [encoder.encode('%PDF-1.4\n%âãÏÓ\n')];
+  const offsets: number[] = [];
+  let length = chunks[0].length;
+  [...fixed, ...objects].forEach((body, i) => {
+    offsets.push(length);
+    const chunk = concat([encoder.encode(`${i + 1} 0 obj\n`), body, encoder.encode('\nendobj\n')]);
+    chunks.push(chunk);
+    length += chunk.length;
+  });
+  const count = offsets.length + 1;
+  const xref = [
+    `xref\n0 ${count}\n0000000000 65535 f \n`,
+    ...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`),
+    `trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${length}\n%%EOF\n`,
+  ].join('');
+  chunks.push(encoder.encode(xref));
+  return concat(chunks);
+};
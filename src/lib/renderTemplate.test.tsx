@@ -0,0 +1,262 @@
+import { describe, expect, it } from 'vitest';
+import { CanvasElement, TemplateData } from '@/types/editor';
+import { CURRENT_SCHEMA_VERSION } from '@/lib/templateSchema';
+import { EXPORT_PIXEL_RATIO, renderTemplate } from '@/lib/renderTemplate';
+import { nodeRenderBackend } from '@/lib/nodeRenderBackend';
+import { DEFAULT_EXPORT_SETTINGS, exportStage } from '@/lib/imageExport';
+import {
+  MAX_DIFF_RATIO,
+  decodePixels,
+  getDiffBounds,
+  getDiffRatio,
+  mountDesign,
+  mountEditor,
+  readPixels,
+} from '@/test/render';
+
+// renderTemplate promises the same picture as the Generator's and Editor's
+// Konva stages, so each design is drawn both ways and compared.
+
+const createTemplate = (elements: CanvasElement[], overrides: Partial<TemplateData> = {}): TemplateData => ({
+  id: 'parity',
+  slug: 'parity',
+  name: 'Parity',
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  width: 400,
+  height: 300,
+  backgroundColor: '#f8fafc',
+  elements,
+  ...overrides,
+});
+
+const base = { rotation: 0, isPlaceholder: false };
+
+const DESIGNS: Record<string, TemplateData> = {
+  shapes: createTemplate([
+    {
+      ...base,
+      id: 'rect',
+      type: 'rect',
+      x: 90,
+      y: 70,
+      width: 140,
+      height: 90,
+      cornerRadius: 16,
+      fill: '#2563eb',
+      fillGradient: { type: 'linear', angle: 135, stops: [{ offset: 0, color: '#2563eb' }, { offset: 1, color: '#f43f5e' }] },
+      strokes: [
+        { color: '#0f172a', width: 6, position: 'inside' },
+        { color: '#fbbf24', width: 4, position: 'outside' },
+      ],
+    },
+    {
+      ...base,
+      id: 'circle',
+      type: 'circle',
+      x: 300,
+      y: 70,
+      radius: 50,
+      fill: '#22c55e',
+      fillGradient: { type: 'radial', angle: 0, stops: [{ offset: 0, color: '#ffffff' }, { offset: 1, color: '#15803d' }] },
+    },
+    { ...base, id: 'ellipse', type: 'ellipse', x: 80, y: 220, radiusX: 60, radiusY: 35, fill: '#a855f7', rotation: 20 },
+    { ...base, id: 'ring', type: 'ring', x: 200, y: 220, radius: 50, innerRadius: 30, fill: '#0ea5e9' },
+    {
+      ...base,
+      id: 'star',
+      type: 'star',
+      x: 320,
+      y: 220,
+      radius: 55,
+      innerRadius: 25,
+      numPoints: 5,
+      fill: '#facc15',
+      strokes: [{ color: '#854d0e', width: 3, position: 'center' }],
+    },
+    { ...base, id: 'polygon', type: 'polygon', x: 200, y: 110, radius: 40, sides: 6, fill: '#f97316', rotation: 15 },
+  ]),
+  path: createTemplate([
+    {
+      ...base,
+      id: 'path',
+      type: 'path',
+      x: 200,
+      y: 150,
+      width: 240,
+      height: 200,
+      data: 'M0 0 L100 0 L100 100 L0 100 Z M25 25 L75 25 L75 75 L25 75 Z',
+      fillRule: 'evenodd',
+      fill: '#14b8a6',
+      strokes: [{ color: '#134e4a', width: 5, position: 'inside' }],
+    },
+  ]),
+  lines: createTemplate([
+    {
+      ...base,
+      id: 'arrow',
+      type: 'line',
+      x: 200,
+      y: 80,
+      length: 300,
+      stroke: '#1e293b',
+      strokeWidth: 8,
+      lineCap: 'round',
+      startHead: 'circle',
+      endHead: 'arrow',
+    },
+    {
+      ...base,
+      id: 'diagonal',
+      type: 'line',
+      x: 200,
+      y: 200,
+      rotation: -30,
+      length: 220,
+      stroke: '#dc2626',
+      strokeWidth: 12,
+      lineCap: 'square',
+      startHead: 'none',
+      endHead: 'triangle',
+    },
+  ]),
+  text: createTemplate(
+    [
+      {
+        ...base,
+        id: 'title',
+        type: 'text',
+        x: 200,
+        y: 80,
+        width: 340,
+        text: 'Welcome to the conference',
+        fontSize: 36,
+        fontFamily: 'sans-serif',
+        fontStyle: 'normal',
+        fontWeight: 'bold',
+        textAlign: 'center',
+        fill: '#ffffff',
+        textStroke: { color: '#0f172a', width: 4 },
+      },
+      {
+        ...base,
+        id: 'body',
+        type: 'text',
+        x: 200,
+        y: 210,
+        width: 320,
+        rotation: -5,
+        text: 'Hello Jane, see you there',
+        fontSize: 28,
+        fontFamily: 'sans-serif',
+        fontStyle: 'normal',
+        fontWeight: 400,
+        textAlign: 'left',
+        fill: '#fde68a',
+        letterSpacing: 1,
+        runs: [
+          { text: 'Hello ' },
+          { text: 'Jane', fill: '#f472b6', fontWeight: 'bold', underline: true, editable: true },
+          { text: ', see you there', fontStyle: 'italic' },
+        ],
+      },
+    ],
+    {
+      backgroundColor: '#1e3a8a',
+      backgroundGradient: { type: 'linear', angle: 180, stops: [{ offset: 0, color: '#1e3a8a' }, { offset: 1, color: '#7c3aed' }] },
+    }
+  ),
+  group: createTemplate([
+    {
+      ...base,
+      id: 'group',
+      type: 'group',
+      x: 200,
+      y: 150,
+      rotation: 25,
+      opacity: 0.8,
+      children: [
+        { ...base, id: 'left', type: 'rect', x: -70, y: 0, width: 100, height: 100, cornerRadius: 0, fill: '#ef4444' },
+        { ...base, id: 'right', type: 'circle', x: 70, y: 0, radius: 50, fill: '#3b82f6', opacity: 0.5 },
+      ],
+    },
+  ]),
+  effects: createTemplate([
+    {
+      ...base,
+      id: 'shadowed',
+      type: 'rect',
+      x: 130,
+      y: 120,
+      width: 160,
+      height: 120,
+      cornerRadius: 20,
+      fill: '#f59e0b',
+      shadow: { color: 'rgba(0, 0, 0, 0.5)', blur: 12, offsetX: 8, offsetY: 10 },
+    },
+    { ...base, id: 'blurred', type: 'circle', x: 300, y: 90, radius: 50, fill: '#8b5cf6', blur: 6 },
+    {
+      ...base,
+      id: 'multiplied',
+      type: 'group',
+      x: 240,
+      y: 200,
+      rotation: 0,
+      blendMode: 'multiply',
+      children: [{ ...base, id: 'stripe', type: 'rect', x: 0, y: 0, width: 260, height: 60, cornerRadius: 0, fill: '#06b6d4' }],
+    },
+  ]),
+};
+
+describe('renderTemplate matches the Konva stage', () => {
+  it.each(Object.entries(DESIGNS))('%s', async (_name, template) => {
+    const { stage, unmount } = mountDesign(template);
+    const konva = readPixels(stage.toCanvas({ pixelRatio: EXPORT_PIXEL_RATIO }) as HTMLCanvasElement);
+    unmount();
+    const canvas = await decodePixels(await renderTemplate(template, { pixelRatio: EXPORT_PIXEL_RATIO }, nodeRenderBackend));
+
+    expect([canvas.width, canvas.height]).toEqual([konva.width, konva.height]);
+    expect(getDiffRatio(konva, canvas)).toBeLessThan(MAX_DIFF_RATIO);
+  });
+});
+
+// The Editor draws through ShapeRenderer, which adds transformer targets and
+// placeholder hints; exports must still match, whatever is selected.
+describe('renderTemplate matches the Editor export', () => {
+  it.each(Object.entries(DESIGNS))('%s', async (_name, template) => {
+    const { stage, unmount } = mountEditor(template, { selectedIds: template.elements.map((el) => el.id) });
+    const exported = await decodePixels(await exportStage(stage, DEFAULT_EXPORT_SETTINGS));
+    unmount();
+    const canvas = await decodePixels(await renderTemplate(template, { pixelRatio: EXPORT_PIXEL_RATIO }, nodeRenderBackend));
+
+    expect([canvas.width, canvas.height]).toEqual([exported.width, exported.height]);
+    expect(getDiffRatio(exported, canvas)).toBeLessThan(MAX_DIFF_RATIO);
+  });
+
+  it('keeps the hint for an empty placeholder inside its box', async () => {
+    const template = createTemplate([
+      {
+        ...base,
+        id: 'frame',
+        type: 'group',
+        x: 220,
+        y: 160,
+        children: [
+          { ...base, id: 'photo', type: 'rect', x: -40, y: -20, width: 160, height: 120, cornerRadius: 12, fill: '#1e293b', isPlaceholder: true },
+          { ...base, id: 'badge', type: 'circle', x: 60, y: 50, radius: 30, fill: '#f43f5e' },
+        ],
+      },
+    ]);
+    const { stage, unmount } = mountEditor(template);
+    const exported = await decodePixels(await exportStage(stage, DEFAULT_EXPORT_SETTINGS));
+    unmount();
+    const canvas = await decodePixels(await renderTemplate(template, { pixelRatio: EXPORT_PIXEL_RATIO }, nodeRenderBackend));
+
+    // The photo's box is 100-260 × 80-200 on the canvas, drawn at twice the size
+    const bounds = getDiffBounds(exported, canvas);
+    expect(bounds).not.toBeNull();
+    expect(bounds.left).toBeGreaterThanOrEqual(100 * EXPORT_PIXEL_RATIO - 2);
+    expect(bounds.top).toBeGreaterThanOrEqual(80 * EXPORT_PIXEL_RATIO - 2);
+    expect(bounds.right).toBeLessThanOrEqual(260 * EXPORT_PIXEL_RATIO + 2);
+    expect(bounds.bottom).toBeLessThanOrEqual(200 * EXPORT_PIXEL_RATIO + 2);
+  });
+});
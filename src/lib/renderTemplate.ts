@@ -0,0 +1,289 @@
+import { CanvasElement, CustomFont, ExportFormat, TemplateData, TextElement } from '@/types/editor';
+import { TemplateContent, parseTemplateContent } from '@/lib/templateSchema';
+import { flattenElements, mapElementTree } from '@/lib/elements';
+import { applyTextValues } from '@/lib/fields';
+import { registerFont } from '@/lib/fonts';
+import {
+  ShapeElement,
+  getShapeOutline,
+  getOutlineBounds,
+  getStrokeOutline,
+  getStrokeLineWidth,
+  getCoverRect,
+  getFillRule,
+  getPlaceholderImageRect,
+  needsStrokeClip,
+  traceOutline,
+  traceStrokeClip,
+} from '@/lib/shapes';
+import { drawTextLayout, layoutText } from '@/lib/textLayout';
+import { drawLine } from '@/lib/lines';
+import { createCanvasGradient } from '@/lib/gradients';
+import { applyEffects, getCompositeOperation, hasEffects } from '@/lib/effects';
+
+// Renders a personalised design without a browser. It draws with the plain
+// canvas 2D API using the same layout maths as ElementContent, so the result
+// matches what the Generator downloads. The canvas implementation is passed in:
+// browserRenderBackend below, or nodeRenderBackend for scripts (see
+// scripts/render-template.ts):
+//
+//   const png = await renderTemplate(template, { images: { [photoId]: photoBuffer } }, nodeRenderBackend);
+//
+// Uploaded fonts are passed to the backend's loadFont; any other fonts must be
+// registered with the backend before rendering.
+
+// Same resolution as the Generator's download
+export const EXPORT_PIXEL_RATIO = 2;
+
+export type RenderFormat = ExportFormat;
+
+export type RenderImage = CanvasImageSource & { width: number; height: number };
+
+export interface RenderCanvas {
+  getContext(type: '2d'): CanvasRenderingContext2D;
+}
+
+export interface RenderBackend {
+  createCanvas: (width: number, height: number) => RenderCanvas;
+  // URLs, data URLs or raw file bytes
+  loadImage: (source: string | Uint8Array) => Promise<RenderImage>;
+  encode: (canvas: RenderCanvas, format: RenderFormat, quality: number) => Promise<Uint8Array> | Uint8Array;
+  // Make an uploaded font available to the canvas; resolves to false if it can't be used
+  loadFont?: (font: CustomFont) => Promise<boolean>;
+}
+
+export interface RenderOptions {
+  // Photos for image placeholders, keyed by element id
+  images?: Record<string, string | Uint8Array>;
+  // Replacement text, keyed by text element id or `id#run` for an editable run (see getTextFields)
+  texts?: Record<string, string>;
+  format?: RenderFormat;
+  // JPEG and WebP quality between 0 and 1
+  quality?: number;
+  pixelRatio?: number;
+  // Skip the background colour or gradient; a background photo is still drawn
+  transparent?: boolean;
+}
+
+// Thrown when a design can't be rendered, e.g. a photo fails to load
+export class TemplateRenderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateRenderError';
+  }
+}
+
+type Context = CanvasRenderingContext2D;
+
+const loadOrThrow = async (backend: RenderBackend, source: string | Uint8Array, what: string) => {
+  try {
+    return await backend.loadImage(source);
+  } catch (err) {
+    console.error(err);
+    throw new TemplateRenderError(`Could not load ${what}.`);
+  }
+};
+
+// Backend for running the same renderer in the browser, e.g. for batch jobs
+export const browserRenderBackend: RenderBackend = {
+  createCanvas: (width, height) => Object.assign(document.createElement('canvas'), { width, height }),
+  loadImage: (source) =>
+    new Promise((resolve, reject) => {
+      const isBytes = typeof source !== 'string';
+      const url = isBytes ? URL.createObjectURL(new Blob([source])) : source;
+      const image = new Image();
+      // Storage URLs are cross-origin; without CORS the canvas can't be exported
+      image.crossOrigin = 'anonymous';
+      // A decoded image stays drawable after its object URL is revoked
+      const release = () => isBytes && URL.revokeObjectURL(url);
+      image.onload = () => {
+        release();
+        resolve(image);
+      };
+      image.onerror = () => {
+        release();
+        reject(new Error(`Failed to load ${isBytes ? 'image data' : url.slice(0, 80)}`));
+      };
+      image.src = url;
+    }),
+  encode: (canvas, format, quality) =>
+    new Promise((resolve, reject) => {
+      (canvas as HTMLCanvasElement).toBlob(
+        (blob) => (blob ? blob.arrayBuffer().then((buffer) => resolve(new Uint8Array(buffer)), reject) : reject(new Error('Canvas export failed'))),
+        `image/${format}`,
+        quality
+      );
+    }),
+  loadFont: registerFont,
+};
+
+// --- DRAWING ---
+
+const drawText = (ctx: Context, el: TextElement) => {
+  const layout = layoutText(el, (text, font) => {
+    ctx.font = font;
+    return ctx.measureText(text).width;
+  });
+  drawTextLayout(ctx, el, layout);
+};
+
+const drawShape = (ctx: Context, el: ShapeElement, image: RenderImage | undefined) => {
+  const outline = getShapeOutline(el);
+
+  // Fill and photo, clipped to the shape
+  const fillRule = getFillRule(outline);
+  ctx.save();
+  traceOutline(ctx, outline);
+  ctx.clip(fillRule);
+  if (el.type !== 'image' && (el.fill || el.fillGradient)) {
+    ctx.fillStyle = el.fillGradient ? createCanvasGradient(ctx, el.fillGradient, getOutlineBounds(outline)) : el.fill;
+    ctx.fill(fillRule);
+  }
+  if (image) {
+    const rect = getPlaceholderImageRect(el, image);
+    ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height);
+  }
+  ctx.restore();
+
+  // Strokes on top, offset (or for paths, clipped) to sit inside, on or outside the edge
+  el.strokes?.forEach((stroke) => {
+    if (stroke.width <= 0) return;
+    const strokeOutline = getStrokeOutline(el, stroke);
+    ctx.save();
+    if (needsStrokeClip(strokeOutline, stroke)) ctx.clip(traceStrokeClip(ctx, strokeOutline, stroke));
+    traceOutline(ctx, strokeOutline);
+    ctx.strokeStyle = stroke.color;
+    ctx.lineWidth = getStrokeLineWidth(strokeOutline, stroke);
+    ctx.lineJoin = 'miter';
+    ctx.stroke();
+    ctx.restore();
+  });
+};
+
+// Draws an element that has a shadow, blur or blend mode, given a way to draw its content
+export type DrawEffects = (ctx: Context, el: CanvasElement, drawContent: (target: Context) => void) => void;
+
+// Blank canvas the size of the output, for elements with effects
+type CreateLayer = () => RenderCanvas;
+
+// Drawn at full strength on its own layer, which then takes the opacity, blend
+// mode, blur and shadow as a whole
+const drawLayerEffects = (createLayer: CreateLayer): DrawEffects => (ctx, el, drawContent) => {
+  const layer = createLayer();
+  const layerCtx = layer.getContext('2d');
+  const m = ctx.getTransform();
+  layerCtx.setTransform(m.a, m.b, m.c, m.d, m.e, m.f);
+  drawContent(layerCtx);
+  ctx.globalCompositeOperation = getCompositeOperation(el.blendMode);
+  applyEffects(ctx, layer as unknown as CanvasImageSource, layerCtx, el, m);
+};
+
+// Elements are positioned at their centre; group children are relative to the group
+const drawElement = (ctx: Context, el: CanvasElement, images: Map<string, RenderImage>, drawEffects: DrawEffects) => {
+  ctx.save();
+  ctx.translate(el.x, el.y);
+  ctx.rotate((el.rotation * Math.PI) / 180);
+  ctx.globalAlpha *= el.opacity ?? 1;
+
+  const drawContent = (target: Context) => {
+    if (el.type === 'group') el.children.forEach((child) => drawElement(target, child, images, drawEffects));
+    else if (el.type === 'text') drawText(target, el);
+    else if (el.type === 'line') drawLine(target, el);
+    else drawShape(target, el, images.get(el.id));
+  };
+
+  if (hasEffects(el)) drawEffects(ctx, el, drawContent);
+  else drawContent(ctx);
+
+  ctx.restore();
+};
+
+// Background colour or gradient with the photo covering the whole canvas, then the elements
+export const drawTemplate = (ctx: Context, loaded: LoadedTemplate, drawEffects: DrawEffects, transparent = false) => {
+  const { content, elements, images, background } = loaded;
+  if (!transparent) {
+    ctx.fillStyle = content.backgroundGradient
+      ? createCanvasGradient(ctx, content.backgroundGradient, { x: 0, y: 0, width: content.width, height: content.height })
+      : content.backgroundColor || '#ffffff';
+    ctx.fillRect(0, 0, content.width, content.height);
+  }
+  if (background) {
+    const cover = getCoverRect(content, background);
+    ctx.drawImage(background, cover.x, cover.y, cover.width, cover.height);
+  }
+
+  elements.forEach((el) => drawElement(ctx, el, images, drawEffects));
+};
+
+// --- ENTRY POINT ---
+
+// A design ready to draw: texts filled in, photos and fonts loaded
+export interface LoadedTemplate {
+  content: TemplateContent;
+  elements: CanvasElement[];
+  // Keyed by element id
+  images: Map<string, RenderImage>;
+  background: RenderImage | null;
+  // Where each image came from, so vector exports can embed the original file
+  sources: Map<RenderImage, string | Uint8Array>;
+}
+
+export const loadTemplate = async (
+  template: TemplateData,
+  options: Pick<RenderOptions, 'images' | 'texts'>,
+  backend: RenderBackend
+): Promise<LoadedTemplate> => {
+  const { images = {}, texts = {} } = options;
+
+  // Older or hand-edited JSON is upgraded and checked the same way the app does
+  const content = parseTemplateContent(template);
+  const elements = mapElementTree(content.elements, (el) => (el.type === 'text' ? applyTextValues(el, texts) : el));
+  const sources = new Map<RenderImage, string | Uint8Array>();
+  const load = async (source: string | Uint8Array, what: string) => {
+    const image = await loadOrThrow(backend, source, what);
+    sources.set(image, source);
+    return image;
+  };
+
+  // Like the Generator, placeholders show only the supplied photo; image elements show their own
+  const loaded = new Map<string, RenderImage>();
+  await Promise.all(
+    flattenElements(elements).map(async (el) => {
+      const source = el.type === 'image' ? el.src : el.isPlaceholder ? images[el.id] : undefined;
+      if (!source || el.type === 'group') return;
+      loaded.set(el.id, await load(source, el.type === 'image' ? `image ${el.id}` : `photo for ${el.id}`));
+    })
+  );
+  const background = content.backgroundImage ? await load(content.backgroundImage, 'background image') : null;
+
+  // A missing font isn't fatal: the text is drawn with the fallback font
+  if (backend.loadFont) {
+    await Promise.all(
+      (content.fonts ?? []).map(async (font) => {
+        if (!(await backend.loadFont(font))) console.error('Font not loaded, using fallback:', font.family);
+      })
+    );
+  }
+
+  return { content, elements, images: loaded, background, sources };
+};
+
+export const renderTemplate = async (
+  template: TemplateData,
+  options: RenderOptions,
+  backend: RenderBackend
+): Promise<Uint8Array> => {
+  const { format = 'png', quality = 0.92, pixelRatio = EXPORT_PIXEL_RATIO, transparent = false } = options;
+  const loaded = await loadTemplate(template, options, backend);
+  const { content } = loaded;
+
+  const width = Math.round(content.width * pixelRatio);
+  const height = Math.round(content.height * pixelRatio);
+  const canvas = backend.createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  ctx.scale(pixelRatio, pixelRatio);
+  // JPEG has no alpha channel, so it always gets its background
+  drawTemplate(ctx, loaded, drawLayerEffects(() => backend.createCanvas(width, height)), transparent && format !== 'jpeg');
+
+  return backend.encode(canvas, format, quality);
+};
@@ -0,0 +1,84 @@
+import { TextElement, TextRun } from '@/types/editor';
+
+// Styled runs inside a text element. Plain text has no `runs`; once any part is
+// styled differently the element keeps a run list and `text` mirrors its content,
+// so code that only needs the words can keep reading `text`.
+
+export type RunStyle = Omit<TextRun, 'text'>;
+
+const STYLE_KEYS: (keyof RunStyle)[] = ['fontFamily', 'fontStyle', 'fontWeight', 'fill', 'underline', 'letterSpacing', 'editable'];
+
+// Plain text behaves like a single unstyled run
+export const getTextRuns = (el: Pick<TextElement, 'text' | 'runs'>): TextRun[] =>
+  el.runs?.length ? el.runs : [{ text: el.text }];
+
+export const getRunStyle = (run: TextRun): RunStyle => {
+  const style: RunStyle = {};
+  STYLE_KEYS.forEach((key) => {
+    if (run[key] !== undefined && run[key] !== false) (style as Record<string, unknown>)[key] = run[key];
+  });
+  return style;
+};
+
+const sameStyle = (a: TextRun, b: TextRun) => STYLE_KEYS.every((key) => (a[key] || undefined) === (b[key] || undefined));
+
+// Merge neighbours with identical styles and drop empty runs
+export const normalizeRuns = (runs: TextRun[]): TextRun[] => {
+  const merged: TextRun[] = [];
+  runs.forEach((run) => {
+    if (!run.text) return;
+    const last = merged[merged.length - 1];
+    if (last && sameStyle(last, run)) merged[merged.length - 1] = { ...last, text: last.text + run.text };
+    else merged.push({ ...getRunStyle(run), text: run.text });
+  });
+  return merged;
+};
+
+// `text` and `runs` for an element whose content is `runs`
+export const withRuns = (runs: TextRun[]): Pick<TextElement, 'text' | 'runs'> => {
+  const normalized = normalizeRuns(runs);
+  const text = normalized.map((run) => run.text).join('');
+  const isPlain = normalized.length <= 1 && Object.keys(getRunStyle(normalized[0] ?? { text: '' })).length === 0;
+  return { text, runs: isPlain ? undefined : normalized };
+};
+
+// Apply a style to the characters in [start, end), splitting runs at the edges
+export const applyRunStyle = (runs: TextRun[], start: number, end: number, patch: RunStyle): TextRun[] => {
+  const result: TextRun[] = [];
+  let offset = 0;
+  runs.forEach((run) => {
+    const runStart = offset;
+    const runEnd = offset + run.text.length;
+    offset = runEnd;
+
+    const from = Math.max(start, runStart) - runStart;
+    const to = Math.min(end, runEnd) - runStart;
+    if (from >= to) {
+      result.push(run);
+      return;
+    }
+    if (from > 0) result.push({ ...run, text: run.text.slice(0, from) });
+    result.push({ ...run, ...patch, text: run.text.slice(from, to) });
+    if (to < run.text.length) result.push({ ...run, text: run.text.slice(to) });
+  });
+  return normalizeRuns(result);
+};
+
+// Runs overlapping [start, end), or the run at the caret when nothing is selected
+export const getRunsInRange = (runs: TextRun[], start: number, end: number): TextRun[] => {
+  let offset = 0;
+  const hits = runs.filter((run) => {
+    const runStart = offset;
+    offset += run.text.length;
+    return start === end ? start >= runStart && start <= offset : start < offset && end > runStart;
+  });
+  return hits.length ? hits : runs.slice(-1);
+};
+
+// Replace the text of one run, keeping its style. Runs aren't normalised here so
+// indexes stay stable and an emptied run can be typed into again.
+export const setRunText = (el: TextElement, index: number, text: string): Pick<TextElement, 'text' | 'runs'> => {
+  if (!el.runs?.length) return { text };
+  const runs = getTextRuns(el).map((run, i) => (i === index ? { ...run, text } : run));
+  return { text: runs.map((run) => run.text).join(''), runs };
+};
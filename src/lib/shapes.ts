@@ -0,0 +1,244 @@
+import type Konva from 'konva';
+import { CanvasElement, GroupElement, LineElement, StrokeLayer, TextElement } from '@/types/editor';
+import { PathCommand, fitPath, getPathBounds, parsePathData } from '@/lib/paths';
+
+// Layout maths shared by every renderer (editor, generator, published view), so
+// they all draw a template exactly the same way. Coordinates are relative to the
+// element's centre, which is where its Konva group is positioned.
+
+// Elements with an outline that can be filled, stroked and hold a photo. Lines
+// are drawn by lib/lines instead.
+export type ShapeElement = Exclude<CanvasElement, TextElement | GroupElement | LineElement>;
+
+export const isShapeElement = (el: CanvasElement): el is ShapeElement =>
+  el.type !== 'text' && el.type !== 'group' && el.type !== 'line';
+
+export type ShapeOutline =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; cornerRadius: number }
+  | { kind: 'circle'; radius: number }
+  | { kind: 'ellipse'; radiusX: number; radiusY: number }
+  | { kind: 'ring'; radius: number; innerRadius: number }
+  | { kind: 'polygon'; points: number[] }
+  | { kind: 'path'; commands: PathCommand[]; fillRule?: CanvasFillRule };
+
+// Regular polygon with its first vertex pointing straight up
+export const getPolygonPoints = (sides: number, radius: number) =>
+  Array.from({ length: sides }, (_, i) => {
+    const angle = (Math.PI * 2 * i) / sides - Math.PI / 2;
+    return [radius * Math.cos(angle), radius * Math.sin(angle)];
+  }).flat();
+
+// Star with its first tip pointing straight up
+export const getStarPoints = (numPoints: number, radius: number, innerRadius: number) =>
+  Array.from({ length: numPoints * 2 }, (_, i) => {
+    const angle = (Math.PI * i) / numPoints - Math.PI / 2;
+    const r = i % 2 === 0 ? radius : innerRadius;
+    return [r * Math.cos(angle), r * Math.sin(angle)];
+  }).flat();
+
+// Move every edge of a clockwise polygon outwards by `grow`, keeping its corners sharp
+const growPolygon = (points: number[], grow: number) => {
+  if (!grow) return points;
+  const count = points.length / 2;
+  const normal = (from: number, to: number) => {
+    const dx = points[to * 2] - points[from * 2];
+    const dy = points[to * 2 + 1] - points[from * 2 + 1];
+    const length = Math.hypot(dx, dy) || 1;
+    return { x: dy / length, y: -dx / length };
+  };
+  return Array.from({ length: count }, (_, i) => {
+    const before = normal((i - 1 + count) % count, i);
+    const after = normal(i, (i + 1) % count);
+    // The corner moves along the bisector of the two edge normals
+    const bx = before.x + after.x;
+    const by = before.y + after.y;
+    const length = Math.hypot(bx, by) || 1;
+    const distance = grow / Math.max(0.1, (bx * before.x + by * before.y) / length);
+    return [points[i * 2] + (bx / length) * distance, points[i * 2 + 1] + (by / length) * distance];
+  }).flat();
+};
+
+// Outline of a shape, grown outwards by `grow` pixels (negative shrinks it)
+export const getShapeOutline = (el: ShapeElement, grow = 0): ShapeOutline => {
+  switch (el.type) {
+    case 'rect':
+    case 'image': {
+      const width = Math.max(0, el.width + grow * 2);
+      const height = Math.max(0, el.height + grow * 2);
+      const cornerRadius = el.type === 'rect' && el.cornerRadius > 0 ? Math.max(0, el.cornerRadius + grow) : 0;
+      return { kind: 'rect', x: -width / 2, y: -height / 2, width, height, cornerRadius };
+    }
+    case 'circle':
+      return { kind: 'circle', radius: Math.max(0, el.radius + grow) };
+    case 'ellipse':
+      return { kind: 'ellipse', radiusX: Math.max(0, el.radiusX + grow), radiusY: Math.max(0, el.radiusY + grow) };
+    case 'ring':
+      // Growing a ring widens its band on both edges
+      return { kind: 'ring', radius: Math.max(0, el.radius + grow), innerRadius: Math.max(0, el.innerRadius - grow) };
+    case 'star': {
+      const points = getStarPoints(Math.max(3, el.numPoints || 5), el.radius, Math.min(el.innerRadius, el.radius));
+      return { kind: 'polygon', points: growPolygon(points, grow) };
+    }
+    case 'polygon': {
+      const sides = Math.max(3, el.sides || 3);
+      // Moving every edge out by `grow` moves the vertices out by grow / cos(π / n)
+      const radius = Math.max(0, el.radius + grow / Math.cos(Math.PI / sides));
+      return { kind: 'polygon', points: getPolygonPoints(sides, radius) };
+    }
+    case 'path':
+      // Freeform paths can't be grown evenly; their strokes are clipped instead (see traceStrokeClip)
+      return {
+        kind: 'path',
+        commands: fitPath(parsePathData(el.data), { x: -el.width / 2, y: -el.height / 2, width: el.width, height: el.height }),
+        fillRule: el.fillRule,
+      };
+  }
+};
+
+// Bounding box of an outline, e.g. the area a gradient fill spans
+export const getOutlineBounds = (outline: ShapeOutline) => {
+  switch (outline.kind) {
+    case 'rect':
+      return { x: outline.x, y: outline.y, width: outline.width, height: outline.height };
+    case 'circle':
+    case 'ring':
+      return { x: -outline.radius, y: -outline.radius, width: outline.radius * 2, height: outline.radius * 2 };
+    case 'ellipse':
+      return { x: -outline.radiusX, y: -outline.radiusY, width: outline.radiusX * 2, height: outline.radiusY * 2 };
+    case 'polygon': {
+      const xs = outline.points.filter((_, i) => i % 2 === 0);
+      const ys = outline.points.filter((_, i) => i % 2 === 1);
+      const x = Math.min(...xs);
+      const y = Math.min(...ys);
+      return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+    }
+    case 'path':
+      return getPathBounds(outline.commands);
+  }
+};
+
+// Konva strokes are centred on the path, so offset the path to put the stroke
+// inside, on, or outside the shape's edge.
+export const getStrokeOutline = (el: ShapeElement, stroke: StrokeLayer) => {
+  const offset = stroke.position === 'outside' ? stroke.width / 2 : stroke.position === 'inside' ? -stroke.width / 2 : 0;
+  return getShapeOutline(el, offset);
+};
+
+// Freeform paths keep their outline, so an inside or outside stroke is drawn at
+// twice the width and clipped to its side of the edge
+export const needsStrokeClip = (outline: ShapeOutline, stroke: StrokeLayer) =>
+  outline.kind === 'path' && stroke.position !== 'center';
+
+export const getStrokeLineWidth = (outline: ShapeOutline, stroke: StrokeLayer) =>
+  needsStrokeClip(outline, stroke) ? stroke.width * 2 : stroke.width;
+
+// Trace the side of the edge a clipped stroke is kept on and return the fill
+// rule to clip with. Outside strokes keep everything around the shape.
+export const traceStrokeClip = (
+  ctx: Konva.Context | CanvasRenderingContext2D,
+  outline: ShapeOutline,
+  stroke: StrokeLayer
+): CanvasFillRule => {
+  traceOutline(ctx, outline);
+  if (stroke.position !== 'outside') return getFillRule(outline);
+  const bounds = getOutlineBounds(outline);
+  const margin = stroke.width * 2;
+  ctx.rect(bounds.x - margin, bounds.y - margin, bounds.width + margin * 2, bounds.height + margin * 2);
+  return 'evenodd';
+};
+
+// Rule to fill and clip an outline with; only paths can have holes
+export const getFillRule = (outline: ShapeOutline): CanvasFillRule =>
+  (outline.kind === 'path' && outline.fillRule) || 'nonzero';
+
+// Trace an outline on a canvas context, e.g. for a placeholder's clipFunc
+export const traceOutline = (ctx: Konva.Context | CanvasRenderingContext2D, outline: ShapeOutline) => {
+  ctx.beginPath();
+  switch (outline.kind) {
+    case 'rect':
+      if (outline.cornerRadius > 0) {
+        ctx.roundRect(outline.x, outline.y, outline.width, outline.height, outline.cornerRadius);
+      } else {
+        ctx.rect(outline.x, outline.y, outline.width, outline.height);
+      }
+      break;
+    case 'circle':
+      ctx.arc(0, 0, outline.radius, 0, Math.PI * 2);
+      break;
+    case 'ellipse':
+      ctx.ellipse(0, 0, outline.radiusX, outline.radiusY, 0, 0, Math.PI * 2);
+      break;
+    case 'ring':
+      // The inner circle runs the other way, which leaves the hole unfilled
+      ctx.arc(0, 0, outline.radius, 0, Math.PI * 2);
+      if (outline.innerRadius > 0) {
+        ctx.moveTo(outline.innerRadius, 0);
+        ctx.arc(0, 0, outline.innerRadius, 0, Math.PI * 2, true);
+      }
+      break;
+    case 'polygon':
+      for (let i = 0; i < outline.points.length; i += 2) {
+        if (i === 0) ctx.moveTo(outline.points[i], outline.points[i + 1]);
+        else ctx.lineTo(outline.points[i], outline.points[i + 1]);
+      }
+      ctx.closePath();
+      break;
+    case 'path':
+      outline.commands.forEach((c) => {
+        if (c.type === 'M') ctx.moveTo(c.x, c.y);
+        else if (c.type === 'L') ctx.lineTo(c.x, c.y);
+        else if (c.type === 'C') ctx.bezierCurveTo(c.x1, c.y1, c.x2, c.y2, c.x, c.y);
+        else ctx.closePath();
+      });
+      break;
+  }
+};
+
+// Rect that covers a box while keeping the image's aspect ratio (CSS object-fit: cover)
+export const getCoverRect = (
+  box: { width: number; height: number },
+  image: { width: number; height: number }
+) => {
+  const ratio = Math.max(box.width / Math.max(1, image.width), box.height / Math.max(1, image.height));
+  const width = image.width * ratio;
+  const height = image.height * ratio;
+  return { x: (box.width - width) / 2, y: (box.height - height) / 2, width, height };
+};
+
+export interface ImageTransform {
+  offsetX: number;
+  offsetY: number;
+  scale: number;
+}
+
+export const IDENTITY_IMAGE_TRANSFORM: ImageTransform = { offsetX: 0, offsetY: 0, scale: 1 };
+
+export const getImageTransform = (el: CanvasElement): ImageTransform => ({
+  offsetX: el.imageOffsetX || 0,
+  offsetY: el.imageOffsetY || 0,
+  scale: el.imageScale || 1,
+});
+
+// Placeholder photo: covers the shape's box, then is zoomed around the centre and panned
+export const getPlaceholderImageRect = (
+  el: ShapeElement,
+  image: { width: number; height: number },
+  transform: ImageTransform = IDENTITY_IMAGE_TRANSFORM
+) => {
+  const box =
+    el.type === 'circle' || el.type === 'polygon' || el.type === 'star' || el.type === 'ring'
+      ? { width: el.radius * 2, height: el.radius * 2 }
+      : el.type === 'ellipse'
+        ? { width: el.radiusX * 2, height: el.radiusY * 2 }
+        : { width: el.width, height: el.height };
+  const cover = getCoverRect(box, image);
+  const width = cover.width * transform.scale;
+  const height = cover.height * transform.scale;
+  return { x: -width / 2 + transform.offsetX, y: -height / 2 + transform.offsetY, width, height };
+};
+
+// Natural size of a loaded image or canvas
+export const getImageSize = (image: HTMLImageElement | HTMLCanvasElement) => ({
+  width: (image as HTMLImageElement).naturalWidth || image.width || 0,
+  height: (image as HTMLImageElement).naturalHeight || image.height || 0,
+});
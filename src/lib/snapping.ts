@@ -0,0 +1,271 @@
+// Snapping maths for dragging and transforming on the canvas. Everything here
+// works on axis-aligned boxes in canvas coordinates (top-left x/y).
+
+// Spacing of the dot grid shown behind the artboard when "Show grid" is on
+export const GRID_SIZE = 40;
+
+// Distance (in screen pixels) at which an edge snaps to a guide
+export const SNAP_THRESHOLD = 6;
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type Orientation = 'vertical' | 'horizontal';
+
+// A full alignment line, e.g. a vertical line at x = 540 from y = 0 to y = 1080
+export interface GuideLine {
+  orientation: Orientation;
+  position: number;
+  start: number;
+  end: number;
+}
+
+// Equal gaps between boxes; each segment spans one gap along the orientation's axis
+export interface SpacingHint {
+  orientation: Orientation;
+  segments: { from: number; to: number; at: number }[];
+}
+
+export interface SnapResult {
+  dx: number;
+  dy: number;
+  guides: GuideLine[];
+  spacings: SpacingHint[];
+}
+
+export interface SnapOptions {
+  threshold: number;
+  gridSize?: number;
+}
+
+interface Axis {
+  pos: 'x' | 'y';
+  size: 'width' | 'height';
+  crossPos: 'x' | 'y';
+  crossSize: 'width' | 'height';
+  orientation: Orientation;
+}
+
+const X_AXIS: Axis = { pos: 'x', size: 'width', crossPos: 'y', crossSize: 'height', orientation: 'vertical' };
+const Y_AXIS: Axis = { pos: 'y', size: 'height', crossPos: 'x', crossSize: 'width', orientation: 'horizontal' };
+
+// Left/centre/right (or top/middle/bottom) of a box along one axis
+const edgesOf = (box: Box, axis: Axis) => {
+  const start = box[axis.pos];
+  const size = box[axis.size];
+  return [start, start + size / 2, start + size];
+};
+
+const overlapsAcross = (a: Box, b: Box, axis: Axis) =>
+  a[axis.crossPos] < b[axis.crossPos] + b[axis.crossSize] && b[axis.crossPos] < a[axis.crossPos] + a[axis.crossSize];
+
+export const unionBoxes = (boxes: Box[]): Box | null => {
+  if (boxes.length === 0) return null;
+  const minX = Math.min(...boxes.map((b) => b.x));
+  const minY = Math.min(...boxes.map((b) => b.y));
+  const maxX = Math.max(...boxes.map((b) => b.x + b.width));
+  const maxY = Math.max(...boxes.map((b) => b.y + b.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+// --- ALIGNMENT ---
+
+// Nearest offset that lines up one of the moving box's edges with a target line
+const findAlignment = (moving: Box, targets: number[], axis: Axis, threshold: number) => {
+  let best: number | null = null;
+  edgesOf(moving, axis).forEach((edge) => {
+    targets.forEach((target) => {
+      const delta = target - edge;
+      if (Math.abs(delta) <= threshold && (best === null || Math.abs(delta) < Math.abs(best))) best = delta;
+    });
+  });
+  return best;
+};
+
+// Every guide that the (already snapped) moving box now touches
+const collectGuides = (moving: Box, others: Box[], canvas: Box, axis: Axis): GuideLine[] => {
+  const guides: GuideLine[] = [];
+  const sources = [canvas, ...others];
+  edgesOf(moving, axis).forEach((edge) => {
+    const matches = sources.filter((box) => edgesOf(box, axis).some((e) => Math.abs(e - edge) < 0.5));
+    if (matches.length === 0) return;
+
+    const spanning = [moving, ...matches];
+    const start = Math.min(...spanning.map((b) => b[axis.crossPos]));
+    const end = Math.max(...spanning.map((b) => b[axis.crossPos] + b[axis.crossSize]));
+    guides.push({ orientation: axis.orientation, position: edge, start, end });
+  });
+  return guides;
+};
+
+// --- EQUAL SPACING ---
+
+interface SpacingCandidate {
+  delta: number;
+  hint: SpacingHint;
+}
+
+// Offsets that would give the moving box the same gap as its neighbours: either
+// centred between two boxes, or repeating a gap that already exists in the row.
+const findSpacing = (moving: Box, others: Box[], axis: Axis, threshold: number): SpacingCandidate | null => {
+  const row = others
+    .filter((box) => overlapsAcross(box, moving, axis))
+    .sort((a, b) => a[axis.pos] - b[axis.pos]);
+  const start = moving[axis.pos];
+  const end = start + moving[axis.size];
+  const at = moving[axis.crossPos] + moving[axis.crossSize] / 2;
+
+  const before = row.filter((box) => box[axis.pos] + box[axis.size] <= start);
+  const after = row.filter((box) => box[axis.pos] >= end);
+  const prev = before[before.length - 1];
+  const next = after[0];
+  const candidates: SpacingCandidate[] = [];
+
+  const segment = (from: number, to: number) => ({ from, to, at });
+
+  if (prev && next) {
+    const prevEnd = prev[axis.pos] + prev[axis.size];
+    const gap = (next[axis.pos] - prevEnd - moving[axis.size]) / 2;
+    if (gap > 0) {
+      const target = prevEnd + gap;
+      candidates.push({
+        delta: target - start,
+        hint: {
+          orientation: axis.orientation,
+          segments: [segment(prevEnd, target), segment(target + moving[axis.size], next[axis.pos])],
+        },
+      });
+    }
+  }
+
+  // Gaps between consecutive boxes on the same side of the moving box
+  const gapsIn = (boxes: Box[]) =>
+    boxes.slice(1).map((box, i) => {
+      const from = boxes[i][axis.pos] + boxes[i][axis.size];
+      return { from, to: box[axis.pos] };
+    }).filter((g) => g.to > g.from);
+
+  if (prev) {
+    const prevEnd = prev[axis.pos] + prev[axis.size];
+    gapsIn(before).forEach((g) => {
+      const target = prevEnd + (g.to - g.from);
+      candidates.push({
+        delta: target - start,
+        hint: { orientation: axis.orientation, segments: [segment(g.from, g.to), segment(prevEnd, target)] },
+      });
+    });
+  }
+
+  if (next) {
+    gapsIn(after).forEach((g) => {
+      const target = next[axis.pos] - (g.to - g.from);
+      candidates.push({
+        delta: target - end,
+        hint: { orientation: axis.orientation, segments: [segment(target, next[axis.pos]), segment(g.from, g.to)] },
+      });
+    });
+  }
+
+  const valid = candidates.filter((c) => Math.abs(c.delta) <= threshold);
+  if (valid.length === 0) return null;
+  return valid.reduce((a, b) => (Math.abs(b.delta) < Math.abs(a.delta) ? b : a));
+};
+
+// --- GRID ---
+
+const findGridOffset = (moving: Box, axis: Axis, gridSize: number, threshold: number) => {
+  let best: number | null = null;
+  edgesOf(moving, axis).forEach((edge) => {
+    const delta = Math.round(edge / gridSize) * gridSize - edge;
+    if (Math.abs(delta) <= threshold && (best === null || Math.abs(delta) < Math.abs(best))) best = delta;
+  });
+  return best;
+};
+
+// Snap a moving box against the canvas, other elements and (optionally) the grid.
+// Alignment with the canvas or other elements wins over equal spacing, which wins over the grid.
+export const snapBox = (moving: Box, others: Box[], canvasSize: { width: number; height: number }, options: SnapOptions): SnapResult => {
+  const canvas: Box = { x: 0, y: 0, width: canvasSize.width, height: canvasSize.height };
+  const result: SnapResult = { dx: 0, dy: 0, guides: [], spacings: [] };
+
+  [X_AXIS, Y_AXIS].forEach((axis) => {
+    const targets = [canvas, ...others].flatMap((box) => edgesOf(box, axis));
+    let delta = findAlignment(moving, targets, axis, options.threshold);
+    let spacing: SpacingHint | null = null;
+
+    if (delta === null) {
+      const candidate = findSpacing(moving, others, axis, options.threshold);
+      if (candidate) {
+        delta = candidate.delta;
+        spacing = candidate.hint;
+      }
+    }
+    if (delta === null && options.gridSize) {
+      delta = findGridOffset(moving, axis, options.gridSize, options.threshold);
+    }
+    if (delta === null) return;
+
+    if (axis === X_AXIS) result.dx = delta;
+    else result.dy = delta;
+    if (spacing) result.spacings.push(spacing);
+  });
+
+  const snapped = { ...moving, x: moving.x + result.dx, y: moving.y + result.dy };
+  result.guides = [
+    ...collectGuides(snapped, others, canvas, X_AXIS),
+    ...collectGuides(snapped, others, canvas, Y_AXIS),
+  ];
+  return result;
+};
+
+// Snap only the edges a transformer anchor is moving (unrotated boxes only)
+export const snapResize = (
+  oldBox: Box,
+  newBox: Box,
+  others: Box[],
+  canvasSize: { width: number; height: number },
+  options: SnapOptions
+): { box: Box; guides: GuideLine[] } => {
+  const canvas: Box = { x: 0, y: 0, width: canvasSize.width, height: canvasSize.height };
+  const box = { ...newBox };
+
+  [X_AXIS, Y_AXIS].forEach((axis) => {
+    const targets = [canvas, ...others].flatMap((b) => edgesOf(b, axis));
+    if (options.gridSize) {
+      const edges = [box[axis.pos], box[axis.pos] + box[axis.size]];
+      edges.forEach((e) => targets.push(Math.round(e / options.gridSize!) * options.gridSize!));
+    }
+
+    const nearest = (value: number) => {
+      let best: number | null = null;
+      targets.forEach((t) => {
+        const d = t - value;
+        if (Math.abs(d) <= options.threshold && (best === null || Math.abs(d) < Math.abs(best))) best = d;
+      });
+      return best;
+    };
+
+    const startMoved = Math.abs(newBox[axis.pos] - oldBox[axis.pos]) > 0.01;
+    const endMoved = Math.abs(newBox[axis.pos] + newBox[axis.size] - (oldBox[axis.pos] + oldBox[axis.size])) > 0.01;
+
+    if (startMoved) {
+      const d = nearest(box[axis.pos]);
+      if (d !== null) {
+        box[axis.pos] += d;
+        box[axis.size] -= d;
+      }
+    } else if (endMoved) {
+      const d = nearest(box[axis.pos] + box[axis.size]);
+      if (d !== null) box[axis.size] += d;
+    }
+  });
+
+  return {
+    box,
+    guides: [...collectGuides(box, others, canvas, X_AXIS), ...collectGuides(box, others, canvas, Y_AXIS)],
+  };
+};
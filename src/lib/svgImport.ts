@@ -0,0 +1,455 @@
+import { CanvasElement, ImageElement, LineCap, PathElement, StrokeLayer, TextElement } from '@/types/editor';
+import { createGroup, generateId } from '@/lib/elements';
+import { PathCommand, fitPath, getPathBounds, parsePathData, serializePath } from '@/lib/paths';
+import { EXPORT_PIXEL_RATIO } from '@/lib/renderTemplate';
+import { browserMeasureText } from '@/lib/textLayout';
+
+// Turns SVG artwork into native elements. The SVG is mounted out of sight so the
+// browser resolves transforms, units and CSS for us; shapes become rects,
+// ellipses, lines, paths and text, and anything the editor can't represent
+// (patterns, filters, masks, <use>, positioned text…) is rendered to a PNG image
+// element in its place. Several top-level shapes come back as one group.
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Thrown when the file can't be read as SVG at all
+export class SvgImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SvgImportError';
+  }
+}
+
+export interface SvgImport {
+  // Positioned in the SVG's own coordinates, in pixels
+  element: CanvasElement;
+  width: number;
+  height: number;
+  // Parts that were imported as images rather than shapes
+  rasterized: number;
+}
+
+type Matrix = Pick<DOMMatrix, 'a' | 'b' | 'c' | 'd' | 'e' | 'f'>;
+
+interface Paint {
+  fill: string;
+  strokes?: StrokeLayer[];
+  // Stroke colour and width, kept for lines and text outlines
+  stroke?: StrokeLayer;
+}
+
+// Skipped entirely: definitions are only used through the shapes that refer to them
+const DRAWABLE = new Set(['g', 'a', 'switch', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'path', 'text', 'image', 'use', 'svg']);
+// Always imported as a picture
+const RASTER_ONLY = new Set(['use', 'svg']);
+// Copied onto a rasterized node, since it loses the parents it inherited them from
+const INHERITED_STYLES = [
+  'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-linecap', 'stroke-linejoin',
+  'stroke-dasharray', 'font-family', 'font-size', 'font-weight', 'font-style', 'text-anchor', 'letter-spacing', 'color',
+];
+
+// --- GEOMETRY ---
+
+const applyMatrix = (m: Matrix, x: number, y: number) => ({ x: m.a * x + m.c * y + m.e, y: m.b * x + m.d * y + m.f });
+
+// Rotation and scale of a matrix; skewed matrices can't be described by an element's rotation
+const decompose = (m: Matrix) => {
+  const scaleX = Math.hypot(m.a, m.b);
+  const columnY = Math.hypot(m.c, m.d);
+  const det = m.a * m.d - m.b * m.c;
+  return {
+    scaleX,
+    scaleY: Math.abs(det) / (scaleX || 1),
+    // Uniform factor for widths that don't follow an axis, like strokes
+    scale: Math.sqrt(Math.abs(det)),
+    rotation: (Math.atan2(m.b, m.a) * 180) / Math.PI,
+    skewed: Math.abs(m.a * m.c + m.b * m.d) > 1e-3 * scaleX * columnY,
+    mirrored: det < 0,
+  };
+};
+
+const transformCommands = (commands: PathCommand[], m: Matrix): PathCommand[] =>
+  commands.map((c) => {
+    if (c.type === 'Z') return c;
+    const end = applyMatrix(m, c.x, c.y);
+    if (c.type !== 'C') return { type: c.type, ...end };
+    const c1 = applyMatrix(m, c.x1, c.y1);
+    const c2 = applyMatrix(m, c.x2, c.y2);
+    return { type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, ...end };
+  });
+
+const ellipsePathData = (cx: number, cy: number, rx: number, ry: number) =>
+  `M${cx - rx} ${cy} A${rx} ${ry} 0 1 0 ${cx + rx} ${cy} A${rx} ${ry} 0 1 0 ${cx - rx} ${cy} Z`;
+
+const rectPathData = (x: number, y: number, w: number, h: number, r: number) =>
+  r > 0
+    ? `M${x + r} ${y} H${x + w - r} A${r} ${r} 0 0 1 ${x + w} ${y + r} V${y + h - r} A${r} ${r} 0 0 1 ${x + w - r} ${y + h} ` +
+      `H${x + r} A${r} ${r} 0 0 1 ${x} ${y + h - r} V${y + r} A${r} ${r} 0 0 1 ${x + r} ${y} Z`
+    : `M${x} ${y} H${x + w} V${y + h} H${x} Z`;
+
+// --- STYLE ---
+
+// Computed colours come back as rgb()/rgba(); opaque ones become hex for the colour pickers
+const toColor = (value: string, opacity: number): string | null => {
+  if (!value || value === 'none' || value === 'transparent') return null;
+  const match = value.match(/^rgba?\(([^)]+)\)$/);
+  if (!match) return opacity < 1 ? null : value;
+  const [r, g, b, a = 1] = match[1].split(/[\s,/]+/).filter(Boolean).map(parseFloat);
+  const alpha = a * opacity;
+  if (alpha <= 0) return null;
+  if (alpha >= 1) return `#${[r, g, b].map((v) => Math.round(v).toString(16).padStart(2, '0')).join('')}`;
+  return `rgba(${r}, ${g}, ${b}, ${Math.round(alpha * 1000) / 1000})`;
+};
+
+// Fill and stroke of a shape, or null when they use something the editor can't
+// draw (gradients and patterns by reference, dashes)
+const getPaint = (style: CSSStyleDeclaration, scale: number): Paint | null => {
+  if (style.fill.startsWith('url(') || style.stroke.startsWith('url(')) return null;
+  if (style.strokeDasharray && style.strokeDasharray !== 'none') return null;
+
+  const fill = toColor(style.fill, parseFloat(style.fillOpacity || '1')) ?? '';
+  const strokeColor = toColor(style.stroke, parseFloat(style.strokeOpacity || '1'));
+  const strokeWidth = parseFloat(style.strokeWidth || '1') * scale;
+  const stroke = strokeColor && strokeWidth > 0 ? { color: strokeColor, width: strokeWidth, position: 'center' as const } : undefined;
+  return { fill, stroke, strokes: stroke ? [stroke] : undefined };
+};
+
+// Filters, masks and clipping are drawn by the browser only
+const hasUnsupportedEffects = (style: CSSStyleDeclaration) =>
+  (!!style.filter && style.filter !== 'none') ||
+  (!!style.mask && style.mask !== 'none') ||
+  (!!style.clipPath && style.clipPath !== 'none');
+
+// --- RASTER FALLBACK ---
+
+const svgToPng = (markup: string, width: number, height: number) =>
+  new Promise<string>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = Object.assign(document.createElement('canvas'), {
+        width: Math.max(1, Math.ceil(width * EXPORT_PIXEL_RATIO)),
+        height: Math.max(1, Math.ceil(height * EXPORT_PIXEL_RATIO)),
+      });
+      canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    image.onerror = () => reject(new Error('SVG fragment failed to render'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+  });
+
+// Render one node on its own, with the definitions and styles it may refer to
+const rasterize = async (node: SVGGraphicsElement, root: SVGSVGElement): Promise<ImageElement | null> => {
+  const m = node.getCTM();
+  if (!m) return null;
+  const style = getComputedStyle(node);
+  const box = node.getBBox();
+  const corners = [
+    applyMatrix(m, box.x, box.y),
+    applyMatrix(m, box.x + box.width, box.y),
+    applyMatrix(m, box.x, box.y + box.height),
+    applyMatrix(m, box.x + box.width, box.y + box.height),
+  ];
+  // Room for strokes, which getBBox leaves out, and for filters such as shadows
+  const size = Math.max(box.width, box.height) * decompose(m).scale;
+  const pad = Math.ceil(parseFloat(style.strokeWidth || '0') * decompose(m).scale + (hasUnsupportedEffects(style) ? size * 0.2 : 0)) + 1;
+  const x = Math.floor(Math.min(...corners.map((p) => p.x)) - pad);
+  const y = Math.floor(Math.min(...corners.map((p) => p.y)) - pad);
+  const width = Math.ceil(Math.max(...corners.map((p) => p.x)) + pad) - x;
+  const height = Math.ceil(Math.max(...corners.map((p) => p.y)) + pad) - y;
+  if (width <= 0 || height <= 0) return null;
+
+  const wrapper = document.createElementNS(SVG_NS, 'svg');
+  wrapper.setAttribute('xmlns', SVG_NS);
+  wrapper.setAttribute('width', String(width));
+  wrapper.setAttribute('height', String(height));
+  wrapper.setAttribute('viewBox', `${x} ${y} ${width} ${height}`);
+  root.querySelectorAll('defs, style').forEach((definition) => wrapper.appendChild(definition.cloneNode(true)));
+
+  // The node's own transform is part of its CTM
+  const clone = node.cloneNode(true) as SVGGraphicsElement;
+  clone.removeAttribute('transform');
+  INHERITED_STYLES.forEach((property) => clone.style.setProperty(property, style.getPropertyValue(property)));
+  const positioned = document.createElementNS(SVG_NS, 'g');
+  positioned.setAttribute('transform', `matrix(${m.a} ${m.b} ${m.c} ${m.d} ${m.e} ${m.f})`);
+  positioned.appendChild(clone);
+  wrapper.appendChild(positioned);
+
+  try {
+    const src = await svgToPng(new XMLSerializer().serializeToString(wrapper), width, height);
+    return {
+      id: generateId(),
+      type: 'image',
+      x: x + width / 2,
+      y: y + height / 2,
+      rotation: 0,
+      isPlaceholder: false,
+      width,
+      height,
+      src,
+    };
+  } catch (err) {
+    console.error(err);
+    return null;
+  }
+};
+
+// --- NATIVE ELEMENTS ---
+
+const baseProps = (style: CSSStyleDeclaration) => {
+  const opacity = parseFloat(style.opacity || '1');
+  return { id: generateId(), rotation: 0, isPlaceholder: false, ...(opacity < 1 ? { opacity } : {}) };
+};
+
+const createPath = (data: string, m: Matrix, style: CSSStyleDeclaration, paint: Paint): PathElement | null => {
+  const commands = transformCommands(parsePathData(data), m);
+  const bounds = getPathBounds(commands);
+  if (commands.length === 0 || (bounds.width < 0.5 && bounds.height < 0.5)) return null;
+
+  const size = { width: Math.max(1, bounds.width), height: Math.max(1, bounds.height) };
+  return {
+    ...baseProps(style),
+    type: 'path',
+    x: bounds.x + bounds.width / 2,
+    y: bounds.y + bounds.height / 2,
+    ...size,
+    data: serializePath(fitPath(commands, { x: 0, y: 0, ...size })),
+    ...(style.fillRule === 'evenodd' ? { fillRule: 'evenodd' as const } : {}),
+    fill: paint.fill,
+    strokes: paint.strokes,
+  };
+};
+
+const createText = (node: SVGTextElement, m: Matrix, style: CSSStyleDeclaration, paint: Paint): TextElement | null => {
+  const text = (node.textContent ?? '').replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+  const { scale, rotation } = decompose(m);
+  const box = node.getBBox();
+  const center = applyMatrix(m, box.x + box.width / 2, box.y + box.height / 2);
+  const fontSize = parseFloat(style.fontSize) * scale;
+  const letterSpacing = parseFloat(style.letterSpacing) * scale;
+
+  return {
+    ...baseProps(style),
+    type: 'text',
+    x: center.x,
+    y: center.y,
+    rotation,
+    text,
+    fontSize,
+    fontFamily: style.fontFamily.split(',')[0].replace(/["']/g, '').trim() || 'Inter',
+    fontStyle: style.fontStyle === 'normal' ? 'normal' : 'italic',
+    fontWeight: style.fontWeight,
+    textAlign: style.textAnchor === 'middle' ? 'center' : style.textAnchor === 'end' ? 'right' : 'left',
+    fill: paint.fill,
+    // A little slack so a slightly wider fallback font doesn't wrap
+    width: box.width * scale + fontSize * 0.5,
+    ...(letterSpacing ? { letterSpacing } : {}),
+    ...(paint.stroke ? { textStroke: { color: paint.stroke.color, width: paint.stroke.width } } : {}),
+  };
+};
+
+// Native element for a shape, or null when it has to be rasterized
+const convertShape = (node: SVGGraphicsElement, m: Matrix, style: CSSStyleDeclaration): CanvasElement | null | 'empty' => {
+  const tag = node.tagName.toLowerCase();
+  const { scaleX, scaleY, scale, rotation, skewed, mirrored } = decompose(m);
+
+  if (tag === 'image') {
+    const image = node as SVGImageElement;
+    const src = image.href.baseVal || image.getAttribute('xlink:href');
+    if (!src || skewed || mirrored) return null;
+    const { x, y, width, height } = image;
+    const center = applyMatrix(m, x.baseVal.value + width.baseVal.value / 2, y.baseVal.value + height.baseVal.value / 2);
+    return {
+      ...baseProps(style),
+      type: 'image',
+      ...center,
+      rotation,
+      width: width.baseVal.value * scaleX,
+      height: height.baseVal.value * scaleY,
+      src,
+    };
+  }
+
+  const paint = getPaint(style, scale);
+  if (!paint) return null;
+  // Nothing to see, e.g. a hit area or a layout guide
+  if (!paint.fill && !paint.stroke) return 'empty';
+
+  switch (tag) {
+    case 'rect': {
+      const rect = node as SVGRectElement;
+      const x = rect.x.baseVal.value;
+      const y = rect.y.baseVal.value;
+      const width = rect.width.baseVal.value;
+      const height = rect.height.baseVal.value;
+      const radius = Math.min(rect.rx.baseVal.value || rect.ry.baseVal.value, width / 2, height / 2);
+      if (width <= 0 || height <= 0) return 'empty';
+      if (skewed) return createPath(rectPathData(x, y, width, height, radius), m, style, paint);
+      return {
+        ...baseProps(style),
+        type: 'rect',
+        ...applyMatrix(m, x + width / 2, y + height / 2),
+        rotation,
+        width: width * scaleX,
+        height: height * scaleY,
+        cornerRadius: radius * Math.min(scaleX, scaleY),
+        fill: paint.fill,
+        strokes: paint.strokes,
+      };
+    }
+    case 'circle':
+    case 'ellipse': {
+      const shape = node as SVGCircleElement & SVGEllipseElement;
+      const cx = shape.cx.baseVal.value;
+      const cy = shape.cy.baseVal.value;
+      const rx = tag === 'circle' ? shape.r.baseVal.value : shape.rx.baseVal.value;
+      const ry = tag === 'circle' ? shape.r.baseVal.value : shape.ry.baseVal.value;
+      if (rx <= 0 || ry <= 0) return 'empty';
+      if (skewed) return createPath(ellipsePathData(cx, cy, rx, ry), m, style, paint);
+      const center = applyMatrix(m, cx, cy);
+      const radiusX = rx * scaleX;
+      const radiusY = ry * scaleY;
+      if (Math.abs(radiusX - radiusY) < 0.01) {
+        return { ...baseProps(style), type: 'circle', ...center, radius: radiusX, fill: paint.fill, strokes: paint.strokes };
+      }
+      return { ...baseProps(style), type: 'ellipse', ...center, rotation, radiusX, radiusY, fill: paint.fill, strokes: paint.strokes };
+    }
+    case 'line': {
+      const line = node as SVGLineElement;
+      const from = applyMatrix(m, line.x1.baseVal.value, line.y1.baseVal.value);
+      const to = applyMatrix(m, line.x2.baseVal.value, line.y2.baseVal.value);
+      const length = Math.hypot(to.x - from.x, to.y - from.y);
+      if (!paint.stroke || length < 0.5) return 'empty';
+      return {
+        ...baseProps(style),
+        type: 'line',
+        x: (from.x + to.x) / 2,
+        y: (from.y + to.y) / 2,
+        rotation: (Math.atan2(to.y - from.y, to.x - from.x) * 180) / Math.PI,
+        length,
+        stroke: paint.stroke.color,
+        strokeWidth: paint.stroke.width,
+        lineCap: (['round', 'square'].includes(style.strokeLinecap) ? style.strokeLinecap : 'butt') as LineCap,
+        startHead: 'none',
+        endHead: 'none',
+      };
+    }
+    case 'polyline':
+    case 'polygon': {
+      const points = Array.from((node as SVGPolylineElement).points, (p) => `${p.x} ${p.y}`);
+      if (points.length < 2) return 'empty';
+      return createPath(`M${points.join(' L')}${tag === 'polygon' ? ' Z' : ''}`, m, style, paint);
+    }
+    case 'path':
+      return createPath(node.getAttribute('d') ?? '', m, style, paint) ?? 'empty';
+    case 'text': {
+      // Characters placed one by one, text on a path and distorted text stay pictures
+      const positioned = node.querySelector('textPath, [x], [y], [dx], [dy], [rotate]');
+      if (positioned || skewed || mirrored) return null;
+      return createText(node as SVGTextElement, m, style, paint) ?? 'empty';
+    }
+  }
+  return null;
+};
+
+// --- TREE ---
+
+interface ImportSession {
+  root: SVGSVGElement;
+  rasterized: number;
+}
+
+const convertNode = async (node: Element, session: ImportSession): Promise<CanvasElement[]> => {
+  const tag = node.tagName.toLowerCase();
+  if (!DRAWABLE.has(tag) || !(node instanceof SVGGraphicsElement)) return [];
+  const style = getComputedStyle(node);
+  // Hidden by the artwork itself; the host in importSvg is only transparent
+  if (style.display === 'none' || style.visibility !== 'visible') return [];
+
+  const raster = async () => {
+    const image = await rasterize(node, session.root);
+    if (!image) return [];
+    session.rasterized++;
+    return [image];
+  };
+  if (RASTER_ONLY.has(tag) || hasUnsupportedEffects(style)) return raster();
+
+  if (tag === 'g' || tag === 'a' || tag === 'switch') {
+    const children: CanvasElement[] = [];
+    for (const child of Array.from(node.children)) children.push(...(await convertNode(child, session)));
+    const opacity = parseFloat(style.opacity || '1');
+    // A group of one is just its child
+    if (children.length === 1) {
+      const [child] = children;
+      return [opacity < 1 ? ({ ...child, opacity: (child.opacity ?? 1) * opacity } as CanvasElement) : child];
+    }
+    const group = createGroup(generateId(), children, browserMeasureText);
+    return group ? [opacity < 1 ? { ...group, opacity } : group] : [];
+  }
+
+  const m = node.getCTM();
+  if (!m) return [];
+  const element = convertShape(node, m, style);
+  if (element === 'empty') return [];
+  return element ? [element] : raster();
+};
+
+// Scripts and event handlers must never run, even though the SVG is mounted for measuring
+const sanitize = (root: Element) => {
+  root.querySelectorAll('script, foreignObject, iframe').forEach((el) => el.remove());
+  [root, ...Array.from(root.querySelectorAll('*'))].forEach((el) => {
+    Array.from(el.attributes).forEach((attr) => {
+      const isHandler = attr.name.toLowerCase().startsWith('on');
+      const isScriptLink = /href$/i.test(attr.name) && /^\s*javascript:/i.test(attr.value);
+      if (isHandler || isScriptLink) el.removeAttribute(attr.name);
+    });
+  });
+};
+
+// Pixel size of the artwork: its width and height, else its viewBox
+const getArtworkSize = (root: SVGSVGElement) => {
+  const viewBox = root.viewBox.baseVal;
+  const read = (length: SVGAnimatedLength, fallback: number | undefined) => {
+    const value = length.baseVal;
+    const hasAttribute = root.hasAttribute(length === root.width ? 'width' : 'height');
+    return hasAttribute && value.unitType !== SVGLength.SVG_LENGTHTYPE_PERCENTAGE ? value.value : fallback;
+  };
+  const width = read(root.width, viewBox?.width || undefined);
+  const height = read(root.height, viewBox?.height || undefined);
+  return { width: width || 300, height: height || 150 };
+};
+
+export const importSvg = async (markup: string): Promise<SvgImport> => {
+  const parsed = new DOMParser().parseFromString(markup, 'image/svg+xml');
+  const source = parsed.documentElement;
+  if (parsed.querySelector('parsererror') || source.tagName.toLowerCase() !== 'svg') {
+    throw new SvgImportError("This file isn't a valid SVG.");
+  }
+  sanitize(source);
+
+  // Off-screen and transparent: visibility:hidden would be inherited, and every
+  // node would then be skipped as hidden. The shadow root scopes the artwork's
+  // own <style> rules to it, so they can't restyle the app while it's mounted.
+  const root = document.importNode(source, true) as unknown as SVGSVGElement;
+  const host = document.createElement('div');
+  host.style.cssText = 'position:absolute;left:-100000px;top:0;opacity:0;pointer-events:none;';
+  host.attachShadow({ mode: 'open' }).appendChild(root);
+  document.body.appendChild(host);
+
+  try {
+    // Fixed pixel size, so the viewBox maps straight onto canvas pixels
+    const { width, height } = getArtworkSize(root);
+    root.setAttribute('width', String(width));
+    root.setAttribute('height', String(height));
+
+    const session: ImportSession = { root, rasterized: 0 };
+    const elements: CanvasElement[] = [];
+    for (const child of Array.from(root.children)) elements.push(...(await convertNode(child, session)));
+
+    const element = elements.length === 1 ? elements[0] : createGroup(generateId(), elements, browserMeasureText);
+    if (!element) throw new SvgImportError('This SVG has nothing to import.');
+    return { element, width, height, rasterized: session.rasterized };
+  } finally {
+    host.remove();
+  }
+};
@@ -0,0 +1,394 @@
+import { z } from 'zod';
+import { CanvasElement, TemplateData } from '@/types/editor';
+
+// Bump this and add a migration below whenever the saved template shape changes.
+//   1: original format; shapes carried a single legacy `stroke`/`strokeWidth`
+//   2: strokes live only in the `strokes` array, text always has `textAlign`
+//   3: ellipse, ring, star, line and path elements; text runs, overflow modes and
+//      styling; gradients, shadows, blur and blend modes; field settings, uploaded
+//      fonts, print size and export settings. All optional, so nothing converts
+export const CURRENT_SCHEMA_VERSION = 3;
+
+// Thrown when a stored template can't be upgraded or doesn't match the schema
+export class TemplateSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateSchemaError';
+  }
+}
+
+// --- ELEMENT SCHEMAS ---
+
+const strokeLayerSchema = z.object({
+  color: z.string(),
+  width: z.number().nonnegative(),
+  position: z.enum(['inside', 'center', 'outside']),
+});
+
+const fieldSettingsSchema = z.object({
+  label: z.string().optional(),
+  helpText: z.string().optional(),
+  editable: z.boolean().optional(),
+  required: z.boolean().optional(),
+  maxLength: z.number().int().positive().optional(),
+  preset: z.enum(['name', 'handle', 'date']).optional(),
+  pattern: z.string().optional(),
+});
+
+const gradientSchema = z.object({
+  type: z.enum(['linear', 'radial']),
+  angle: z.number(),
+  stops: z
+    .array(
+      z.object({
+        offset: z.number().min(0).max(1),
+        color: z.string(),
+      })
+    )
+    .min(2),
+});
+
+const shadowSchema = z.object({
+  color: z.string(),
+  blur: z.number().nonnegative(),
+  offsetX: z.number(),
+  offsetY: z.number(),
+});
+
+const baseElementSchema = z.object({
+  id: z.string().min(1),
+  x: z.number(),
+  y: z.number(),
+  rotation: z.number(),
+  opacity: z.number().min(0).max(1).optional(),
+  shadow: shadowSchema.optional(),
+  blur: z.number().nonnegative().optional(),
+  blendMode: z
+    .enum([
+      'normal',
+      'multiply',
+      'screen',
+      'overlay',
+      'darken',
+      'lighten',
+      'color-dodge',
+      'color-burn',
+      'hard-light',
+      'soft-light',
+      'difference',
+      'exclusion',
+      'hue',
+      'saturation',
+      'color',
+      'luminosity',
+    ])
+    .optional(),
+  isPlaceholder: z.boolean(),
+  strokes: z.array(strokeLayerSchema).optional(),
+  placeholderImage: z.string().optional(),
+  imageOffsetX: z.number().optional(),
+  imageOffsetY: z.number().optional(),
+  imageScale: z.number().positive().optional(),
+  field: fieldSettingsSchema.optional(),
+});
+
+const rectSchema = baseElementSchema.extend({
+  type: z.literal('rect'),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  cornerRadius: z.number().nonnegative(),
+  fill: z.string(),
+  fillGradient: gradientSchema.optional(),
+});
+
+const circleSchema = baseElementSchema.extend({
+  type: z.literal('circle'),
+  radius: z.number().positive(),
+  fill: z.string(),
+  fillGradient: gradientSchema.optional(),
+});
+
+const polygonSchema = baseElementSchema.extend({
+  type: z.literal('polygon'),
+  sides: z.number().int().min(3),
+  radius: z.number().positive(),
+  fill: z.string(),
+  fillGradient: gradientSchema.optional(),
+});
+
+const ellipseSchema = baseElementSchema.extend({
+  type: z.literal('ellipse'),
+  radiusX: z.number().positive(),
+  radiusY: z.number().positive(),
+  fill: z.string(),
+  fillGradient: gradientSchema.optional(),
+});
+
+const ringSchema = baseElementSchema.extend({
+  type: z.literal('ring'),
+  radius: z.number().positive(),
+  innerRadius: z.number().nonnegative(),
+  fill: z.string(),
+  fillGradient: gradientSchema.optional(),
+});
+
+const starSchema = baseElementSchema.extend({
+  type: z.literal('star'),
+  numPoints: z.number().int().min(3),
+  radius: z.number().positive(),
+  innerRadius: z.number().nonnegative(),
+  fill: z.string(),
+  fillGradient: gradientSchema.optional(),
+});
+
+const lineHeadSchema = z.enum(['none', 'arrow', 'triangle', 'circle']);
+
+const lineSchema = baseElementSchema.extend({
+  type: z.literal('line'),
+  length: z.number().positive(),
+  stroke: z.string(),
+  strokeWidth: z.number().positive(),
+  lineCap: z.enum(['butt', 'round', 'square']),
+  startHead: lineHeadSchema,
+  endHead: lineHeadSchema,
+});
+
+const pathSchema = baseElementSchema.extend({
+  type: z.literal('path'),
+  data: z.string().min(1),
+  fillRule: z.enum(['nonzero', 'evenodd']).optional(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  fill: z.string(),
+  fillGradient: gradientSchema.optional(),
+});
+
+const textRunSchema = z.object({
+  text: z.string(),
+  fontFamily: z.string().optional(),
+  fontStyle: z.enum(['normal', 'italic']).optional(),
+  fontWeight: z.union([z.string(), z.number()]).optional(),
+  fill: z.string().optional(),
+  underline: z.boolean().optional(),
+  letterSpacing: z.number().optional(),
+  editable: z.boolean().optional(),
+});
+
+const textStrokeSchema = z.object({
+  color: z.string(),
+  width: z.number().nonnegative(),
+});
+
+const textSchema = baseElementSchema.extend({
+  type: z.literal('text'),
+  text: z.string(),
+  fontSize: z.number().positive(),
+  fontFamily: z.string(),
+  fontStyle: z.enum(['normal', 'italic']),
+  fontWeight: z.union([z.string(), z.number()]),
+  textAlign: z.enum(['left', 'center', 'right']),
+  fill: z.string(),
+  fillGradient: gradientSchema.optional(),
+  width: z.number().positive(),
+  overflow: z.enum(['wrap', 'shrink', 'ellipsis']).optional(),
+  minFontSize: z.number().positive().optional(),
+  maxLines: z.number().int().positive().optional(),
+  runs: z.array(textRunSchema).optional(),
+  letterSpacing: z.number().optional(),
+  lineHeight: z.number().positive().optional(),
+  textTransform: z.enum(['none', 'uppercase', 'lowercase', 'capitalize']).optional(),
+  textStroke: textStrokeSchema.optional(),
+  textShadow: shadowSchema.optional(),
+});
+
+const imageSchema = baseElementSchema.extend({
+  type: z.literal('image'),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  src: z.string(),
+});
+
+// Groups nest elements, so their children refer back to the element schema lazily
+const groupSchema = baseElementSchema.extend({
+  type: z.literal('group'),
+  children: z.lazy((): z.ZodType<unknown[]> => z.array(elementSchema)),
+});
+
+export const elementSchema: z.ZodType<unknown> = z.discriminatedUnion('type', [
+  rectSchema,
+  circleSchema,
+  ellipseSchema,
+  ringSchema,
+  polygonSchema,
+  starSchema,
+  lineSchema,
+  pathSchema,
+  textSchema,
+  imageSchema,
+  groupSchema,
+]);
+
+const customFontSchema = z.object({
+  family: z.string().min(1),
+  src: z.string().min(1),
+  weight: z.union([z.string(), z.number()]).optional(),
+  style: z.enum(['normal', 'italic']).optional(),
+});
+
+const printSizeSchema = z.object({
+  width: z.number().positive(),
+  height: z.number().positive(),
+  unit: z.enum(['mm', 'in']),
+});
+
+const exportSettingsSchema = z.object({
+  format: z.enum(['png', 'jpeg', 'webp']),
+  scale: z.number().positive(),
+  width: z.number().int().positive().optional(),
+  quality: z.number().min(0).max(1),
+  transparent: z.boolean(),
+  locked: z.boolean().optional(),
+});
+
+// Everything about a template except its database identity (id, slug, owner)
+const templateContentSchema = z.object({
+  schemaVersion: z.literal(CURRENT_SCHEMA_VERSION),
+  name: z.string().default('Untitled Template'),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  backgroundColor: z.string(),
+  backgroundGradient: gradientSchema.optional(),
+  backgroundImage: z.string().nullable().optional(),
+  elements: z.array(elementSchema),
+  fonts: z.array(customFontSchema).optional(),
+  printSize: printSizeSchema.optional(),
+  exportSettings: exportSettingsSchema.optional(),
+});
+
+export type TemplateContent = Pick<TemplateData, 'name' | 'width' | 'height' | 'backgroundColor' | 'backgroundGradient' | 'elements' | 'fonts' | 'printSize' | 'exportSettings'> & {
+  schemaVersion: number;
+  backgroundImage?: string | null;
+};
+
+// --- MIGRATIONS ---
+// MIGRATIONS[n] upgrades a version n payload to version n + 1. They work on raw
+// JSON because older payloads don't match the current types.
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject => typeof value === 'object' && value !== null;
+
+const mapRawElements = (elements: unknown, fn: (el: RawObject) => RawObject): unknown =>
+  Array.isArray(elements)
+    ? elements.map((el) => {
+        if (!isObject(el)) return el;
+        const mapped = el.type === 'group' ? { ...el, children: mapRawElements(el.children, fn) } : el;
+        return fn(mapped);
+      })
+    : elements;
+
+const MIGRATIONS: Record<number, (template: RawObject) => RawObject> = {
+  // Fold the legacy single stroke into the strokes array (Konva strokes are centred on the edge)
+  1: (template) => ({
+    ...template,
+    elements: mapRawElements(template.elements, (el) => {
+      const { stroke, strokeWidth, ...rest } = el;
+      const hasStrokes = Array.isArray(rest.strokes) && rest.strokes.length > 0;
+      if (el.type !== 'text' && !hasStrokes && typeof stroke === 'string' && stroke && typeof strokeWidth === 'number' && strokeWidth > 0) {
+        rest.strokes = [{ color: stroke, width: strokeWidth, position: 'center' }];
+      }
+      if (el.type === 'text' && !rest.textAlign) rest.textAlign = 'center';
+      return rest;
+    }),
+  }),
+  // Adds the new element types and everything else listed for version 3 at the top;
+  // nothing to convert, but older clients must reject these rows rather than
+  // misread them
+  2: (template) => template,
+};
+
+// Smallest value the schema accepts for numbers the properties panel lets through
+// lower (it has no minimum, and an emptied input reads as 0)
+const NUMBER_MINIMUMS: Record<string, number> = {
+  width: 1,
+  height: 1,
+  radius: 1,
+  radiusX: 1,
+  radiusY: 1,
+  length: 1,
+  strokeWidth: 1,
+  fontSize: 1,
+  cornerRadius: 0,
+  innerRadius: 0,
+  sides: 3,
+  numPoints: 3,
+};
+// Optional settings that stop applying rather than being clamped
+const OPTIONAL_POSITIVE = ['minFontSize', 'maxLines', 'lineHeight', 'imageScale'];
+
+const isBelow = (value: unknown, min: number) => typeof value === 'number' && value < min;
+
+// Repairs rather than refuses a row with such a value, so the campaign still opens
+const repairNumbers = (template: RawObject): RawObject => {
+  const elements = mapRawElements(template.elements, (el) => {
+    const repaired = { ...el };
+    Object.entries(NUMBER_MINIMUMS).forEach(([key, min]) => {
+      if (isBelow(repaired[key], min)) repaired[key] = min;
+    });
+    OPTIONAL_POSITIVE.forEach((key) => {
+      if (isBelow(repaired[key], Number.MIN_VALUE)) delete repaired[key];
+    });
+    if (isObject(repaired.field) && isBelow(repaired.field.maxLength, 1)) {
+      const field = { ...repaired.field };
+      delete field.maxLength;
+      repaired.field = field;
+    }
+    return repaired;
+  });
+  return {
+    ...template,
+    width: isBelow(template.width, 1) ? 1 : template.width,
+    height: isBelow(template.height, 1) ? 1 : template.height,
+    elements,
+  };
+};
+
+export const migrateTemplate = (raw: unknown): RawObject => {
+  if (!isObject(raw)) throw new TemplateSchemaError('Template data is not an object.');
+
+  // Payloads saved before versioning existed are version 1
+  let version = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 1;
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new TemplateSchemaError(
+      `This template was saved by a newer version of the app (schema ${version}). Please reload the page.`
+    );
+  }
+
+  let template = raw;
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new TemplateSchemaError(`No migration from template schema ${version}.`);
+    template = migrate(template);
+    version += 1;
+  }
+  return { ...repairNumbers(template), schemaVersion: version };
+};
+
+// e.g. "elements[2].radius: Expected number, received string"
+const formatIssue = (issue: z.ZodIssue) => {
+  const path = issue.path.reduce<string>(
+    (acc, key) => (typeof key === 'number' ? `${acc}[${key}]` : acc ? `${acc}.${key}` : key),
+    ''
+  );
+  return path ? `${path}: ${issue.message}` : issue.message;
+};
+
+// Upgrade and validate stored template JSON
+export const parseTemplateContent = (raw: unknown): TemplateContent => {
+  const result = templateContentSchema.safeParse(migrateTemplate(raw));
+  if (!result.success) {
+    const details = result.error.issues.slice(0, 3).map(formatIssue).join('; ');
+    throw new TemplateSchemaError(`This template is damaged and can't be opened (${details}).`);
+  }
+  return { ...result.data, elements: result.data.elements as CanvasElement[] } as TemplateContent;
+};
@@ -1,6 +1,8 @@
 import { supabase } from '@/integrations/supabase/client';
-import { CanvasElement, TemplateData } from '@/types/editor';
+import { TemplateData, TemplateSummary } from '@/types/editor';
 import { Json } from '@/integrations/supabase/types';
+import { uploadTemplateAssets } from '@/lib/assets';
+import { CURRENT_SCHEMA_VERSION, parseTemplateContent } from '@/lib/templateSchema';
 
 const generateSlug = () => {
   const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
@@ -11,19 +13,32 @@ const generateSlug = () => {
   return slug;
 };
 
+// Columns shared by insert and update
+const toTemplateRow = (template: TemplateData) => ({
+  name: template.name || 'Untitled Template',
+  schema_version: CURRENT_SCHEMA_VERSION,
+  elements: template.elements as unknown as Json,
+  background_color: template.backgroundColor,
+  background_gradient: (template.backgroundGradient ?? null) as unknown as Json,
+  background_image: template.backgroundImage || null,
+  fonts: (template.fonts ?? []) as unknown as Json,
+  print_size: (template.printSize ?? null) as unknown as Json,
+  export_settings: (template.exportSettings ?? null) as unknown as Json,
+  canvas_width: template.width,
+  canvas_height: template.height,
+});
+
 export const publishTemplate = async (template: TemplateData): Promise<{ slug: string } | null> => {
   const slug = generateSlug();
+  // Images go to storage; the row only keeps their URLs
+  const uploaded = await uploadTemplateAssets(template);
+  if (!uploaded) return null;
   
   const { error } = await supabase
     .from('templates')
     .insert({
       slug,
-      name: template.name || 'Untitled Template',
-      elements: template.elements as unknown as Json,
-      background_color: template.backgroundColor,
-      background_image: template.backgroundImage || null,
-      canvas_width: template.width,
-      canvas_height: template.height,
+      ...toTemplateRow(uploaded),
     });
 
   if (error) {
@@ -34,6 +49,27 @@ export const publishTemplate = async (template: TemplateData): Promise<{ slug: s
   return { slug };
 };
 
+// Republish over an existing row so links that were already shared keep working
+export const updateTemplate = async (slug: string, template: TemplateData): Promise<{ slug: string } | null> => {
+  const uploaded = await uploadTemplateAssets(template);
+  if (!uploaded) return null;
+
+  const { data, error } = await supabase
+    .from('templates')
+    .update(toTemplateRow(uploaded))
+    .eq('slug', slug)
+    .select('slug')
+    .single();
+
+  if (error || !data) {
+    console.error('Error updating template:', error);
+    return null;
+  }
+
+  return { slug: data.slug };
+};
+
+// Resolves to null when no row matches; throws TemplateSchemaError for rows that can't be read
 export const getTemplateBySlug = async (slug: string): Promise<TemplateData | null> => {
   const { data, error } = await supabase
     .from('templates')
@@ -46,12 +82,61 @@ export const getTemplateBySlug = async (slug: string): Promise<TemplateData | nu
     return null;
   }
 
-  return {
+  // Older rows are upgraded here; a row that still doesn't validate throws TemplateSchemaError
+  const content = parseTemplateContent({
+    schemaVersion: data.schema_version,
     name: data.name,
     width: data.canvas_width,
     height: data.canvas_height,
-    elements: data.elements as unknown as CanvasElement[],
+    elements: data.elements,
     backgroundColor: data.background_color,
+    backgroundGradient: data.background_gradient ?? undefined,
     backgroundImage: data.background_image,
+    fonts: data.fonts,
+    printSize: data.print_size ?? undefined,
+    exportSettings: data.export_settings ?? undefined,
+  });
+
+  return {
+    ...content,
+    id: data.id,
+    slug: data.slug,
+    backgroundImage: content.backgroundImage ?? undefined,
+    ownerId: data.owner_id,
   };
 };
+
+// Templates published by the signed-in user, most recently edited first
+export const listMyTemplates = async (): Promise<TemplateSummary[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('templates')
+    .select('slug, name, updated_at')
+    .eq('owner_id', user.id)
+    .order('updated_at', { ascending: false });
+
+  if (error || !data) {
+    console.error('Error listing templates:', error);
+    return [];
+  }
+
+  return data.map((row) => ({ slug: row.slug, name: row.name, updatedAt: row.updated_at }));
+};
+
+export const deleteTemplate = async (slug: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('templates')
+    .delete()
+    .eq('slug', slug)
+    .select('slug');
+
+  // RLS silently filters rows the user doesn't own, so an empty result means nothing was deleted
+  if (error || !data || data.length === 0) {
+    console.error('Error deleting template:', error);
+    return false;
+  }
+
+  return true;
+};
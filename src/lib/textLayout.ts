@@ -0,0 +1,408 @@
+import { Shadow, TextElement, TextRun } from '@/types/editor';
+import { getTextRuns } from '@/lib/richText';
+import { FALLBACK_FONT, quoteFontFamily } from '@/lib/fonts';
+import { createCanvasGradient } from '@/lib/gradients';
+
+// Line breaking and drawing for text elements. The editor, the generator and the
+// headless renderer all lay text out and paint it here, so a name wraps at the
+// same word and looks the same everywhere. Measuring is injected because the
+// browser and Node measure with different canvases.
+
+export type MeasureText = (text: string, font: string) => number;
+
+// Measures with a detached canvas, like Konva does internally
+let measureContext: CanvasRenderingContext2D | null = null;
+export const browserMeasureText: MeasureText = (text, font) => {
+  measureContext ??= document.createElement('canvas').getContext('2d');
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+};
+
+// Everything needed to paint one run
+export interface ResolvedRunStyle {
+  font: string;
+  fill: string;
+  // No fill of its own, so the element's gradient applies when it has one
+  inheritsFill: boolean;
+  underline: boolean;
+  letterSpacing: number;
+}
+
+// A stretch of one line in a single style; x is relative to the line's left edge
+export interface TextSegment {
+  text: string;
+  style: ResolvedRunStyle;
+  x: number;
+  width: number;
+}
+
+export interface TextLine {
+  text: string;
+  width: number;
+  segments: TextSegment[];
+}
+
+export interface TextLayout {
+  // Size actually used; "shrink" may go below the element's fontSize
+  fontSize: number;
+  lineHeight: number;
+  lines: TextLine[];
+  // Height of the whole block, which is centred on the element's y
+  height: number;
+  // Lines were dropped or ended with an ellipsis to fit
+  truncated: boolean;
+}
+
+type FontStyle = Pick<TextElement, 'fontSize' | 'fontFamily' | 'fontStyle' | 'fontWeight'>;
+
+type LayoutInput = FontStyle &
+  Pick<
+    TextElement,
+    'text' | 'runs' | 'fill' | 'width' | 'overflow' | 'minFontSize' | 'maxLines' | 'letterSpacing' | 'lineHeight' | 'textTransform'
+  >;
+
+// Konva has no fontWeight attribute; the weight travels in fontStyle, e.g. "italic 700"
+export const getFontStyle = (el: Pick<TextElement, 'fontStyle' | 'fontWeight'>) =>
+  `${el.fontStyle || 'normal'} ${el.fontWeight || 'normal'}`;
+
+// Same string Konva builds for its context (style, variant, size, family), plus
+// a fallback for fonts that failed to load
+export const getCanvasFont = (el: FontStyle) =>
+  `${getFontStyle(el)} normal ${el.fontSize}px ${quoteFontFamily(el.fontFamily)}, ${FALLBACK_FONT}`;
+
+const resolveRunStyle = (el: LayoutInput, run: TextRun, fontSize: number): ResolvedRunStyle => ({
+  font: getCanvasFont({
+    fontSize,
+    fontFamily: run.fontFamily ?? el.fontFamily,
+    fontStyle: run.fontStyle ?? el.fontStyle,
+    fontWeight: run.fontWeight ?? el.fontWeight,
+  }),
+  fill: run.fill ?? el.fill,
+  inheritsFill: !run.fill,
+  underline: !!run.underline,
+  letterSpacing: run.letterSpacing ?? el.letterSpacing ?? 0,
+});
+
+// Case changes work per character; capitalize looks at the previous character, even across runs
+const transformChar = (char: string, previous: string | undefined, transform: TextElement['textTransform']) => {
+  switch (transform) {
+    case 'uppercase':
+      return char.toUpperCase();
+    case 'lowercase':
+      return char.toLowerCase();
+    case 'capitalize':
+      return previous === undefined || /\s/.test(previous) ? char.toUpperCase() : char;
+    default:
+      return char;
+  }
+};
+
+// --- MEASURING ---
+
+// One character and the style it's drawn in
+interface StyledChar {
+  char: string;
+  style: ResolvedRunStyle;
+}
+
+// Spaced text is drawn one character at a time, so it's measured that way too
+const measureStyled = (text: string, style: ResolvedRunStyle, measure: MeasureText) =>
+  style.letterSpacing
+    ? Array.from(text).reduce((sum, char) => sum + measure(char, style.font) + style.letterSpacing, 0)
+    : measure(text, style.font);
+
+const toSegments = (chars: StyledChar[], measure: MeasureText): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  let x = 0;
+  chars.forEach(({ char, style }) => {
+    const last = segments[segments.length - 1];
+    if (last && last.style === style) last.text += char;
+    else segments.push({ text: char, style, x: 0, width: 0 });
+  });
+  segments.forEach((segment) => {
+    segment.x = x;
+    segment.width = measureStyled(segment.text, segment.style, measure);
+    x += segment.width;
+  });
+  return segments;
+};
+
+const toLine = (chars: StyledChar[], measure: MeasureText): TextLine => {
+  const segments = toSegments(chars, measure);
+  return {
+    text: chars.map((c) => c.char).join(''),
+    width: segments.reduce((sum, segment) => sum + segment.width, 0),
+    segments,
+  };
+};
+
+const measureChars = (chars: StyledChar[], measure: MeasureText) =>
+  toSegments(chars, measure).reduce((sum, segment) => sum + segment.width, 0);
+
+// --- WRAPPING ---
+
+const trimStart = (chars: StyledChar[]) => {
+  let i = 0;
+  while (i < chars.length && /\s/.test(chars[i].char)) i++;
+  return chars.slice(i);
+};
+
+const trimEnd = (chars: StyledChar[]) => {
+  let i = chars.length;
+  while (i > 0 && /\s/.test(chars[i - 1].char)) i--;
+  return chars.slice(0, i);
+};
+
+// Break one paragraph at spaces or dashes, falling back to characters for long words
+const wrapParagraph = (paragraph: StyledChar[], maxWidth: number, measure: MeasureText): TextLine[] => {
+  const lines: TextLine[] = [];
+  let rest = paragraph;
+
+  while (rest.length > 0 && measureChars(rest, measure) > maxWidth) {
+    // Longest prefix that still fits
+    let low = 0;
+    let high = rest.length;
+    let fit = 0;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (measureChars(rest.slice(0, mid + 1), measure) <= maxWidth) {
+        fit = mid + 1;
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    // Always make progress, even if a single character is wider than the box
+    fit = Math.max(1, fit);
+
+    // Prefer to break after the last space or dash in the prefix
+    let breakAt = fit;
+    if (rest[fit]?.char !== ' ' && rest[fit]?.char !== '-') {
+      const prefix = rest.slice(0, fit).map((c) => c.char);
+      const lastBreak = Math.max(prefix.lastIndexOf(' '), prefix.lastIndexOf('-')) + 1;
+      if (lastBreak > 0) breakAt = lastBreak;
+    }
+
+    lines.push(toLine(trimEnd(rest.slice(0, breakAt)), measure));
+    rest = trimStart(rest.slice(breakAt));
+  }
+
+  // Keep empty paragraphs so blank lines still take up space
+  if (rest.length > 0 || lines.length === 0) lines.push(toLine(rest, measure));
+  return lines;
+};
+
+// Split the runs into paragraphs of styled characters
+const toParagraphs = (el: LayoutInput, fontSize: number): StyledChar[][] => {
+  const paragraphs: StyledChar[][] = [[]];
+  let previous: string | undefined;
+  getTextRuns(el).forEach((run) => {
+    const style = resolveRunStyle(el, run, fontSize);
+    Array.from(run.text).forEach((char) => {
+      if (char === '\n') paragraphs.push([]);
+      else paragraphs[paragraphs.length - 1].push({ char: transformChar(char, previous, el.textTransform), style });
+      previous = char;
+    });
+  });
+  return paragraphs;
+};
+
+const wrapText = (el: LayoutInput, fontSize: number, measure: MeasureText) =>
+  toParagraphs(el, fontSize).flatMap((paragraph) => wrapParagraph(paragraph, el.width, measure));
+
+// --- OVERFLOW ---
+
+const ELLIPSIS = '…';
+
+// "shrink" goes down to half the design size unless the creator set a minimum
+export const getMinFontSize = (el: Pick<TextElement, 'fontSize' | 'minFontSize'>) =>
+  Math.min(el.fontSize, el.minFontSize || el.fontSize / 2);
+
+// Shorten a line until it fits with "…" on the end, drawn in the last character's style
+const addEllipsis = (line: TextLine, maxWidth: number, measure: MeasureText): TextLine => {
+  const chars: StyledChar[] = line.segments.flatMap((segment) =>
+    Array.from(segment.text).map((char) => ({ char, style: segment.style }))
+  );
+  const style = chars[chars.length - 1]?.style ?? line.segments[0]?.style;
+  if (!style) return line;
+
+  const withEllipsis = () => [...trimEnd(chars), { char: ELLIPSIS, style }];
+  while (chars.length > 0 && measureChars(withEllipsis(), measure) > maxWidth) chars.pop();
+  return toLine(withEllipsis(), measure);
+};
+
+const buildLayout = (el: LayoutInput, fontSize: number, lines: TextLine[], truncated: boolean): TextLayout => {
+  const lineHeight = fontSize * (el.lineHeight ?? 1);
+  return { fontSize, lineHeight, lines, height: lines.length * lineHeight, truncated };
+};
+
+// Keep the first maxLines lines, optionally ending the last one with an ellipsis
+const limitLines = (
+  el: LayoutInput,
+  lines: TextLine[],
+  fontSize: number,
+  maxLines: number,
+  maxWidth: number,
+  ellipsis: boolean,
+  measure: MeasureText
+) => {
+  if (lines.length <= maxLines) return buildLayout(el, fontSize, lines, false);
+
+  const kept = lines.slice(0, maxLines);
+  if (ellipsis) kept[kept.length - 1] = addEllipsis(kept[kept.length - 1], maxWidth, measure);
+  return buildLayout(el, fontSize, kept, true);
+};
+
+export const layoutText = (el: LayoutInput, measure: MeasureText): TextLayout => {
+  const mode = el.overflow ?? 'wrap';
+
+  if (mode === 'wrap') {
+    return limitLines(el, wrapText(el, el.fontSize, measure), el.fontSize, el.maxLines || Infinity, el.width, false, measure);
+  }
+
+  const maxLines = el.maxLines || 1;
+
+  if (mode === 'shrink') {
+    // Fits when it needs no more than maxLines and no word has to be split
+    const fits = (size: number) => {
+      const paragraphs = toParagraphs(el, size);
+      const words = paragraphs.flatMap((paragraph) => {
+        const result: StyledChar[][] = [[]];
+        paragraph.forEach((c) => (/\s/.test(c.char) ? result.push([]) : result[result.length - 1].push(c)));
+        return result.filter((word) => word.length > 0);
+      });
+      const lines = paragraphs.flatMap((paragraph) => wrapParagraph(paragraph, el.width, measure));
+      return lines.length <= maxLines && words.every((word) => measureChars(word, measure) <= el.width);
+    };
+    const maxSize = el.fontSize;
+    const minSize = getMinFontSize(el);
+
+    if (fits(maxSize)) return buildLayout(el, maxSize, wrapText(el, maxSize, measure), false);
+
+    // Largest whole-pixel size that fits; below the minimum the text is cut with an ellipsis
+    let low = Math.ceil(minSize);
+    let high = Math.floor(maxSize);
+    let best = minSize;
+    while (low <= high) {
+      const mid = (low + high) >>> 1;
+      if (fits(mid)) {
+        best = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return limitLines(el, wrapText(el, best, measure), best, maxLines, el.width, true, measure);
+  }
+
+  return limitLines(el, wrapText(el, el.fontSize, measure), el.fontSize, maxLines, el.width, true, measure);
+};
+
+// --- POSITIONING ---
+
+// Left edge of a line inside the element's box, relative to the element's centre
+export const getLineX = (el: Pick<TextElement, 'width' | 'textAlign'>, line: TextLine) => {
+  const left = -el.width / 2;
+  if (el.textAlign === 'left') return left;
+  if (el.textAlign === 'right') return left + el.width - line.width;
+  return left + (el.width - line.width) / 2;
+};
+
+// Vertical middle of line `index`; the block as a whole is centred on the element's y
+export const getLineY = (layout: TextLayout, index: number) =>
+  -layout.height / 2 + layout.lineHeight * (index + 0.5);
+
+// Text was cut off, or plain wrapping needs more lines than the design allowed for
+export const isTextOverflowing = (el: Pick<TextElement, 'overflow' | 'maxLines' | 'width'>, layout: TextLayout, designedLines: number) =>
+  layout.truncated ||
+  layout.lines.some((line) => line.width > el.width + 0.5) ||
+  ((el.overflow ?? 'wrap') === 'wrap' && !el.maxLines && layout.lines.length > designedLines);
+
+// --- DRAWING ---
+
+// Spaced text is drawn a character at a time, matching how it was measured
+const paintText = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  x: number,
+  y: number,
+  letterSpacing: number,
+  paint: 'fill' | 'stroke'
+) => {
+  const draw = (t: string, at: number) => (paint === 'fill' ? ctx.fillText(t, at, y) : ctx.strokeText(t, at, y));
+  if (!letterSpacing) {
+    draw(text, x);
+    return;
+  }
+  let charX = x;
+  Array.from(text).forEach((char) => {
+    draw(char, charX);
+    charX += ctx.measureText(char).width + letterSpacing;
+  });
+};
+
+// Canvas shadows ignore the transform, so scale them by it to match the text's size
+const applyShadow = (ctx: CanvasRenderingContext2D, shadow: Shadow) => {
+  const m = ctx.getTransform();
+  const scale = Math.hypot(m.a, m.b);
+  ctx.shadowColor = shadow.color;
+  ctx.shadowBlur = shadow.blur * scale;
+  ctx.shadowOffsetX = shadow.offsetX * scale;
+  ctx.shadowOffsetY = shadow.offsetY * scale;
+};
+
+// Paint a laid-out text element around its centre. Konva shapes call this from
+// their sceneFunc with the native context; the headless renderer calls it directly.
+export const drawTextLayout = (
+  ctx: CanvasRenderingContext2D,
+  el: Pick<TextElement, 'width' | 'textAlign' | 'fillGradient' | 'textStroke' | 'textShadow'>,
+  layout: TextLayout
+) => {
+  ctx.save();
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = 'left';
+
+  const forEachSegment = (fn: (segment: TextSegment, left: number, y: number) => void) =>
+    layout.lines.forEach((line, i) => {
+      const left = getLineX(el, line);
+      const y = getLineY(layout, i);
+      line.segments.forEach((segment) => fn(segment, left + segment.x, y));
+    });
+
+  // One gradient across the whole text block
+  const gradient = el.fillGradient
+    ? createCanvasGradient(ctx, el.fillGradient, { x: -el.width / 2, y: -layout.height / 2, width: el.width, height: layout.height })
+    : null;
+
+  const fill = ({ text, style, width }: TextSegment, x: number, y: number) => {
+    ctx.font = style.font;
+    ctx.fillStyle = gradient && style.inheritsFill ? gradient : style.fill;
+    paintText(ctx, text, x, y, style.letterSpacing, 'fill');
+    // Roughly where the font's own underline sits, below the alphabetic baseline
+    if (style.underline) {
+      const thickness = Math.max(1, layout.fontSize / 16);
+      ctx.fillRect(x, y + layout.fontSize * 0.38, width, thickness);
+    }
+  };
+
+  if (el.textShadow) applyShadow(ctx, el.textShadow);
+
+  // The outline is centred on the glyph edges at twice the width, then the fill
+  // covers its inner half. With a shadow, the outlined letters cast it together
+  // and the final fill pass goes on top without one.
+  const stroke = el.textStroke?.width > 0 ? el.textStroke : null;
+  if (stroke) {
+    ctx.strokeStyle = stroke.color;
+    ctx.lineWidth = stroke.width * 2;
+    ctx.lineJoin = 'round';
+    forEachSegment((segment, x, y) => {
+      ctx.font = segment.style.font;
+      paintText(ctx, segment.text, x, y, segment.style.letterSpacing, 'stroke');
+      if (el.textShadow) fill(segment, x, y);
+    });
+    ctx.shadowColor = 'transparent';
+  }
+
+  forEachSegment(fill);
+  ctx.restore();
+};
@@ -0,0 +1,293 @@
+import { PathCommand } from '@/lib/paths';
+
+// Just enough of a TrueType reader to turn text into outlines for vector exports:
+// character mapping, advance widths and glyph shapes. Fonts with CFF outlines
+// (most .otf files) and compressed WOFF2 files aren't read; callers fall back to
+// embedding that text another way.
+
+export interface TrueTypeFont {
+  unitsPerEm: number;
+  ascender: number;
+  descender: number;
+  // Outline of `text` in font units, y pointing up, starting at x = 0 on the baseline
+  getTextPath: (text: string) => { commands: PathCommand[]; advance: number };
+}
+
+interface Tables {
+  [tag: string]: { offset: number; length: number };
+}
+
+type GlyphPoint = { x: number; y: number; onCurve: boolean };
+
+const readTables = (view: DataView): Tables | null => {
+  const version = view.getUint32(0);
+  // 0x00010000 and 'true' mark TrueType outlines; 'OTTO' is CFF
+  if (version !== 0x00010000 && version !== 0x74727565) return null;
+  const tables: Tables = {};
+  const count = view.getUint16(4);
+  for (let i = 0; i < count; i++) {
+    const record = 12 + i * 16;
+    const tag = String.fromCharCode(...[0, 1, 2, 3].map((n) => view.getUint8(record + n)));
+    tables[tag] = { offset: view.getUint32(record + 8), length: view.getUint32(record + 12) };
+  }
+  return tables;
+};
+
+// Unicode code point to glyph index, from a format 4 or 12 subtable
+const readCharacterMap = (view: DataView, cmapOffset: number) => {
+  const count = view.getUint16(cmapOffset + 2);
+  let subtable = -1;
+  let best = -1;
+  for (let i = 0; i < count; i++) {
+    const record = cmapOffset + 4 + i * 8;
+    const platform = view.getUint16(record);
+    const encoding = view.getUint16(record + 2);
+    const offset = cmapOffset + view.getUint32(record + 4);
+    const format = view.getUint16(offset);
+    // Full Unicode tables beat BMP-only ones
+    const rank = format === 12 ? 2 : format === 4 ? 1 : 0;
+    const isUnicode = platform === 0 || (platform === 3 && (encoding === 1 || encoding === 10));
+    if (isUnicode && rank > best) {
+      best = rank;
+      subtable = offset;
+    }
+  }
+
+  const map = new Map<number, number>();
+  if (subtable < 0) return map;
+
+  if (best === 2) {
+    const groups = view.getUint32(subtable + 12);
+    for (let i = 0; i < groups; i++) {
+      const group = subtable + 16 + i * 12;
+      const start = view.getUint32(group);
+      const end = Math.min(view.getUint32(group + 4), start + 0xffff);
+      const glyph = view.getUint32(group + 8);
+      for (let code = start; code <= end; code++) map.set(code, glyph + code - start);
+    }
+    return map;
+  }
+
+  const segments = view.getUint16(subtable + 6) / 2;
+  const ends = subtable + 14;
+  const starts = ends + segments * 2 + 2;
+  const deltas = starts + segments * 2;
+  const rangeOffsets = deltas + segments * 2;
+  for (let i = 0; i < segments; i++) {
+    const start = view.getUint16(starts + i * 2);
+    const end = view.getUint16(ends + i * 2);
+    const delta = view.getInt16(deltas + i * 2);
+    const rangeOffset = view.getUint16(rangeOffsets + i * 2);
+    for (let code = start; code <= end && code !== 0xffff; code++) {
+      let glyph: number;
+      if (rangeOffset === 0) {
+        glyph = (code + delta) & 0xffff;
+      } else {
+        const at = rangeOffsets + i * 2 + rangeOffset + (code - start) * 2;
+        glyph = view.getUint16(at);
+        if (glyph !== 0) glyph = (glyph + delta) & 0xffff;
+      }
+      if (glyph !== 0) map.set(code, glyph);
+    }
+  }
+  return map;
+};
+
+// --- OUTLINES ---
+
+// Contours of quadratic curves become the cubic commands the rest of the app uses
+const contoursToCommands = (contours: GlyphPoint[][]): PathCommand[] => {
+  const commands: PathCommand[] = [];
+  contours.forEach((points) => {
+    if (points.length === 0) return;
+    // Start on a point that lies on the curve; if there is none, at the middle of the first two
+    const startIndex = points.findIndex((p) => p.onCurve);
+    const start =
+      startIndex >= 0
+        ? points[startIndex]
+        : { x: (points[0].x + points[1 % points.length].x) / 2, y: (points[0].y + points[1 % points.length].y) / 2, onCurve: true };
+    const ordered = startIndex >= 0 ? [...points.slice(startIndex + 1), ...points.slice(0, startIndex)] : points;
+
+    commands.push({ type: 'M', x: start.x, y: start.y });
+    let current = start;
+    let control: GlyphPoint | null = null;
+    const quadTo = (cx: number, cy: number, x: number, y: number) => {
+      commands.push({
+        type: 'C',
+        x1: current.x + ((cx - current.x) * 2) / 3,
+        y1: current.y + ((cy - current.y) * 2) / 3,
+        x2: x + ((cx - x) * 2) / 3,
+        y2: y + ((cy - y) * 2) / 3,
+        x,
+        y,
+      });
+      current = { x, y, onCurve: true };
+    };
+
+    [...ordered, start].forEach((point) => {
+      if (point.onCurve) {
+        if (control) quadTo(control.x, control.y, point.x, point.y);
+        else {
+          commands.push({ type: 'L', x: point.x, y: point.y });
+          current = point;
+        }
+        control = null;
+      } else if (control) {
+        // Two off-curve points in a row imply an on-curve point halfway between them
+        const mid = { x: (control.x + point.x) / 2, y: (control.y + point.y) / 2 };
+        quadTo(control.x, control.y, mid.x, mid.y);
+        control = point;
+      } else {
+        control = point;
+      }
+    });
+    commands.push({ type: 'Z' });
+  });
+  return commands;
+};
+
+export const parseTrueType = (bytes: Uint8Array): TrueTypeFont | null => {
+  try {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const tables = readTables(view);
+    const required = ['head', 'hhea', 'hmtx', 'maxp', 'cmap', 'loca', 'glyf'];
+    if (!tables || required.some((tag) => !tables[tag])) return null;
+
+    const head = tables.head.offset;
+    const unitsPerEm = view.getUint16(head + 18);
+    const longOffsets = view.getInt16(head + 50) === 1;
+    const hhea = tables.hhea.offset;
+    const ascender = view.getInt16(hhea + 4);
+    const descender = view.getInt16(hhea + 6);
+    const metricsCount = view.getUint16(hhea + 34);
+    const glyphCount = view.getUint16(tables.maxp.offset + 4);
+    const characterMap = readCharacterMap(view, tables.cmap.offset);
+
+    const getAdvance = (glyph: number) =>
+      view.getUint16(tables.hmtx.offset + Math.min(glyph, metricsCount - 1) * 4);
+
+    const getGlyphRange = (glyph: number) => {
+      const loca = tables.loca.offset;
+      const start = longOffsets ? view.getUint32(loca + glyph * 4) : view.getUint16(loca + glyph * 2) * 2;
+      const end = longOffsets ? view.getUint32(loca + glyph * 4 + 4) : view.getUint16(loca + glyph * 2 + 2) * 2;
+      return { offset: tables.glyf.offset + start, length: end - start };
+    };
+
+    const readGlyph = (glyph: number, depth = 0): GlyphPoint[][] => {
+      if (glyph >= glyphCount || depth > 8) return [];
+      const { offset, length } = getGlyphRange(glyph);
+      if (length <= 0) return [];
+      const contourCount = view.getInt16(offset);
+
+      if (contourCount < 0) {
+        // Composite glyph: other glyphs, each moved and possibly scaled
+        const contours: GlyphPoint[][] = [];
+        let at = offset + 10;
+        let flags: number;
+        do {
+          flags = view.getUint16(at);
+          const component = view.getUint16(at + 2);
+          at += 4;
+          let dx = 0;
+          let dy = 0;
+          if (flags & 0x0001) {
+            dx = view.getInt16(at);
+            dy = view.getInt16(at + 2);
+            at += 4;
+          } else {
+            dx = view.getInt8(at);
+            dy = view.getInt8(at + 1);
+            at += 2;
+          }
+          // Anchored by matching points rather than offsets; rare, and drawn unshifted
+          if (!(flags & 0x0002)) dx = dy = 0;
+          let [a, b, c, d] = [1, 0, 0, 1];
+          const f2dot14 = (pos: number) => view.getInt16(pos) / 16384;
+          if (flags & 0x0008) {
+            a = d = f2dot14(at);
+            at += 2;
+          } else if (flags & 0x0040) {
+            a = f2dot14(at);
+            d = f2dot14(at + 2);
+            at += 4;
+          } else if (flags & 0x0080) {
+            [a, b, c, d] = [f2dot14(at), f2dot14(at + 2), f2dot14(at + 4), f2dot14(at + 6)];
+            at += 8;
+          }
+          readGlyph(component, depth + 1).forEach((contour) =>
+            contours.push(contour.map((p) => ({ x: a * p.x + c * p.y + dx, y: b * p.x + d * p.y + dy, onCurve: p.onCurve })))
+          );
+        } while (flags & 0x0020);
+        return contours;
+      }
+
+      const endPoints = Array.from({ length: contourCount }, (_, i) => view.getUint16(offset + 10 + i * 2));
+      const pointCount = contourCount > 0 ? endPoints[contourCount - 1] + 1 : 0;
+      const instructionLength = view.getUint16(offset + 10 + contourCount * 2);
+      let at = offset + 12 + contourCount * 2 + instructionLength;
+
+      const flags: number[] = [];
+      while (flags.length < pointCount) {
+        const flag = view.getUint8(at++);
+        flags.push(flag);
+        if (flag & 0x08) {
+          const repeat = view.getUint8(at++);
+          for (let i = 0; i < repeat; i++) flags.push(flag);
+        }
+      }
+      // Coordinates are deltas, short (with a sign flag) or long, or repeated
+      const readCoordinates = (shortBit: number, sameBit: number) => {
+        let value = 0;
+        return flags.map((flag) => {
+          if (flag & shortBit) {
+            const delta = view.getUint8(at++);
+            value += flag & sameBit ? delta : -delta;
+          } else if (!(flag & sameBit)) {
+            value += view.getInt16(at);
+            at += 2;
+          }
+          return value;
+        });
+      };
+      const xs = readCoordinates(0x02, 0x10);
+      const ys = readCoordinates(0x04, 0x20);
+
+      let first = 0;
+      return endPoints.map((last) => {
+        const contour = xs.slice(first, last + 1).map((x, i) => ({ x, y: ys[first + i], onCurve: !!(flags[first + i] & 0x01) }));
+        first = last + 1;
+        return contour;
+      });
+    };
+
+    const glyphCache = new Map<number, PathCommand[]>();
+    const getGlyphCommands = (glyph: number) => {
+      let commands = glyphCache.get(glyph);
+      if (!commands) {
+        commands = contoursToCommands(readGlyph(glyph));
+        glyphCache.set(glyph, commands);
+      }
+      return commands;
+    };
+
+    const getTextPath = (text: string) => {
+      const commands: PathCommand[] = [];
+      let advance = 0;
+      for (const char of text) {
+        const glyph = characterMap.get(char.codePointAt(0) ?? 0) ?? 0;
+        getGlyphCommands(glyph).forEach((c) => {
+          if (c.type === 'Z') commands.push(c);
+          else if (c.type === 'C') commands.push({ ...c, x1: c.x1 + advance, x2: c.x2 + advance, x: c.x + advance });
+          else commands.push({ ...c, x: c.x + advance });
+        });
+        advance += getAdvance(glyph);
+      }
+      return { commands, advance };
+    };
+
+    return { unitsPerEm, ascender, descender, getTextPath };
+  } catch (err) {
+    console.error('Could not read font outlines:', err);
+    return null;
+  }
+};
@@ -0,0 +1,707 @@
+import { PathCommand, getPathBounds } from '@/lib/paths';
+import { TrueTypeFont } from '@/lib/trueType';
+import type { RenderCanvas } from '@/lib/renderTemplate';
+
+// A stand-in for CanvasRenderingContext2D that records what is drawn instead of
+// painting pixels, so the headless renderer's drawing code can produce SVG and
+// PDF output unchanged. Paths are stored in page coordinates with the transform
+// already applied. Only the parts of the canvas API that renderTemplate,
+// textLayout, shapes and lines use are implemented.
+//
+// Shadows are soft by nature and are recorded as images underneath the vector
+// shape. Text becomes outlines when `textMode` is 'outline' and the font's
+// TrueType outlines are available, and an image when they aren't.
+
+export type Matrix = [number, number, number, number, number, number];
+
+export interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  // 0 to 1
+  a: number;
+}
+
+export interface VectorGradientStop {
+  offset: number;
+  color: Rgba;
+}
+
+// Gradient geometry is in page coordinates
+export type VectorPaint =
+  | { kind: 'color'; color: Rgba }
+  | { kind: 'linear'; x0: number; y0: number; x1: number; y1: number; stops: VectorGradientStop[] }
+  | { kind: 'radial'; cx: number; cy: number; r: number; stops: VectorGradientStop[] };
+
+export interface VectorClip {
+  path: PathCommand[];
+  rule: CanvasFillRule;
+}
+
+export interface VectorFont {
+  // First family in the list, unquoted
+  family: string;
+  // The whole CSS family list, fallbacks included
+  families: string;
+  size: number;
+  weight: number;
+  style: 'normal' | 'italic';
+  // The canvas font string it was read from
+  css: string;
+}
+
+interface OpStyle {
+  // Applied outermost first
+  clips: VectorClip[];
+  alpha: number;
+  blend: GlobalCompositeOperation;
+}
+
+export type VectorOp = OpStyle &
+  (
+    | { type: 'fill'; path: PathCommand[]; rule: CanvasFillRule; paint: VectorPaint }
+    | { type: 'stroke'; path: PathCommand[]; paint: VectorPaint; width: number; join: CanvasLineJoin; cap: CanvasLineCap }
+    // The image fills (0, 0, width, height) in the space `matrix` maps to the page
+    | { type: 'image'; image: CanvasImageSource; matrix: Matrix; width: number; height: number }
+    // Text starting at the matrix origin, on the alphabetic baseline
+    | { type: 'text'; text: string; font: VectorFont; matrix: Matrix; paint: VectorPaint; stroke?: { width: number; join: CanvasLineJoin } }
+  );
+
+export interface VectorContextOptions {
+  width: number;
+  height: number;
+  // Makes scratch canvases for measuring text, shadows and text that can't be outlined
+  createCanvas: (width: number, height: number) => RenderCanvas;
+  // Pixels per page unit for anything rasterized
+  rasterScale: number;
+  textMode: 'text' | 'outline';
+  // TrueType outlines for a font, or null when there are none
+  getOutlines?: (font: VectorFont) => TrueTypeFont | null;
+}
+
+interface State {
+  matrix: Matrix;
+  clips: VectorClip[];
+  globalAlpha: number;
+  globalCompositeOperation: GlobalCompositeOperation;
+  fillStyle: string | VectorGradient;
+  strokeStyle: string | VectorGradient;
+  lineWidth: number;
+  lineJoin: CanvasLineJoin;
+  lineCap: CanvasLineCap;
+  font: string;
+  textAlign: CanvasTextAlign;
+  textBaseline: CanvasTextBaseline;
+  shadowColor: string;
+  shadowBlur: number;
+  shadowOffsetX: number;
+  shadowOffsetY: number;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const TAU = Math.PI * 2;
+
+// --- MATRICES ---
+
+export const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+export const applyMatrix = (m: Matrix, x: number, y: number) => ({ x: m[0] * x + m[2] * y + m[4], y: m[1] * x + m[3] * y + m[5] });
+
+const getScale = (m: Matrix) => Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+
+export const transformPath = (commands: PathCommand[], m: Matrix): PathCommand[] =>
+  commands.map((c) => {
+    if (c.type === 'Z') return c;
+    const end = applyMatrix(m, c.x, c.y);
+    if (c.type !== 'C') return { type: c.type, ...end };
+    const c1 = applyMatrix(m, c.x1, c.y1);
+    const c2 = applyMatrix(m, c.x2, c.y2);
+    return { type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, ...end };
+  });
+
+// --- STYLES ---
+
+// Canvas fonts as built by getCanvasFont: "italic 700 normal 48px Inter, sans-serif"
+export const parseCanvasFont = (font: string): VectorFont => {
+  const match = font.match(/([\d.]+)px\s+(.+)$/);
+  const prefix = match ? font.slice(0, match.index) : '';
+  const families = match?.[2].trim() ?? 'sans-serif';
+  const weightToken = prefix.split(/\s+/).find((token) => /^\d+$|^bold(er)?$|^lighter$/.test(token));
+  return {
+    family: families.split(',')[0].trim().replace(/^["']|["']$/g, ''),
+    families,
+    size: match ? parseFloat(match[1]) : 10,
+    weight: !weightToken ? 400 : /^\d+$/.test(weightToken) ? parseInt(weightToken, 10) : weightToken === 'lighter' ? 300 : 700,
+    style: /\b(italic|oblique)\b/.test(prefix) ? 'italic' : 'normal',
+    css: font,
+  };
+};
+
+export const toCssColor = ({ r, g, b, a }: Rgba) =>
+  a >= 1 ? `#${[r, g, b].map((v) => Math.round(v).toString(16).padStart(2, '0')).join('')}` : `rgba(${r}, ${g}, ${b}, ${a})`;
+
+// Recorded canvas gradient; its geometry is in the coordinates it was created in
+class VectorGradient {
+  stops: { offset: number; color: string }[] = [];
+
+  constructor(readonly geometry: { kind: 'linear'; x0: number; y0: number; x1: number; y1: number } | { kind: 'radial'; cx: number; cy: number; r: number }) {}
+
+  addColorStop(offset: number, color: string) {
+    this.stops.push({ offset, color });
+  }
+}
+
+// --- CONTEXT ---
+
+export class VectorContext {
+  readonly ops: VectorOp[] = [];
+  // Text drawn as an image because its font has no outlines to use
+  rasterizedText = 0;
+
+  private state: State = {
+    matrix: IDENTITY,
+    clips: [],
+    globalAlpha: 1,
+    globalCompositeOperation: 'source-over',
+    fillStyle: '#000000',
+    strokeStyle: '#000000',
+    lineWidth: 1,
+    lineJoin: 'miter',
+    lineCap: 'butt',
+    font: '10px sans-serif',
+    textAlign: 'start',
+    textBaseline: 'alphabetic',
+    shadowColor: 'rgba(0, 0, 0, 0)',
+    shadowBlur: 0,
+    shadowOffsetX: 0,
+    shadowOffsetY: 0,
+  };
+  private stack: State[] = [];
+  private path: PathCommand[] = [];
+  private current: { x: number; y: number } | null = null;
+  private subpathStart: { x: number; y: number } | null = null;
+  private readonly measure: CanvasRenderingContext2D;
+
+  constructor(private readonly options: VectorContextOptions) {
+    this.measure = options.createCanvas(1, 1).getContext('2d');
+  }
+
+  get canvas() {
+    return { width: this.options.width, height: this.options.height };
+  }
+
+  // --- State ---
+
+  save() {
+    this.stack.push({ ...this.state });
+  }
+
+  restore() {
+    const state = this.stack.pop();
+    if (state) this.state = state;
+  }
+
+  get globalAlpha() { return this.state.globalAlpha; }
+  set globalAlpha(value: number) { this.state.globalAlpha = value; }
+  get globalCompositeOperation() { return this.state.globalCompositeOperation; }
+  set globalCompositeOperation(value: GlobalCompositeOperation) { this.state.globalCompositeOperation = value; }
+  get fillStyle() { return this.state.fillStyle; }
+  set fillStyle(value: string | VectorGradient) { this.state.fillStyle = value; }
+  get strokeStyle() { return this.state.strokeStyle; }
+  set strokeStyle(value: string | VectorGradient) { this.state.strokeStyle = value; }
+  get lineWidth() { return this.state.lineWidth; }
+  set lineWidth(value: number) { this.state.lineWidth = value; }
+  get lineJoin() { return this.state.lineJoin; }
+  set lineJoin(value: CanvasLineJoin) { this.state.lineJoin = value; }
+  get lineCap() { return this.state.lineCap; }
+  set lineCap(value: CanvasLineCap) { this.state.lineCap = value; }
+  get font() { return this.state.font; }
+  set font(value: string) { this.state.font = value; }
+  get textAlign() { return this.state.textAlign; }
+  set textAlign(value: CanvasTextAlign) { this.state.textAlign = value; }
+  get textBaseline() { return this.state.textBaseline; }
+  set textBaseline(value: CanvasTextBaseline) { this.state.textBaseline = value; }
+  get shadowColor() { return this.state.shadowColor; }
+  set shadowColor(value: string) { this.state.shadowColor = value; }
+  get shadowBlur() { return this.state.shadowBlur; }
+  set shadowBlur(value: number) { this.state.shadowBlur = value; }
+  get shadowOffsetX() { return this.state.shadowOffsetX; }
+  set shadowOffsetX(value: number) { this.state.shadowOffsetX = value; }
+  get shadowOffsetY() { return this.state.shadowOffsetY; }
+  set shadowOffsetY(value: number) { this.state.shadowOffsetY = value; }
+
+  // --- Transform ---
+
+  getTransform() {
+    const [a, b, c, d, e, f] = this.state.matrix;
+    return { a, b, c, d, e, f };
+  }
+
+  setTransform(a: number, b: number, c: number, d: number, e: number, f: number) {
+    this.state.matrix = [a, b, c, d, e, f];
+  }
+
+  transform(a: number, b: number, c: number, d: number, e: number, f: number) {
+    this.state.matrix = multiply(this.state.matrix, [a, b, c, d, e, f]);
+  }
+
+  translate(x: number, y: number) {
+    this.transform(1, 0, 0, 1, x, y);
+  }
+
+  rotate(angle: number) {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.transform(cos, sin, -sin, cos, 0, 0);
+  }
+
+  scale(x: number, y: number) {
+    this.transform(x, 0, 0, y, 0, 0);
+  }
+
+  // --- Paths ---
+
+  beginPath() {
+    this.path = [];
+    this.current = null;
+    this.subpathStart = null;
+  }
+
+  moveTo(x: number, y: number) {
+    const point = applyMatrix(this.state.matrix, x, y);
+    this.path.push({ type: 'M', ...point });
+    this.current = point;
+    this.subpathStart = point;
+  }
+
+  lineTo(x: number, y: number) {
+    if (!this.current) return this.moveTo(x, y);
+    const point = applyMatrix(this.state.matrix, x, y);
+    this.path.push({ type: 'L', ...point });
+    this.current = point;
+  }
+
+  bezierCurveTo(x1: number, y1: number, x2: number, y2: number, x: number, y: number) {
+    if (!this.current) this.moveTo(x1, y1);
+    const m = this.state.matrix;
+    const c1 = applyMatrix(m, x1, y1);
+    const c2 = applyMatrix(m, x2, y2);
+    const end = applyMatrix(m, x, y);
+    this.path.push({ type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, ...end });
+    this.current = end;
+  }
+
+  quadraticCurveTo(cx: number, cy: number, x: number, y: number) {
+    if (!this.current) this.moveTo(cx, cy);
+    const start = this.current!;
+    const m = this.state.matrix;
+    const control = applyMatrix(m, cx, cy);
+    const end = applyMatrix(m, x, y);
+    this.path.push({
+      type: 'C',
+      x1: start.x + ((control.x - start.x) * 2) / 3,
+      y1: start.y + ((control.y - start.y) * 2) / 3,
+      x2: end.x + ((control.x - end.x) * 2) / 3,
+      y2: end.y + ((control.y - end.y) * 2) / 3,
+      ...end,
+    });
+    this.current = end;
+  }
+
+  closePath() {
+    if (!this.current) return;
+    this.path.push({ type: 'Z' });
+    this.current = this.subpathStart;
+  }
+
+  rect(x: number, y: number, width: number, height: number) {
+    this.moveTo(x, y);
+    this.lineTo(x + width, y);
+    this.lineTo(x + width, y + height);
+    this.lineTo(x, y + height);
+    this.closePath();
+  }
+
+  roundRect(x: number, y: number, width: number, height: number, radii: number | number[] = 0) {
+    const [tl, tr = tl, br = tl, bl = tr] = (Array.isArray(radii) ? radii : [radii]).map((r) =>
+      Math.min(Math.max(0, r), Math.abs(width) / 2, Math.abs(height) / 2)
+    );
+    this.moveTo(x + tl, y);
+    this.lineTo(x + width - tr, y);
+    this.ellipse(x + width - tr, y + tr, tr, tr, 0, -Math.PI / 2, 0);
+    this.lineTo(x + width, y + height - br);
+    this.ellipse(x + width - br, y + height - br, br, br, 0, 0, Math.PI / 2);
+    this.lineTo(x + bl, y + height);
+    this.ellipse(x + bl, y + height - bl, bl, bl, 0, Math.PI / 2, Math.PI);
+    this.lineTo(x, y + tl);
+    this.ellipse(x + tl, y + tl, tl, tl, 0, Math.PI, (Math.PI * 3) / 2);
+    this.closePath();
+  }
+
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise = false) {
+    this.ellipse(x, y, radius, radius, 0, startAngle, endAngle, counterclockwise);
+  }
+
+  // Joined to the current point with a line, like the canvas; drawn as quarter-turn cubics
+  ellipse(
+    x: number,
+    y: number,
+    radiusX: number,
+    radiusY: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise = false
+  ) {
+    let sweep = endAngle - startAngle;
+    if (!counterclockwise) sweep = sweep >= TAU ? TAU : ((sweep % TAU) + TAU) % TAU;
+    else sweep = -sweep >= TAU ? -TAU : -((((-sweep) % TAU) + TAU) % TAU);
+
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const point = (angle: number) => {
+      const px = radiusX * Math.cos(angle);
+      const py = radiusY * Math.sin(angle);
+      return { x: x + px * cos - py * sin, y: y + px * sin + py * cos };
+    };
+    const tangent = (angle: number) => {
+      const tx = -radiusX * Math.sin(angle);
+      const ty = radiusY * Math.cos(angle);
+      return { x: tx * cos - ty * sin, y: tx * sin + ty * cos };
+    };
+
+    const start = point(startAngle);
+    if (this.current) this.lineTo(start.x, start.y);
+    else this.moveTo(start.x, start.y);
+
+    const segments = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9));
+    const step = sweep / segments;
+    const k = (4 / 3) * Math.tan(step / 4);
+    for (let i = 0; i < segments; i++) {
+      const a0 = startAngle + step * i;
+      const a1 = a0 + step;
+      const p0 = point(a0);
+      const p1 = point(a1);
+      const t0 = tangent(a0);
+      const t1 = tangent(a1);
+      this.bezierCurveTo(p0.x + t0.x * k, p0.y + t0.y * k, p1.x - t1.x * k, p1.y - t1.y * k, p1.x, p1.y);
+    }
+  }
+
+  // --- Painting ---
+
+  fill(rule: CanvasFillRule = 'nonzero') {
+    this.paint({ ...this.opStyle(), type: 'fill', path: [...this.path], rule, paint: this.resolvePaint(this.state.fillStyle) });
+  }
+
+  stroke() {
+    this.paint({
+      ...this.opStyle(),
+      type: 'stroke',
+      path: [...this.path],
+      paint: this.resolvePaint(this.state.strokeStyle),
+      width: this.state.lineWidth * getScale(this.state.matrix),
+      join: this.state.lineJoin,
+      cap: this.state.lineCap,
+    });
+  }
+
+  clip(rule: CanvasFillRule = 'nonzero') {
+    this.state.clips = [...this.state.clips, { path: [...this.path], rule }];
+  }
+
+  fillRect(x: number, y: number, width: number, height: number) {
+    const path = this.path;
+    this.beginPath();
+    this.rect(x, y, width, height);
+    this.fill();
+    this.path = path;
+  }
+
+  measureText(text: string) {
+    this.measure.font = this.state.font;
+    return this.measure.measureText(text);
+  }
+
+  fillText(text: string, x: number, y: number) {
+    this.drawText(text, x, y, false);
+  }
+
+  strokeText(text: string, x: number, y: number) {
+    this.drawText(text, x, y, true);
+  }
+
+  drawImage(image: CanvasImageSource & { width: number; height: number }, x: number, y: number, width = image.width, height = image.height) {
+    const matrix = multiply(this.state.matrix, [1, 0, 0, 1, x, y]);
+    this.paint({ ...this.opStyle(), type: 'image', image, matrix, width, height });
+  }
+
+  // Only the shadow that drawing `image` here would cast, for content drawn separately
+  drawImageShadow(image: CanvasImageSource, x: number, y: number, width: number, height: number) {
+    const matrix = multiply(this.state.matrix, [1, 0, 0, 1, x, y]);
+    this.paintShadow({ ...this.opStyle(), type: 'image', image, matrix, width, height });
+  }
+
+  createLinearGradient(x0: number, y0: number, x1: number, y1: number) {
+    return new VectorGradient({ kind: 'linear', x0, y0, x1, y1 });
+  }
+
+  createRadialGradient(_x0: number, _y0: number, _r0: number, x1: number, y1: number, r1: number) {
+    // Only the gradients from lib/gradients are supported: a circle from the centre
+    return new VectorGradient({ kind: 'radial', cx: x1, cy: y1, r: r1 });
+  }
+
+  // --- Internals ---
+
+  private opStyle(): OpStyle {
+    return { clips: this.state.clips, alpha: this.state.globalAlpha, blend: this.state.globalCompositeOperation };
+  }
+
+  parseColor(color: string): Rgba {
+    // The canvas normalises any CSS colour to #rrggbb or rgba()
+    this.measure.fillStyle = '#000000';
+    this.measure.fillStyle = color;
+    const normalised = String(this.measure.fillStyle);
+    if (normalised.startsWith('#')) {
+      // Not every canvas expands the short #rgb and #rgba forms
+      const digits = normalised.slice(1);
+      const hex = digits.length <= 4 ? digits.replace(/./g, '$&$&') : digits;
+      const alpha = hex.length === 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1;
+      return { r: parseInt(hex.slice(0, 2), 16), g: parseInt(hex.slice(2, 4), 16), b: parseInt(hex.slice(4, 6), 16), a: alpha };
+    }
+    const [r = 0, g = 0, b = 0, a = 1] = (normalised.match(/[\d.]+/g) ?? []).map(Number);
+    return { r, g, b, a };
+  }
+
+  private resolvePaint(style: string | VectorGradient): VectorPaint {
+    if (typeof style === 'string') return { kind: 'color', color: this.parseColor(style) };
+    const m = this.state.matrix;
+    const stops = [...style.stops]
+      .sort((a, b) => a.offset - b.offset)
+      .map((stop) => ({ offset: stop.offset, color: this.parseColor(stop.color) }));
+    const { geometry } = style;
+    if (geometry.kind === 'linear') {
+      const start = applyMatrix(m, geometry.x0, geometry.y0);
+      const end = applyMatrix(m, geometry.x1, geometry.y1);
+      return { kind: 'linear', x0: start.x, y0: start.y, x1: end.x, y1: end.y, stops };
+    }
+    const center = applyMatrix(m, geometry.cx, geometry.cy);
+    return { kind: 'radial', cx: center.x, cy: center.y, r: geometry.r * getScale(m), stops };
+  }
+
+  // Distance from the requested baseline down to the alphabetic one
+  private getBaselineShift(font: VectorFont, outlines: TrueTypeFont | null) {
+    const baseline = this.state.textBaseline;
+    if (baseline === 'alphabetic') return 0;
+    let ascent: number;
+    let descent: number;
+    if (outlines) {
+      ascent = (outlines.ascender / outlines.unitsPerEm) * font.size;
+      descent = (-outlines.descender / outlines.unitsPerEm) * font.size;
+    } else {
+      this.measure.font = this.state.font;
+      this.measure.textBaseline = 'alphabetic';
+      const metrics = this.measure.measureText('M');
+      ascent = metrics.fontBoundingBoxAscent ?? font.size * 0.8;
+      descent = metrics.fontBoundingBoxDescent ?? font.size * 0.2;
+    }
+    if (baseline === 'top' || baseline === 'hanging') return ascent;
+    if (baseline === 'bottom' || baseline === 'ideographic') return -descent;
+    return (ascent - descent) / 2;
+  }
+
+  private drawText(text: string, x: number, y: number, isStroke: boolean) {
+    if (!text) return;
+    const font = parseCanvasFont(this.state.font);
+    const outlines = this.options.textMode === 'outline' ? this.options.getOutlines?.(font) ?? null : null;
+    const width = this.measureText(text).width;
+    const align = this.state.textAlign;
+    const alignShift = align === 'center' ? -width / 2 : align === 'right' || align === 'end' ? -width : 0;
+    const matrix = multiply(this.state.matrix, [1, 0, 0, 1, x + alignShift, y + this.getBaselineShift(font, outlines)]);
+    const paint = this.resolvePaint(isStroke ? this.state.strokeStyle : this.state.fillStyle);
+
+    if (outlines) {
+      const scale = font.size / outlines.unitsPerEm;
+      const path = transformPath(outlines.getTextPath(text).commands, multiply(matrix, [scale, 0, 0, -scale, 0, 0]));
+      if (isStroke) {
+        const width = this.state.lineWidth * getScale(this.state.matrix);
+        this.paint({ ...this.opStyle(), type: 'stroke', path, paint, width, join: this.state.lineJoin, cap: this.state.lineCap });
+      } else {
+        this.paint({ ...this.opStyle(), type: 'fill', path, rule: 'nonzero', paint });
+      }
+      return;
+    }
+
+    const stroke = isStroke ? { width: this.state.lineWidth * getScale(this.state.matrix), join: this.state.lineJoin } : undefined;
+    const op: VectorOp = { ...this.opStyle(), type: 'text', text, font, matrix, paint, stroke };
+    if (this.options.textMode === 'text') {
+      this.paint(op);
+      return;
+    }
+    // No outlines to use: keep the text as a picture at print resolution
+    this.paintShadow(op);
+    const raster = this.rasterize(op, false);
+    if (raster) {
+      this.rasterizedText++;
+      this.ops.push(raster);
+    }
+  }
+
+  private paint(op: VectorOp) {
+    this.paintShadow(op);
+    this.ops.push(op);
+  }
+
+  private hasShadow() {
+    const { shadowColor, shadowBlur, shadowOffsetX, shadowOffsetY } = this.state;
+    return this.parseColor(shadowColor).a > 0 && (shadowBlur > 0 || shadowOffsetX !== 0 || shadowOffsetY !== 0);
+  }
+
+  // Shadow of an op, as an image of the shadow alone placed underneath it
+  private paintShadow(op: VectorOp) {
+    if (!this.hasShadow()) return;
+    const shadow = this.rasterize(op, true);
+    if (shadow) this.ops.push(shadow);
+  }
+
+  // Page-space box an op covers
+  private getOpBounds(op: VectorOp) {
+    if (op.type === 'fill' || op.type === 'stroke') {
+      const bounds = getPathBounds(op.path);
+      const pad = op.type === 'stroke' ? op.width : 0;
+      return { x: bounds.x - pad, y: bounds.y - pad, width: bounds.width + pad * 2, height: bounds.height + pad * 2 };
+    }
+    let box: { x: number; y: number; width: number; height: number };
+    if (op.type === 'image') {
+      box = { x: 0, y: 0, width: op.width, height: op.height };
+    } else {
+      // Generous, since glyphs can reach past their advance and the em box
+      const pad = op.font.size * 0.5 + (op.stroke?.width ?? 0);
+      box = { x: -pad, y: -op.font.size * 1.2 - pad, width: this.measureText(op.text).width + pad * 2, height: op.font.size * 1.6 + pad * 2 };
+    }
+    const corners = [
+      applyMatrix(op.matrix, box.x, box.y),
+      applyMatrix(op.matrix, box.x + box.width, box.y),
+      applyMatrix(op.matrix, box.x, box.y + box.height),
+      applyMatrix(op.matrix, box.x + box.width, box.y + box.height),
+    ];
+    const xs = corners.map((p) => p.x);
+    const ys = corners.map((p) => p.y);
+    return { x: Math.min(...xs), y: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) };
+  }
+
+  // Draw an op (or only its shadow) on a canvas at rasterScale, cropped to what
+  // can show on the page, and record that canvas as an image op
+  private rasterize(op: VectorOp, shadowOnly: boolean): VectorOp | null {
+    const { shadowBlur, shadowOffsetX, shadowOffsetY, shadowColor } = this.state;
+    let bounds = this.getOpBounds(op);
+    if (shadowOnly) {
+      const spread = shadowBlur * 1.5;
+      bounds = {
+        x: bounds.x + shadowOffsetX - spread,
+        y: bounds.y + shadowOffsetY - spread,
+        width: bounds.width + spread * 2,
+        height: bounds.height + spread * 2,
+      };
+    }
+    const left = Math.floor(Math.max(0, bounds.x));
+    const top = Math.floor(Math.max(0, bounds.y));
+    const right = Math.ceil(Math.min(this.options.width, bounds.x + bounds.width));
+    const bottom = Math.ceil(Math.min(this.options.height, bounds.y + bounds.height));
+    if (right <= left || bottom <= top) return null;
+
+    const scale = this.options.rasterScale;
+    const pixelWidth = Math.ceil((right - left) * scale);
+    const pixelHeight = Math.ceil((bottom - top) * scale);
+    const canvas = this.options.createCanvas(pixelWidth, pixelHeight);
+    const ctx = canvas.getContext('2d');
+    // The shape itself is drawn off to the left, leaving only its shadow in view
+    const offset = shadowOnly ? right - left + shadowBlur * 3 : 0;
+    if (shadowOnly) {
+      ctx.shadowColor = shadowColor;
+      ctx.shadowBlur = shadowBlur * scale;
+      ctx.shadowOffsetX = (shadowOffsetX + offset) * scale;
+      ctx.shadowOffsetY = shadowOffsetY * scale;
+    }
+    ctx.setTransform(scale, 0, 0, scale, (-left - offset) * scale, -top * scale);
+    this.replay(ctx, op);
+
+    return {
+      clips: op.clips,
+      alpha: op.alpha,
+      blend: op.blend,
+      type: 'image',
+      image: canvas as unknown as CanvasImageSource,
+      matrix: [1 / scale, 0, 0, 1 / scale, left, top],
+      width: pixelWidth,
+      height: pixelHeight,
+    };
+  }
+
+  // Paint a recorded op onto a real canvas; its transform maps page units to pixels
+  private replay(ctx: CanvasRenderingContext2D, op: VectorOp) {
+    const base = ctx.getTransform();
+    const toStyle = (paint: VectorPaint) => {
+      if (paint.kind === 'color') return toCssColor(paint.color);
+      const gradient =
+        paint.kind === 'linear'
+          ? ctx.createLinearGradient(paint.x0, paint.y0, paint.x1, paint.y1)
+          : ctx.createRadialGradient(paint.cx, paint.cy, 0, paint.cx, paint.cy, paint.r);
+      paint.stops.forEach((stop) => gradient.addColorStop(Math.min(1, Math.max(0, stop.offset)), toCssColor(stop.color)));
+      return gradient;
+    };
+    const trace = (path: PathCommand[]) => {
+      ctx.beginPath();
+      path.forEach((c) => {
+        if (c.type === 'M') ctx.moveTo(c.x, c.y);
+        else if (c.type === 'L') ctx.lineTo(c.x, c.y);
+        else if (c.type === 'C') ctx.bezierCurveTo(c.x1, c.y1, c.x2, c.y2, c.x, c.y);
+        else ctx.closePath();
+      });
+    };
+    const setMatrix = (m: Matrix) => ctx.transform(...m);
+
+    switch (op.type) {
+      case 'fill':
+        trace(op.path);
+        ctx.fillStyle = toStyle(op.paint);
+        ctx.fill(op.rule);
+        break;
+      case 'stroke':
+        trace(op.path);
+        ctx.strokeStyle = toStyle(op.paint);
+        ctx.lineWidth = op.width;
+        ctx.lineJoin = op.join;
+        ctx.lineCap = op.cap;
+        ctx.stroke();
+        break;
+      case 'image':
+        setMatrix(op.matrix);
+        ctx.drawImage(op.image, 0, 0, op.width, op.height);
+        break;
+      case 'text':
+        ctx.fillStyle = toStyle(op.paint);
+        ctx.strokeStyle = ctx.fillStyle;
+        setMatrix(op.matrix);
+        ctx.font = op.font.css;
+        ctx.textBaseline = 'alphabetic';
+        if (op.stroke) {
+          // Widths are recorded in page units; the op's matrix scales them again
+          ctx.lineWidth = op.stroke.width / getScale(op.matrix);
+          ctx.lineJoin = op.stroke.join;
+          ctx.strokeText(op.text, 0, 0);
+        } else {
+          ctx.fillText(op.text, 0, 0);
+        }
+        break;
+    }
+    ctx.setTransform(base);
+  }
+}
@@ -0,0 +1,365 @@
+import { CustomFont, PrintSize, TemplateData } from '@/types/editor';
+import {
+  DrawEffects,
+  LoadedTemplate,
+  RenderBackend,
+  RenderCanvas,
+  RenderOptions,
+  browserRenderBackend,
+  drawTemplate,
+  loadTemplate,
+} from '@/lib/renderTemplate';
+import { applyLayerShadow, blurImageData, getCompositeOperation } from '@/lib/effects';
+import { embedGoogleFonts, getFontFamilies } from '@/lib/fonts';
+import { serializePath } from '@/lib/paths';
+import { PdfImageData, writePdf } from '@/lib/pdf';
+import { TrueTypeFont, parseTrueType } from '@/lib/trueType';
+import { Matrix, VectorClip, VectorContext, VectorFont, VectorOp, VectorPaint, toCssColor } from '@/lib/vectorContext';
+
+// Vector downloads for print: an SVG, or a single-page PDF at the template's
+// physical size. The design is drawn by renderTemplate's own drawing code into a
+// VectorContext, so shapes, strokes, gradients and text come out exactly where
+// the PNG has them, then the recording is written out. Photos are embedded from
+// their original files at full resolution. Blur only exists as pixels, so a
+// blurred element is embedded as an image at print resolution.
+
+export type VectorFormat = 'svg' | 'pdf';
+
+export interface VectorExportOptions extends Pick<RenderOptions, 'images' | 'texts'> {
+  format: VectorFormat;
+  // SVG only: 'embed' keeps live text with its fonts inlined, 'outline' turns it into shapes.
+  // PDF text is always outlined.
+  text?: 'embed' | 'outline';
+}
+
+export interface VectorBackend extends RenderBackend {
+  // @font-face rules, with the files inlined, for fonts that weren't uploaded with the template
+  embedFonts?: (families: string[]) => Promise<string>;
+}
+
+export const browserVectorBackend: VectorBackend = { ...browserRenderBackend, embedFonts: embedGoogleFonts };
+
+export interface VectorExport {
+  data: Uint8Array;
+  mimeType: string;
+  // Pieces of text embedded as images because their font's outlines couldn't be read
+  rasterizedText: number;
+}
+
+// Resolution for anything that has to be pixels: blur, shadows, text without outlines
+const PRINT_DPI = 300;
+// Cap on the size of one raster layer, so a large design doesn't run out of memory
+const MAX_LAYER_PIXELS = 4096 * 4096;
+const CSS_PIXELS_PER_INCH = 96;
+const MM_PER_INCH = 25.4;
+
+export const getPrintSizeInches = (design: { width: number; height: number; printSize?: PrintSize }) => {
+  const { printSize } = design;
+  if (!printSize) return { width: design.width / CSS_PIXELS_PER_INCH, height: design.height / CSS_PIXELS_PER_INCH };
+  const perInch = printSize.unit === 'mm' ? MM_PER_INCH : 1;
+  return { width: printSize.width / perInch, height: printSize.height / perInch };
+};
+
+// --- FILES ---
+
+const readBytes = async (source: string | Uint8Array) =>
+  typeof source === 'string' ? new Uint8Array(await (await fetch(source)).arrayBuffer()) : source;
+
+const startsWith = (bytes: Uint8Array, signature: number[], at = 0) => signature.every((byte, i) => bytes[at + i] === byte);
+
+const sniffType = (bytes: Uint8Array) => {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47])) return 'image/png';
+  if (startsWith(bytes, [0xff, 0xd8])) return 'image/jpeg';
+  if (startsWith(bytes, [0x47, 0x49, 0x46])) return 'image/gif';
+  if (startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp';
+  if (startsWith(bytes, [0x77, 0x4f, 0x46, 0x32])) return 'font/woff2';
+  if (startsWith(bytes, [0x77, 0x4f, 0x46, 0x46])) return 'font/woff';
+  if (startsWith(bytes, [0x4f, 0x54, 0x54, 0x4f])) return 'font/otf';
+  if (startsWith(bytes, [0x00, 0x01, 0x00, 0x00]) || startsWith(bytes, [0x74, 0x72, 0x75, 0x65])) return 'font/ttf';
+  return /^\s*</.test(new TextDecoder().decode(bytes.subarray(0, 64))) ? 'image/svg+xml' : 'application/octet-stream';
+};
+
+const toDataUrl = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return `data:${sniffType(bytes)};base64,${btoa(binary)}`;
+};
+
+// Size and colour channels of a JPEG that PDF can embed as is. Files with EXIF
+// data may need rotating, which only decoding applies, so they're left out.
+const readJpegInfo = (bytes: Uint8Array) => {
+  if (!startsWith(bytes, [0xff, 0xd8])) return null;
+  let at = 2;
+  while (at + 9 < bytes.length && bytes[at] === 0xff) {
+    const marker = bytes[at + 1];
+    const length = (bytes[at + 2] << 8) | bytes[at + 3];
+    if (marker === 0xe1) return null;
+    // Start of frame markers, other than the huffman and arithmetic coding tables
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const components = bytes[at + 9];
+      if (components !== 1 && components !== 3) return null;
+      return { height: (bytes[at + 5] << 8) | bytes[at + 6], width: (bytes[at + 7] << 8) | bytes[at + 8], components: components as 1 | 3 };
+    }
+    at += 2 + length;
+  }
+  return null;
+};
+
+// --- FONTS ---
+
+interface FontFile {
+  font: CustomFont;
+  bytes: Uint8Array | null;
+  outlines: TrueTypeFont | null;
+}
+
+const toWeight = (weight: string | number | undefined) => (weight === 'bold' ? 700 : Number(weight) || 400);
+
+const loadFontFiles = (fonts: CustomFont[]) =>
+  Promise.all(
+    fonts.map(async (font): Promise<FontFile> => {
+      try {
+        const bytes = await readBytes(font.src);
+        return { font, bytes, outlines: parseTrueType(bytes) };
+      } catch (err) {
+        console.error('Error reading font:', font.family, err);
+        return { font, bytes: null, outlines: null };
+      }
+    })
+  );
+
+// The uploaded face closest to what the text asks for: same family and style, nearest weight
+const findFontFile = (files: FontFile[], font: VectorFont) =>
+  files
+    .filter((file) => file.font.family.toLowerCase() === font.family.toLowerCase())
+    .sort((a, b) => {
+      const score = (file: FontFile) =>
+        ((file.font.style ?? 'normal') === font.style ? 0 : 1000) + Math.abs(toWeight(file.font.weight) - font.weight);
+      return score(a) - score(b);
+    })[0];
+
+const getFontCss = async (loaded: LoadedTemplate, files: FontFile[], backend: VectorBackend) => {
+  const uploaded = files
+    .filter((file) => file.bytes)
+    .map(
+      ({ font, bytes }) =>
+        `@font-face { font-family: ${JSON.stringify(font.family)}; src: url(${toDataUrl(bytes!)}); ` +
+        `font-weight: ${font.weight ?? 'normal'}; font-style: ${font.style ?? 'normal'}; }`
+    );
+  const uploadedFamilies = new Set(files.map((file) => file.font.family));
+  const others = getFontFamilies(loaded.elements).filter((family) => !uploadedFamilies.has(family));
+  const embedded = backend.embedFonts && others.length > 0 ? await backend.embedFonts(others) : '';
+  return [...uploaded, embedded].filter(Boolean).join('\n');
+};
+
+// --- EFFECTS ---
+
+// Part of a layer that has any pixels, in layer pixels
+const trimLayer = (layer: RenderCanvas, width: number, height: number, createCanvas: RenderBackend['createCanvas']) => {
+  const { data } = layer.getContext('2d').getImageData(0, 0, width, height);
+  let [left, top, right, bottom] = [width, height, -1, -1];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      if (x < left) left = x;
+      if (x > right) right = x;
+      if (y < top) top = y;
+      if (y > bottom) bottom = y;
+    }
+  }
+  if (right < left) return null;
+  const trimmed = createCanvas(right - left + 1, bottom - top + 1);
+  trimmed.getContext('2d').drawImage(layer as unknown as CanvasImageSource, -left, -top);
+  return { canvas: trimmed as unknown as CanvasImageSource, x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+};
+
+// Blend modes stay vector; shadows become an image of the shadow alone under the
+// vector content; blur turns the whole element into an image
+const drawVectorEffects = (page: { width: number; height: number }, scale: number, backend: RenderBackend): DrawEffects => (ctx, el, drawContent) => {
+  const m = ctx.getTransform();
+  const width = Math.ceil(page.width * scale);
+  const height = Math.ceil(page.height * scale);
+  const renderLayer = () => {
+    const layer = backend.createCanvas(width, height);
+    const layerCtx = layer.getContext('2d');
+    layerCtx.setTransform(m.a * scale, m.b * scale, m.c * scale, m.d * scale, m.e * scale, m.f * scale);
+    drawContent(layerCtx);
+    if (el.blur) {
+      const image = layerCtx.getImageData(0, 0, width, height);
+      blurImageData(image, el.blur * Math.sqrt(Math.abs(m.a * m.d - m.b * m.c)) * scale);
+      layerCtx.putImageData(image, 0, 0);
+    }
+    return trimLayer(layer, width, height, backend.createCanvas);
+  };
+
+  ctx.globalCompositeOperation = getCompositeOperation(el.blendMode);
+  if (el.blur || el.shadow) {
+    const layer = renderLayer();
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    if (el.shadow) applyLayerShadow(ctx, el.shadow, m);
+    if (layer) {
+      const [x, y, w, h] = [layer.x / scale, layer.y / scale, layer.width / scale, layer.height / scale];
+      if (el.blur) ctx.drawImage(layer.canvas, x, y, w, h);
+      else (ctx as unknown as VectorContext).drawImageShadow(layer.canvas, x, y, w, h);
+    }
+    ctx.restore();
+  }
+  if (!el.blur) drawContent(ctx);
+};
+
+// --- SVG ---
+
+const n = (value: number) => String(Math.round(value * 1000) / 1000);
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, (char) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+const matrixAttribute = (m: Matrix) => `matrix(${m.map(n).join(' ')})`;
+
+const writeSvg = async (
+  ops: VectorOp[],
+  size: { width: number; height: number; printSize?: PrintSize },
+  fontCss: string,
+  getImageHref: (image: CanvasImageSource) => Promise<string>
+) => {
+  const defs: string[] = [];
+  const clipIds = new Map<VectorClip, string>();
+  const getClipId = (clip: VectorClip) => {
+    let id = clipIds.get(clip);
+    if (!id) {
+      id = `clip${clipIds.size}`;
+      clipIds.set(clip, id);
+      defs.push(`<clipPath id="${id}" clipPathUnits="userSpaceOnUse"><path d="${serializePath(clip.path)}" clip-rule="${clip.rule}"/></clipPath>`);
+    }
+    return id;
+  };
+
+  const paintAttributes = (paint: VectorPaint, property: 'fill' | 'stroke') => {
+    if (paint.kind === 'color') {
+      const { a } = paint.color;
+      return `${property}="${toCssColor({ ...paint.color, a: 1 })}"${a < 1 ? ` ${property}-opacity="${n(a)}"` : ''}`;
+    }
+    const id = `gradient${defs.length}`;
+    const stops = paint.stops
+      .map(({ offset, color }) => {
+        const opacity = color.a < 1 ? ` stop-opacity="${n(color.a)}"` : '';
+        return `<stop offset="${n(Math.min(1, Math.max(0, offset)))}" stop-color="${toCssColor({ ...color, a: 1 })}"${opacity}/>`;
+      })
+      .join('');
+    defs.push(
+      paint.kind === 'linear'
+        ? `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${n(paint.x0)}" y1="${n(paint.y0)}" x2="${n(paint.x1)}" y2="${n(paint.y1)}">${stops}</linearGradient>`
+        : `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${n(paint.cx)}" cy="${n(paint.cy)}" r="${n(paint.r)}">${stops}</radialGradient>`
+    );
+    return `${property}="url(#${id})"`;
+  };
+
+  const body: string[] = [];
+  for (const op of ops) {
+    const shared =
+      (op.alpha < 1 ? ` opacity="${n(op.alpha)}"` : '') +
+      (op.blend !== 'source-over' ? ` style="mix-blend-mode:${op.blend}"` : '');
+    let element: string;
+    switch (op.type) {
+      case 'fill':
+        element = `<path d="${serializePath(op.path)}" ${paintAttributes(op.paint, 'fill')} fill-rule="${op.rule}"${shared}/>`;
+        break;
+      case 'stroke':
+        element =
+          `<path d="${serializePath(op.path)}" fill="none" ${paintAttributes(op.paint, 'stroke')} stroke-width="${n(op.width)}" ` +
+          `stroke-linejoin="${op.join}" stroke-linecap="${op.cap}"${shared}/>`;
+        break;
+      case 'image':
+        element =
+          `<image width="${n(op.width)}" height="${n(op.height)}" preserveAspectRatio="none" transform="${matrixAttribute(op.matrix)}" ` +
+          `xlink:href="${await getImageHref(op.image)}"${shared}/>`;
+        break;
+      case 'text': {
+        const { font, stroke } = op;
+        // Stroke widths are recorded in page units; the text's matrix scales them again
+        const scale = Math.sqrt(Math.abs(op.matrix[0] * op.matrix[3] - op.matrix[1] * op.matrix[2])) || 1;
+        const paint = stroke
+          ? `fill="none" ${paintAttributes(op.paint, 'stroke')} stroke-width="${n(stroke.width / scale)}" stroke-linejoin="${stroke.join}"`
+          : paintAttributes(op.paint, 'fill');
+        element =
+          `<text transform="${matrixAttribute(op.matrix)}" font-family="${escapeXml(font.families)}" font-size="${n(font.size)}" ` +
+          `font-weight="${font.weight}" font-style="${font.style}" ${paint} xml:space="preserve"${shared}>${escapeXml(op.text)}</text>`;
+        break;
+      }
+    }
+    body.push(op.clips.reduceRight((inner, clip) => `<g clip-path="url(#${getClipId(clip)})">${inner}</g>`, element));
+  }
+
+  const { width, height, printSize } = size;
+  const outer = printSize
+    ? `width="${n(printSize.width)}${printSize.unit}" height="${n(printSize.height)}${printSize.unit}"`
+    : `width="${n(width)}" height="${n(height)}"`;
+  const style = fontCss ? `<style><![CDATA[\n${fontCss}\n]]></style>` : '';
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ${outer} viewBox="0 0 ${n(width)} ${n(height)}">`,
+    `<defs>${style}${defs.join('')}</defs>`,
+    ...body,
+    '</svg>',
+  ].join('\n');
+};
+
+// --- ENTRY POINT ---
+
+export const exportVector = async (
+  template: TemplateData,
+  options: VectorExportOptions,
+  backend: VectorBackend
+): Promise<VectorExport> => {
+  const { format, text = 'embed' } = options;
+  const loaded = await loadTemplate(template, options, backend);
+  const { content, sources } = loaded;
+  const inches = getPrintSizeInches(content);
+  const rasterScale = Math.min(
+    (PRINT_DPI * inches.width) / content.width,
+    Math.sqrt(MAX_LAYER_PIXELS / (content.width * content.height))
+  );
+  const fontFiles = await loadFontFiles(content.fonts ?? []);
+
+  const ctx = new VectorContext({
+    width: content.width,
+    height: content.height,
+    createCanvas: backend.createCanvas,
+    rasterScale,
+    textMode: format === 'svg' && text === 'embed' ? 'text' : 'outline',
+    getOutlines: (font) => findFontFile(fontFiles, font)?.outlines ?? null,
+  });
+  drawTemplate(ctx as unknown as CanvasRenderingContext2D, loaded, drawVectorEffects(content, rasterScale, backend));
+
+  if (format === 'pdf') {
+    const getImageData = async (image: CanvasImageSource): Promise<PdfImageData> => {
+      const source = sources.get(image as never);
+      const bytes = source ? await readBytes(source) : null;
+      const jpeg = bytes && readJpegInfo(bytes);
+      if (jpeg) return { kind: 'jpeg', bytes: bytes!, ...jpeg };
+      // Everything else is decoded at its natural size
+      const { width, height } = image as unknown as { width: number; height: number };
+      const canvas = backend.createCanvas(width, height);
+      const canvasCtx = canvas.getContext('2d');
+      canvasCtx.drawImage(image, 0, 0);
+      return { kind: 'rgba', data: canvasCtx.getImageData(0, 0, width, height).data, width, height };
+    };
+    const data = await writePdf(
+      ctx.ops,
+      { width: content.width, height: content.height, widthPt: inches.width * 72, heightPt: inches.height * 72 },
+      getImageData
+    );
+    return { data, mimeType: 'application/pdf', rasterizedText: ctx.rasterizedText };
+  }
+
+  const getImageHref = async (image: CanvasImageSource) => {
+    const source = sources.get(image as never);
+    if (typeof source === 'string' && source.startsWith('data:')) return source;
+    if (source) return toDataUrl(await readBytes(source));
+    return toDataUrl(await backend.encode(image as unknown as RenderCanvas, 'png', 1));
+  };
+  const fontCss = text === 'embed' ? await getFontCss(loaded, fontFiles, backend) : '';
+  const svg = await writeSvg(ctx.ops, content, fontCss, getImageHref);
+  return { data: new TextEncoder().encode(svg), mimeType: 'image/svg+xml', rasterizedText: ctx.rasterizedText };
+};
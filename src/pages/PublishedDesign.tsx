@@ -1,7 +1,9 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { useParams } from 'react-router-dom';
 import { getTemplateBySlug } from '@/lib/templates';
+import { TemplateSchemaError } from '@/lib/templateSchema';
 import { TemplateData } from '@/types/editor';
+import { toCssGradient } from '@/lib/gradients';
 import { CanvasStage } from '@/components/editor/CanvasStage';
 import { Loader2, AlertCircle } from 'lucide-react';
 
@@ -9,15 +11,16 @@ const PublishedDesign = () => {
   const { slug } = useParams();
   const [template, setTemplate] = useState<TemplateData | null>(null);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
   const stageRef = useRef(null);
 
   useEffect(() => {
     if (!slug) return;
 
-    getTemplateBySlug(slug).then((data) => {
-      setTemplate(data);
-      setLoading(false);
-    });
+    getTemplateBySlug(slug)
+      .then(setTemplate)
+      .catch((err) => setError(err instanceof TemplateSchemaError ? err.message : 'Failed to load design.'))
+      .finally(() => setLoading(false));
   }, [slug]);
 
   if (loading) {
@@ -33,8 +36,8 @@ const PublishedDesign = () => {
     return (
       <div className="h-screen w-screen flex flex-col items-center justify-center bg-neutral-50 text-neutral-500">
         <AlertCircle className="w-10 h-10 mb-4 text-red-400" />
-        <h1 className="text-xl font-bold text-neutral-800">Design Not Found</h1>
-        <p>The link is incorrect or the design was deleted.</p>
+        <h1 className="text-xl font-bold text-neutral-800">{error ? "Design Can't Be Opened" : 'Design Not Found'}</h1>
+        <p>{error ?? 'The link is incorrect or the design was deleted.'}</p>
       </div>
     );
   }
@@ -59,6 +62,7 @@ const PublishedDesign = () => {
           height: template.height,
           transform: `scale(${fitScale * 0.9})`,
           backgroundColor: template.backgroundColor,
+          backgroundImage: template.backgroundGradient ? toCssGradient(template.backgroundGradient) : undefined,
         }}
       >
         {template.backgroundImage && (
@@ -72,7 +76,7 @@ const PublishedDesign = () => {
         <div className="absolute inset-0 z-10 pointer-events-none">
           <CanvasStage
             elements={template.elements}
-            selectedId={null} 
+            selectedIds={[]} 
             onSelect={() => {}} 
             onUpdate={() => {}} 
             canvasSize={{ width: template.width, height: template.height }}
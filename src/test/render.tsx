@@ -0,0 +1,118 @@
+import React, { act, createRef } from 'react';
+import { createRoot } from 'react-dom/client';
+import { Layer, Stage } from 'react-konva';
+import Konva from 'konva';
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import { TemplateData } from '@/types/editor';
+import { parseTemplateContent } from '@/lib/templateSchema';
+import { mapElementTree } from '@/lib/elements';
+import { applyTextValues } from '@/lib/fields';
+import { CanvasBackground } from '@/components/canvas/CanvasBackground';
+import { RenderShape } from '@/components/canvas/RenderShape';
+import { CanvasStage } from '@/components/editor/CanvasStage';
+
+// Helpers for comparing the Generator's and Editor's Konva stages with renderTemplate output.
+// Small differences are allowed because anti-aliased edges can land a little
+// differently.
+
+// A channel this far apart counts as a different pixel
+const CHANNEL_TOLERANCE = 48;
+// Share of pixels allowed to differ
+export const MAX_DIFF_RATIO = 0.01;
+
+export interface Pixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// The Generator's stage for a design with its texts filled in. Unmount when done.
+export const mountDesign = (template: TemplateData, texts: Record<string, string> = {}) => {
+  const content = parseTemplateContent(template);
+  const elements = mapElementTree(content.elements, (el) => (el.type === 'text' ? applyTextValues(el, texts) : el));
+  const root = createRoot(document.createElement('div'));
+  let stage: Konva.Stage | null = null;
+  act(() =>
+    root.render(
+      <Stage ref={(node) => (stage = node)} width={content.width} height={content.height}>
+        <Layer>
+          <CanvasBackground
+            name="background"
+            width={content.width}
+            height={content.height}
+            color={content.backgroundColor}
+            gradient={content.backgroundGradient}
+          />
+          {elements.map((el) => (
+            <RenderShape key={el.id} element={el} userImages={{}} />
+          ))}
+        </Layer>
+      </Stage>
+    )
+  );
+  return { stage, unmount: () => act(() => root.unmount()) };
+};
+
+// The Editor's stage for a design; props such as selectedIds or onUpdate can be
+// passed through. Unmount when done.
+export const mountEditor = (template: TemplateData, props: Partial<React.ComponentProps<typeof CanvasStage>> = {}) => {
+  const content = parseTemplateContent(template);
+  const stageRef = createRef<Konva.Stage>();
+  const root = createRoot(document.createElement('div'));
+  act(() =>
+    root.render(
+      <CanvasStage
+        elements={content.elements}
+        selectedIds={[]}
+        onSelect={() => {}}
+        onUpdate={() => {}}
+        canvasSize={{ width: content.width, height: content.height }}
+        backgroundColor={content.backgroundColor}
+        backgroundGradient={content.backgroundGradient}
+        stageRef={stageRef}
+        {...props}
+      />
+    )
+  );
+  return { stage: stageRef.current, unmount: () => act(() => root.unmount()) };
+};
+
+// Canvases here come from @napi-rs/canvas (see setup.ts)
+export const readPixels = (canvas: HTMLCanvasElement): Pixels => {
+  const { width, height } = canvas;
+  return { width, height, data: canvas.getContext('2d').getImageData(0, 0, width, height).data };
+};
+
+export const decodePixels = async (file: Uint8Array | Blob): Promise<Pixels> => {
+  const bytes = file instanceof Blob ? new Uint8Array(await file.arrayBuffer()) : file;
+  const image = await loadImage(Buffer.from(bytes));
+  const canvas = createCanvas(image.width, image.height);
+  canvas.getContext('2d').drawImage(image, 0, 0);
+  return readPixels(canvas as unknown as HTMLCanvasElement);
+};
+
+// Whether the pixel starting at byte i is noticeably different
+const differsAt = (a: Pixels, b: Pixels, i: number) =>
+  [0, 1, 2, 3].some((channel) => Math.abs(a.data[i + channel] - b.data[i + channel]) > CHANNEL_TOLERANCE);
+
+export const getDiffRatio = (a: Pixels, b: Pixels) => {
+  let different = 0;
+  for (let i = 0; i < a.data.length; i += 4) {
+    if (differsAt(a, b, i)) different++;
+  }
+  return different / (a.width * a.height);
+};
+
+// Smallest box, in pixels, around everything that differs; null if nothing does
+export const getDiffBounds = (a: Pixels, b: Pixels) => {
+  let bounds: { left: number; top: number; right: number; bottom: number } | null = null;
+  for (let i = 0; i < a.data.length; i += 4) {
+    if (!differsAt(a, b, i)) continue;
+    const x = (i / 4) % a.width;
+    const y = Math.floor(i / 4 / a.width);
+    bounds = bounds
+      ? { left: Math.min(bounds.left, x), top: Math.min(bounds.top, y), right: Math.max(bounds.right, x + 1), bottom: Math.max(bounds.bottom, y + 1) }
+      : { left: x, top: y, right: x + 1, bottom: y + 1 };
+  }
+  return bounds;
+};
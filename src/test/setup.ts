@@ -0,0 +1,31 @@
+import { createCanvas } from '@napi-rs/canvas';
+// The global settings object; its isBrowser flag isn't in the public typings
+import { Konva } from 'konva/lib/Global';
+
+// jsdom has no canvas, so <canvas> elements come from @napi-rs/canvas. Konva,
+// the effects code and text measuring all create theirs through document, which
+// lets everything draw for real and be compared pixel for pixel.
+const createElement = document.createElement.bind(document);
+document.createElement = ((tagName: string, options?: ElementCreationOptions) =>
+  tagName.toLowerCase() === 'canvas'
+    ? Object.assign(createCanvas(300, 150), { style: {} })
+    : createElement(tagName, options)) as typeof document.createElement;
+
+// Those canvases aren't DOM nodes, so stages mustn't try to mount them
+Konva.isBrowser = false;
+
+// Fonts are whatever @napi-rs/canvas has installed; nothing loads later
+Object.defineProperty(document, 'fonts', { value: Object.assign(new EventTarget(), { ready: Promise.resolve() }) });
+
+// Renders inside act() behave like they do in the app
+Object.assign(globalThis, { IS_REACT_ACT_ENVIRONMENT: true });
+
+// jsdom's Blob predates arrayBuffer(), which exports use to read their files back
+Blob.prototype.arrayBuffer ??= function (this: Blob) {
+  return new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(this);
+  });
+};
@@ -1,7 +1,98 @@
 // src/types/editor.ts
 
-export type ShapeType = 'rect' | 'circle' | 'polygon' | 'text' | 'image';
+export type ShapeType = 'rect' | 'circle' | 'ellipse' | 'ring' | 'polygon' | 'star' | 'line' | 'path' | 'text' | 'image' | 'group';
 export type StrokePosition = 'inside' | 'center' | 'outside';
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type AlignRelativeTo = 'selection' | 'canvas';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+// How an element mixes with what's beneath it; 'normal' is plain painting (source-over)
+export type BlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion'
+  | 'hue'
+  | 'saturation'
+  | 'color'
+  | 'luminosity';
+
+// How line elements end: the cap shapes the stroke, a head is drawn over it
+export type LineCap = 'butt' | 'round' | 'square';
+export type LineHead = 'none' | 'arrow' | 'triangle' | 'circle';
+
+// What happens when text doesn't fit its box:
+//   wrap     - break onto new lines, optionally cut after maxLines
+//   shrink   - reduce the font size (down to minFontSize) until it fits in maxLines
+//   ellipsis - cut at maxLines and end the last line with "…"
+export type TextOverflowMode = 'wrap' | 'shrink' | 'ellipsis';
+export type TextTransform = 'none' | 'uppercase' | 'lowercase' | 'capitalize';
+
+export type GradientType = 'linear' | 'radial';
+
+export interface GradientStop {
+  // 0 at the start of the gradient, 1 at the end
+  offset: number;
+  color: string;
+}
+
+// Linear gradients run along `angle` (CSS degrees, 0 = upwards); radial ones
+// spread from the centre and ignore it
+export interface Gradient {
+  type: GradientType;
+  angle: number;
+  stops: GradientStop[];
+}
+
+// Outline around the letters, drawn behind the fill so it never eats into them
+export interface TextStroke {
+  color: string;
+  width: number;
+}
+
+// Drop shadow; blur and offsets are in design pixels
+export interface Shadow {
+  color: string;
+  blur: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+// A styled stretch of a text element; unset styles come from the element
+export interface TextRun {
+  text: string;
+  fontFamily?: string;
+  fontStyle?: 'normal' | 'italic';
+  fontWeight?: string | number;
+  fill?: string;
+  underline?: boolean;
+  letterSpacing?: number;
+  // Attendees may replace this run's text in the Generator
+  editable?: boolean;
+}
+
+export type FieldPreset = 'name' | 'handle' | 'date';
+
+// How a text or photo placeholder appears in the Generator's form
+export interface FieldSettings {
+  label?: string;
+  helpText?: string;
+  // Text elements are editable unless switched off; photos follow isPlaceholder
+  editable?: boolean;
+  required?: boolean;
+  maxLength?: number;
+  preset?: FieldPreset;
+  // Custom regular expression, used when no preset is chosen
+  pattern?: string;
+}
 
 export interface StrokeLayer {
   color: string;
@@ -16,6 +107,11 @@ export interface BaseElement {
   y: number;
   rotation: number;
   opacity?: number;
+  // Effects on the element as a whole (fill, photo and strokes together)
+  shadow?: Shadow;
+  // Layer blur in px, like CSS blur()
+  blur?: number;
+  blendMode?: BlendMode;
   isPlaceholder: boolean;
   strokes?: StrokeLayer[];
   
@@ -24,6 +120,9 @@ export interface BaseElement {
   imageOffsetX?: number; 
   imageOffsetY?: number;
   imageScale?: number; 
+
+  // Generator form settings
+  field?: FieldSettings;
 }
 
 export interface ImageElement extends BaseElement {
@@ -39,12 +138,36 @@ export interface RectElement extends BaseElement {
   height: number;
   cornerRadius: number;
   fill: string;
+  // Replaces the solid fill when set
+  fillGradient?: Gradient;
 }
 
 export interface CircleElement extends BaseElement {
   type: 'circle';
   radius: number;
   fill: string;
+  // Replaces the solid fill when set
+  fillGradient?: Gradient;
+}
+
+export interface EllipseElement extends BaseElement {
+  type: 'ellipse';
+  radiusX: number;
+  radiusY: number;
+  fill: string;
+  // Replaces the solid fill when set
+  fillGradient?: Gradient;
+}
+
+// Donut, e.g. a coloured border around a circular photo
+export interface RingElement extends BaseElement {
+  type: 'ring';
+  // Outer radius
+  radius: number;
+  innerRadius: number;
+  fill: string;
+  // Replaces the solid fill when set
+  fillGradient?: Gradient;
 }
 
 export interface PolygonElement extends BaseElement {
@@ -52,6 +175,47 @@ export interface PolygonElement extends BaseElement {
   sides: number;
   radius: number;
   fill: string;
+  // Replaces the solid fill when set
+  fillGradient?: Gradient;
+}
+
+export interface StarElement extends BaseElement {
+  type: 'star';
+  numPoints: number;
+  // Radius of the tips
+  radius: number;
+  // Radius of the notches between the tips
+  innerRadius: number;
+  fill: string;
+  // Replaces the solid fill when set
+  fillGradient?: Gradient;
+}
+
+// Straight line through x/y, horizontal before rotation, with optional arrowheads.
+// Heads sit inside the length, so the tips land on the line's ends.
+export interface LineElement extends BaseElement {
+  type: 'line';
+  length: number;
+  stroke: string;
+  strokeWidth: number;
+  lineCap: LineCap;
+  startHead: LineHead;
+  endHead: LineHead;
+}
+
+// Freeform vector shape. The path is stretched to fill the width × height box,
+// so resizing only changes the size and `data` keeps the drawn proportions.
+export interface PathElement extends BaseElement {
+  type: 'path';
+  // SVG path data, e.g. "M0 0 L100 0 L50 80 Z"
+  data: string;
+  // How overlapping subpaths are filled; "evenodd" cuts holes where they overlap
+  fillRule?: 'nonzero' | 'evenodd';
+  width: number;
+  height: number;
+  fill: string;
+  // Replaces the solid fill when set
+  fillGradient?: Gradient;
 }
 
 export interface TextElement extends BaseElement {
@@ -63,26 +227,121 @@ export interface TextElement extends BaseElement {
   fontWeight: string | number; // e.g., '400', '700', 'bold'
   textAlign: 'left' | 'center' | 'right'; // Add this
   fill: string;
+  // Spans the whole text box; runs with their own fill keep it
+  fillGradient?: Gradient;
   width: number;
+  overflow?: TextOverflowMode;
+  // Smallest size "shrink" may use; fontSize is the largest
+  minFontSize?: number;
+  // Unset means unlimited for "wrap" and one line for "shrink" and "ellipsis"
+  maxLines?: number;
+  // Mixed styling; when set, `text` is the runs' text joined together
+  runs?: TextRun[];
+  // Extra px after each character; runs can set their own
+  letterSpacing?: number;
+  // Multiple of the font size, 1 when unset
+  lineHeight?: number;
+  // Applied when drawing, so attendees' text is transformed too
+  textTransform?: TextTransform;
+  textStroke?: TextStroke;
+  textShadow?: Shadow;
+}
+
+// Children are positioned relative to the group's x/y and inherit its rotation and opacity
+export interface GroupElement extends BaseElement {
+  type: 'group';
+  children: CanvasElement[];
 }
 
 // 1. MUST DEFINE THIS UNION TYPE
 export type CanvasElement = 
   | RectElement 
   | CircleElement 
+  | EllipseElement
+  | RingElement
   | PolygonElement 
+  | StarElement
+  | LineElement
+  | PathElement
   | TextElement 
-  | ImageElement;
+  | ImageElement
+  | GroupElement;
+
+// A font file uploaded by the creator and shipped with the template
+export interface CustomFont {
+  family: string;
+  // Data URL while editing; a storage URL once published
+  src: string;
+  weight?: string | number;
+  style?: 'normal' | 'italic';
+}
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+// How PNG, JPEG and WebP downloads are made
+export interface ExportSettings {
+  format: ExportFormat;
+  // Multiple of the design size, 1–4; ignored when `width` is set
+  scale: number;
+  // Exact width in px; the height keeps the design's proportions
+  width?: number;
+  // JPEG and WebP quality between 0 and 1
+  quality: number;
+  // Leave out the background colour or gradient; JPEG has no transparency and ignores it
+  transparent: boolean;
+  // Attendees download exactly this in the Generator, without the options dialog
+  locked?: boolean;
+}
+
+// Physical size of the printed design, used for PDF and SVG exports
+export interface PrintSize {
+  width: number;
+  height: number;
+  unit: 'mm' | 'in';
+}
 
 export interface TemplateData {
   id: string;
   slug: string;
   name: string;
+  // Version of the saved JSON shape, see CURRENT_SCHEMA_VERSION in lib/templateSchema
+  schemaVersion?: number;
   width: number;
   height: number;
   backgroundColor: string;
+  // Drawn instead of backgroundColor when set
+  backgroundGradient?: Gradient;
   backgroundImage?: string;
   // 2. USE THE UNION TYPE HERE (Not HTMLCanvasElement)
   elements: CanvasElement[]; 
+  fonts?: CustomFont[];
+  // Without one, 96 design pixels print as an inch, like CSS pixels
+  printSize?: PrintSize;
+  // Last image download settings; the Generator starts from them
+  exportSettings?: ExportSettings;
   thumbnail?: string;
-}
\ No newline at end of file
+  // Supabase user that published the template; only they can update or delete it
+  ownerId?: string | null;
+}
+
+// Lightweight row for template lists ("My templates")
+export interface TemplateSummary {
+  slug: string;
+  name: string;
+  updatedAt: string;
+}
+
+// Editor state autosaved to IndexedDB between sessions
+export interface DraftSummary {
+  id: string;
+  name: string;
+  updatedAt: string;
+  // Published template the draft was editing, if any
+  slug: string | null;
+}
+
+export interface DraftData extends DraftSummary {
+  template: Pick<TemplateData, 'schemaVersion' | 'width' | 'height' | 'backgroundColor' | 'backgroundGradient' | 'elements' | 'fonts' | 'printSize' | 'exportSettings'> & {
+    backgroundImage: string | null;
+  };
+}
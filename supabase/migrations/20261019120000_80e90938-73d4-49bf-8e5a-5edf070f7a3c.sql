@@ -0,0 +1,32 @@
+-- Track which signed-in user owns each template
+ALTER TABLE public.templates
+ADD COLUMN owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+
+-- Create index for "my templates" lookups
+CREATE INDEX idx_templates_owner_id ON public.templates(owner_id);
+
+-- Replace the open MVP write policies
+DROP POLICY IF EXISTS "Anyone can create templates" ON public.templates;
+DROP POLICY IF EXISTS "Anyone can update templates" ON public.templates;
+
+-- Signed-in users can create templates they own
+CREATE POLICY "Users can create their own templates" 
+ON public.templates 
+FOR INSERT 
+TO authenticated
+WITH CHECK (auth.uid() = owner_id);
+
+-- Only the owner can update a template (rows without an owner are now read-only)
+CREATE POLICY "Owners can update their templates" 
+ON public.templates 
+FOR UPDATE 
+TO authenticated
+USING (auth.uid() = owner_id)
+WITH CHECK (auth.uid() = owner_id);
+
+-- Only the owner can delete a template
+CREATE POLICY "Owners can delete their templates" 
+ON public.templates 
+FOR DELETE 
+TO authenticated
+USING (auth.uid() = owner_id);
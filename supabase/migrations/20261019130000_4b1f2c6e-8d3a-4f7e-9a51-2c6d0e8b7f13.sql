@@ -0,0 +1,18 @@
+-- Public bucket for template images (backgrounds and placeholder photos).
+-- Files are named after their SHA-256 content hash, so identical images are stored once.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('template-assets', 'template-assets', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Anyone can view template images (published templates are public)
+CREATE POLICY "Template assets are publicly readable"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'template-assets');
+
+-- Signed-in users can upload new images; content-addressed files are never overwritten
+CREATE POLICY "Users can upload template assets"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'template-assets');
@@ -0,0 +1,4 @@
+-- Version of the template JSON shape. Existing rows predate versioning (schema 1)
+-- and are upgraded by the client when they are loaded.
+ALTER TABLE public.templates
+ADD COLUMN schema_version INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,4 @@
+-- Fonts uploaded by the creator: [{ family, src, weight?, style? }], where src
+-- points at a file in the template-assets bucket.
+ALTER TABLE public.templates
+ADD COLUMN fonts JSONB NOT NULL DEFAULT '[]'::jsonb;
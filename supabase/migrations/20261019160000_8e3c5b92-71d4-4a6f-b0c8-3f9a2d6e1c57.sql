@@ -0,0 +1,4 @@
+-- Gradient drawn instead of background_color: { type, angle, stops: [{ offset, color }] }.
+-- NULL means a solid background.
+ALTER TABLE public.templates
+ADD COLUMN background_gradient JSONB;
@@ -0,0 +1,4 @@
+-- Physical size for print exports: { width, height, unit: 'mm' | 'in' }.
+-- NULL means 96 canvas pixels per inch.
+ALTER TABLE public.templates
+ADD COLUMN print_size JSONB;
@@ -0,0 +1,4 @@
+-- Image download settings: { format, scale, width?, quality, transparent, locked? }.
+-- When locked, the Generator downloads exactly this preset.
+ALTER TABLE public.templates
+ADD COLUMN export_settings JSONB;
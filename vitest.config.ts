@@ -0,0 +1,18 @@
+import { defineConfig, mergeConfig } from "vitest/config";
+import viteConfig from "./vite.config";
+
+export default defineConfig((env) =>
+  mergeConfig(viteConfig(env), {
+    resolve: {
+      // Konva's Node entry needs the `canvas` package; its browser build is
+      // used instead, with canvases from @napi-rs/canvas (see src/test/setup.ts)
+      mainFields: ["browser", "module", "main"],
+    },
+    test: {
+      environment: "jsdom",
+      setupFiles: ["./src/test/setup.ts"],
+      // Bundled so its `konva` import resolves the same way
+      server: { deps: { inline: ["react-konva"] } },
+    },
+  })
+);